@@ -1,60 +1,557 @@
 import React, { useEffect, useState } from 'react';
-import { Page, Product, Transaction } from './types.ts';
+import { AuditAction, CatalogImportBatch, Customer, GiftCard, Lot, LotStock, LoyaltyEntry, LoyaltySettings, Page, Permission, Product, Promotion, PurchaseOrder, QuarantinedRecord, ScaleBarcodeSettings, Shift, StaffUser, StockMovement, StoreSettings, Supplier, TaxSettings, Transaction } from './types.ts';
 import { StorageService } from './services/storageService.ts';
+import { DEFAULT_TAX_SETTINGS } from './services/taxService.ts';
+import { DEFAULT_STORE_SETTINGS } from './services/receiptService.ts';
+import { InventoryService, LotDetails, MOVEMENT_REASON_LABELS, StockPosting } from './services/inventoryService.ts';
+import { ReturnService } from './services/returnService.ts';
+import { CatalogService, ImportPreviewRow } from './services/catalogService.ts';
+import { PurchasingService } from './services/purchasingService.ts';
+import { CASH_EVENT_LABELS, ShiftReport, ShiftService } from './services/shiftService.ts';
+import { TenderService } from './services/tenderService.ts';
+import { ROLE_LABELS, StaffService } from './services/staffService.ts';
+import { AuditInput, AuditService } from './services/auditService.ts';
+import { DEFAULT_LOYALTY_SETTINGS, LoyaltyService } from './services/loyaltyService.ts';
+import { GiftCardService } from './services/giftCardService.ts';
+import { DEFAULT_SCALE_SETTINGS } from './services/measureService.ts';
+import { VariantService } from './services/variantService.ts';
+import { useIdleTimer } from './hooks/useIdleTimer.ts';
 import { Dashboard } from './components/Dashboard.tsx';
 import { Register } from './components/Register.tsx';
 import { Inventory } from './components/Inventory.tsx';
 import { SalesHistory } from './components/SalesHistory.tsx';
-import { LayoutDashboard, ShoppingCart, Package, History, Store } from 'lucide-react';
+import { Customers } from './components/Customers.tsx';
+import { GiftCards } from './components/GiftCards.tsx';
+import { Promotions } from './components/Promotions.tsx';
+import { Purchasing } from './components/Purchasing.tsx';
+import { Settings } from './components/Settings.tsx';
+import { Staff } from './components/Staff.tsx';
+import { AuditLog } from './components/AuditLog.tsx';
+import { LockScreen } from './components/LockScreen.tsx';
+import { ApprovalModal } from './components/ApprovalModal.tsx';
+import { ReceiptModal } from './components/ReceiptModal.tsx';
+import { CashDrawerModal } from './components/CashDrawerModal.tsx';
+import { ShiftReportModal } from './components/ShiftReportModal.tsx';
+import { LayoutDashboard, ShoppingCart, Package, History, Store, Tag, Truck, Settings as SettingsIcon, AlertTriangle, Users, Lock, ScrollText, Contact, Gift } from 'lucide-react';
+
+// Pages that need more than being signed in; anyone else lands on the register
+const PAGE_PERMISSIONS: Partial<Record<Page, Permission>> = {
+  [Page.DASHBOARD]: 'view_dashboard',
+  [Page.STAFF]: 'manage_staff',
+  [Page.AUDIT]: 'view_audit_log',
+  [Page.PROMOTIONS]: 'manage_promotions',
+  [Page.SETTINGS]: 'manage_settings',
+};
+
+const canOpen = (page: Page, user: StaffUser | null) => {
+  const permission = PAGE_PERMISSIONS[page];
+  return !permission || StaffService.can(user, permission);
+};
 
 const App: React.FC = () => {
   const [activePage, setActivePage] = useState<Page>(Page.DASHBOARD);
   const [products, setProducts] = useState<Product[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [storeSettings, setStoreSettings] = useState<StoreSettings>(DEFAULT_STORE_SETTINGS);
+  const [receipt, setReceipt] = useState<{ transaction: Transaction; isReprint: boolean } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [lotStock, setLotStock] = useState<LotStock[]>([]);
+  const [lastImport, setLastImport] = useState<CatalogImportBatch | null>(null);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [shiftReport, setShiftReport] = useState<ShiftReport | null>(null);
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [currentUser, setCurrentUser] = useState<StaffUser | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+  const [loyaltyLedger, setLoyaltyLedger] = useState<LoyaltyEntry[]>([]);
+  const [giftCards, setGiftCards] = useState<GiftCard[]>([]);
+  const [scaleSettings, setScaleSettings] = useState<ScaleBarcodeSettings>(DEFAULT_SCALE_SETTINGS);
+  const [approval, setApproval] = useState<{ permission: Permission; action: string; resolve: (approver: StaffUser | null) => void } | null>(null);
+
+  // Nothing below the lock screen runs without a signed-in user, so this is always a real name there
+  const userName = currentUser?.name ?? '';
 
   // Initialize data
   useEffect(() => {
-    setProducts(StorageService.getProducts());
-    setTransactions(StorageService.getTransactions());
+    const load = async () => {
+      await StorageService.init();
+      const [loadedProducts, loadedTransactions, loadedTax, loadedPromotions, loadedStore, loadedQuarantine, loadedSuppliers, loadedOrders, loadedLots, loadedImport, loadedShift, loadedUsers, loadedCustomers, loadedLoyaltySettings, loadedLedger, loadedGiftCards, loadedScaleSettings] = await Promise.all([
+        StorageService.getProducts(),
+        StorageService.getTransactions(),
+        StorageService.getTaxSettings(),
+        StorageService.getPromotions(),
+        StorageService.getStoreSettings(),
+        StorageService.getQuarantine(),
+        StorageService.getSuppliers(),
+        StorageService.getPurchaseOrders(),
+        StorageService.getLotStock(),
+        StorageService.getLastCatalogImport(),
+        StorageService.getOpenShift(),
+        StorageService.getUsers(),
+        StorageService.getCustomers(),
+        StorageService.getLoyaltySettings(),
+        StorageService.getLoyaltyLedger(),
+        StorageService.getGiftCards(),
+        StorageService.getScaleSettings(),
+      ]);
+      setProducts(loadedProducts);
+      setTransactions(loadedTransactions);
+      setTaxSettings(loadedTax);
+      setPromotions(loadedPromotions);
+      setStoreSettings(loadedStore);
+      setQuarantine(loadedQuarantine);
+      setSuppliers(loadedSuppliers);
+      setPurchaseOrders(loadedOrders);
+      setLotStock(loadedLots);
+      setLastImport(loadedImport);
+      setShift(loadedShift);
+      setUsers(loadedUsers);
+      setCustomers(loadedCustomers);
+      setLoyaltySettings(loadedLoyaltySettings);
+      setLoyaltyLedger(loadedLedger);
+      setGiftCards(loadedGiftCards);
+      setScaleSettings(loadedScaleSettings);
+      setLoading(false);
+    };
+    load().catch(e => setLoadError((e as Error).message));
   }, []);
 
+  // State is updated optimistically; tell the user if the write behind it fails
+  const persist = (write: Promise<unknown>) => {
+    write.catch(e => alert(`Could not save changes: ${(e as Error).message}`));
+  };
+
+  // Append to the audit log as the signed-in user unless someone else is named
+  const audit = (action: AuditAction, summary: string, details: Partial<AuditInput> = {}, user: StaffUser | null = currentUser) => {
+    persist(StorageService.appendAudit({ action, summary, user: user?.name ?? 'Unknown', userId: user?.id, ...details }));
+  };
+
+  // Names whoever approved an action on the signed-in user's behalf, if anyone did
+  const approvedBy = (approver: StaffUser) => approver.id === currentUser?.id ? undefined : approver.name;
+
+  // Resolves with whoever allowed the action: the signed-in user when their role permits it,
+  // otherwise someone who approves with their PIN. Null if the approval is cancelled.
+  const authorize = (permission: Permission, action: string): Promise<StaffUser | null> => {
+    if (StaffService.can(currentUser, permission)) return Promise.resolve(currentUser);
+    return new Promise(resolve => setApproval({ permission, action, resolve }));
+  };
+
+  const settleApproval = (approver: StaffUser | null) => {
+    if (approver && approval) audit('approval', `${approver.name} approved: ${approval.action}`, { approvedBy: approver.name });
+    approval?.resolve(approver);
+    setApproval(null);
+  };
+
+  const switchUser = (user: StaffUser) => {
+    setCurrentUser(user);
+    if (!canOpen(activePage, user)) setActivePage(Page.REGISTER);
+  };
+
+  const handleUnlock = (user: StaffUser) => {
+    audit('login', `${user.name} signed in`, {}, user);
+    switchUser(user);
+  };
+
+  const handleLock = (reason = 'Signed out') => {
+    settleApproval(null);
+    audit('logout', reason);
+    setDrawerOpen(false);
+    setCurrentUser(null);
+  };
+
+  useIdleTimer(() => handleLock('Locked after no activity'), { minutes: storeSettings.autoLockMinutes ?? 0, enabled: !!currentUser });
+
+  const handleCreateFirstManager = (user: StaffUser) => {
+    setUsers([user]);
+    persist(StorageService.saveUser(user));
+    audit('staff_changed', `Created the first manager account, ${user.name}`, { entityId: user.id, after: { name: user.name, role: user.role } }, user);
+    handleUnlock(user);
+  };
+
+  const handleSaveUser = (user: StaffUser) => {
+    const previous = users.find(u => u.id === user.id);
+    setUsers(prev => [...prev.filter(u => u.id !== user.id), user].sort((a, b) => a.name.localeCompare(b.name)));
+    persist(StorageService.saveUser(user));
+
+    // PIN hashes never go in the log; a reset is recorded as such
+    if (!previous) {
+      audit('staff_changed', `Added ${ROLE_LABELS[user.role].toLowerCase()} ${user.name}`, { entityId: user.id, after: { name: user.name, role: user.role } });
+    } else {
+      const changes = AuditService.diff(previous, user, ['pinSalt', 'pinHash']);
+      if (previous.pinHash !== user.pinHash) changes.after.pin = 'reset';
+      audit('staff_changed', `Updated ${user.name}`, { entityId: user.id, ...changes });
+    }
+
+    if (user.id === currentUser?.id) {
+      if (user.active) switchUser(user);
+      else handleLock(`${user.name} was deactivated`);
+    }
+  };
+
+  const handleSaveCustomer = (customer: Customer) => {
+    setCustomers(prev => [...prev.filter(c => c.id !== customer.id), customer].sort((a, b) => a.name.localeCompare(b.name)));
+    persist(StorageService.saveCustomer(customer));
+  };
+
+  // Points move with the sale or refund that earned or spent them
+  const postLoyalty = async (transaction: Transaction) => {
+    const entries = LoyaltyService.entriesFor(transaction);
+    if (entries.length === 0) return;
+    setLoyaltyLedger(prev => [...prev, ...entries]);
+    await StorageService.addLoyaltyEntries(entries);
+  };
+
+  // Card balances move with the sale or refund that loaded, spent or credited them
+  const postGiftCards = async (changed: GiftCard[]) => {
+    if (changed.length === 0) return;
+    setGiftCards(prev => [...changed.filter(c => !prev.some(p => p.id === c.id)), ...prev.map(c => changed.find(u => u.id === c.id) || c)]);
+    await StorageService.saveGiftCards(changed);
+  };
+
+  // Settled before anything is shown or stored so new store credit codes reach the receipt;
+  // null when a card can no longer cover what was charged to it
+  const settleGiftCards = (transaction: Transaction): { transaction: Transaction; cards: GiftCard[] } | null => {
+    try {
+      return GiftCardService.settle(transaction, giftCards, userName);
+    } catch (e) {
+      alert((e as Error).message);
+      return null;
+    }
+  };
+
+  // Write stock movements and refresh everything derived from the ledger
+  const postStock = async (movements: StockMovement[], lots: Lot[] = []) => {
+    setProducts(await StorageService.postMovements(movements, lots));
+    setLotStock(await StorageService.getLotStock());
+  };
+
   // Handlers
-  const handleTransactionComplete = (transaction: Transaction) => {
-    StorageService.saveTransaction(transaction);
-    // Update local state transactions
-    setTransactions(prev => [transaction, ...prev]);
-    
-    // Update stock
-    const soldItems = transaction.items.map(i => ({ id: i.id, quantity: i.quantity }));
-    const updatedProducts = StorageService.processSaleStockUpdate(soldItems);
-    setProducts(updatedProducts);
-    
-    // Force switch to dashboard or stay on register? Usually stay on register.
-    // Show success?
-    alert(`Transaction Complete! Change due: $0.00`);
+  const handleTransactionComplete = async (completed: Transaction) => {
+    const settled = settleGiftCards({ ...completed, shiftId: shift?.id });
+    if (!settled) return;
+    const { transaction } = settled;
+    // Stay on the register and offer the receipt
+    setReceipt({ transaction, isReprint: false });
+
+    try {
+      // Settle which lots the units came from before the sale is stored
+      const sale = InventoryService.depleteForSale(transaction, await StorageService.getLotStock(), userName);
+      // Update local state transactions
+      setTransactions(prev => [sale.transaction, ...prev]);
+      await StorageService.saveTransaction(sale.transaction);
+      await postLoyalty(sale.transaction);
+      await postGiftCards(settled.cards);
+      // Update stock
+      await postStock(sale.movements);
+    } catch (e) {
+      alert(`The sale could not be saved: ${(e as Error).message}`);
+    }
+  };
+
+  const handleRefundComplete = async (completed: Transaction) => {
+    // Refund cash leaves the drawer, so it has to be counted against an open shift
+    if (!shift) {
+      alert("Open a shift on the register before issuing a refund.");
+      return;
+    }
+    const approver = await authorize('give_refunds', `Refund of $${(-completed.total).toFixed(2)} on order #${completed.originalTransactionId?.slice(0, 8)}`);
+    if (!approver) return;
+    const settled = settleGiftCards({ ...completed, shiftId: shift.id });
+    if (!settled) return;
+    const refund = settled.transaction;
+    setReceipt({ transaction: refund, isReprint: false });
+    audit('refund', `Refunded $${(-refund.total).toFixed(2)} on order #${refund.originalTransactionId?.slice(0, 8)}`, {
+      entityId: refund.id,
+      after: { items: refund.items.map(i => `${i.quantity} x ${i.sku}`), total: refund.total },
+      approvedBy: approvedBy(approver),
+    });
+
+    try {
+      const original = transactions.find(t => t.id === refund.originalTransactionId);
+      const restock = original
+        ? InventoryService.restockForRefund(refund, original, ReturnService.getRefundsFor(original.id, transactions), userName)
+        : { transaction: refund, movements: [] };
+      setTransactions(prev => [restock.transaction, ...prev]);
+      await StorageService.saveTransaction(restock.transaction);
+      await postLoyalty(restock.transaction);
+      await postGiftCards(settled.cards);
+      if (restock.movements.length > 0) {
+        await postStock(restock.movements);
+      }
+    } catch (e) {
+      alert(`The refund could not be saved: ${(e as Error).message}`);
+    }
+  };
+
+  const handleOpenShift = async (openingFloat: number) => {
+    try {
+      const opened = ShiftService.open(openingFloat, userName, await StorageService.getShifts());
+      setShift(opened);
+      audit('shift_opened', `Opened shift #${opened.number} with a $${opened.openingFloat.toFixed(2)} float`, { entityId: opened.id });
+      await StorageService.saveShift(opened);
+    } catch (e) {
+      alert(`The shift could not be opened: ${(e as Error).message}`);
+    }
+  };
+
+  const handleSaveShift = (updated: Shift) => {
+    const event = updated.cashEvents.find(e => !shift?.cashEvents.some(existing => existing.id === e.id));
+    if (event) {
+      audit('cash_event', `${CASH_EVENT_LABELS[event.type]} of $${event.amount.toFixed(2)} on shift #${updated.number}: ${event.reason}`, { entityId: updated.id });
+    }
+    setShift(updated);
+    persist(StorageService.saveShift(updated));
+  };
+
+  const handleCloseShift = (closed: Shift) => {
+    audit('shift_closed', `Closed shift #${closed.number}`, {
+      entityId: closed.id,
+      after: { expectedCash: closed.expectedCash, countedCash: closed.countedCash, variance: TenderService.roundCurrency(closed.countedCash! - closed.expectedCash!) },
+    });
+    setShift(null);
+    setDrawerOpen(false);
+    setShiftReport(ShiftService.report('Z', closed, transactions));
+    persist(StorageService.saveShift(closed));
   };
 
   const handleAddProduct = (product: Product) => {
-    const updated = [...products, product];
-    setProducts(updated);
-    StorageService.saveProducts(updated);
+    audit('product_created', `Created ${product.name}`, { entityId: product.id, after: { sku: product.sku, name: product.name, price: product.price, stock: product.stock } });
+    setProducts(prev => [...prev, product]);
+    persist((async () => {
+      await StorageService.saveProduct(product);
+      // The stock entered for a new product becomes its opening balance in the ledger
+      const opening = InventoryService.openingBalance(product, userName);
+      await postStock(opening.movements, opening.lots);
+    })());
+  };
+
+  const handleUpdateProduct = async (product: Product) => {
+    // Stock only changes through the ledger, never through the edit form
+    const existing = products.find(p => p.id === product.id);
+    const repriced = !!existing && existing.price !== product.price;
+    const approver = repriced
+      ? await authorize('edit_prices', `Change the price of ${existing!.name} from $${existing!.price.toFixed(2)} to $${product.price.toFixed(2)}`)
+      : currentUser;
+    if (!approver) {
+      alert("The changes were not saved.");
+      return;
+    }
+    const updated = { ...product, stock: existing ? existing.stock : product.stock };
+    if (existing) {
+      const changes = AuditService.diff(existing, updated);
+      if (Object.keys(changes.after).length > 0) {
+        audit(repriced ? 'price_changed' : 'product_updated', `Edited ${updated.name}`, { entityId: updated.id, ...changes, approvedBy: approvedBy(approver) });
+      }
+    }
+    setProducts(prev => prev.map(p => p.id === product.id ? updated : p));
+    persist(StorageService.saveProduct(updated));
+  };
+
+  // A parent and its variants are saved together so one approval covers every variant a price change reaches
+  const handleSaveVariants = async (parent: Product, variants: Product[], removed: Product[]) => {
+    const family = [parent, ...variants];
+    const repriced = family.filter(p => products.some(existing => existing.id === p.id && existing.price !== p.price));
+    const approver = repriced.length > 0
+      ? await authorize('edit_prices', `Change the price of ${repriced.length} product(s) in ${parent.name}`)
+      : currentUser;
+    if (!approver || (removed.length > 0 && !(await authorize('delete_products', `Remove ${removed.length} variant(s) of ${parent.name}`)))) {
+      alert("The changes were not saved.");
+      return;
+    }
+    const created = family.filter(p => !products.some(existing => existing.id === p.id));
+    // Stock only changes through the ledger, never through the edit form
+    const updated = family.flatMap(p => {
+      const existing = products.find(e => e.id === p.id);
+      return existing ? [{ ...p, stock: existing.stock }] : [];
+    });
+    created.forEach(p => audit('product_created', `Created ${p.name}`, { entityId: p.id, after: { sku: p.sku, name: p.name, price: p.price, stock: p.stock } }));
+    updated.forEach(p => {
+      const changes = AuditService.diff(products.find(e => e.id === p.id)!, p);
+      if (Object.keys(changes.after).length > 0) {
+        audit(repriced.some(r => r.id === p.id) ? 'price_changed' : 'product_updated', `Edited ${p.name}`, { entityId: p.id, ...changes, approvedBy: approvedBy(approver) });
+      }
+    });
+    removed.forEach(p => audit('product_deleted', `Deleted ${p.name}`, { entityId: p.id, before: { sku: p.sku, name: p.name, price: p.price, stock: p.stock } }));
+
+    setProducts(prev => [
+      ...prev.filter(p => !removed.some(r => r.id === p.id)).map(p => updated.find(u => u.id === p.id) || p),
+      ...created,
+    ]);
+    persist((async () => {
+      await StorageService.saveProducts([...updated, ...created]);
+      await Promise.all(removed.map(p => StorageService.deleteProduct(p.id)));
+      const openings = created.map(p => InventoryService.openingBalance(p, userName));
+      await postStock(openings.flatMap(o => o.movements), openings.flatMap(o => o.lots));
+    })());
+  };
+
+  const handleStockAdjustment = async (posting: StockPosting) => {
+    try {
+      await postStock(posting.movements, posting.lots);
+      // One entry per product, even when the change was spread across several lots
+      new Set(posting.movements.map(m => m.productId)).forEach(productId => {
+        const moved = posting.movements.filter(m => m.productId === productId);
+        const delta = moved.reduce((sum, m) => sum + m.quantity, 0);
+        const product = products.find(p => p.id === productId);
+        audit('stock_adjusted', `${MOVEMENT_REASON_LABELS[moved[0].reason]}: ${delta > 0 ? '+' : ''}${delta} ${product?.name || 'unknown product'}`, {
+          entityId: productId,
+          before: { stock: product?.stock },
+          after: { stock: product ? product.stock + delta : undefined, note: moved[0].note },
+        });
+      });
+    } catch (e) {
+      alert(`The stock adjustment could not be saved: ${(e as Error).message}`);
+    }
+  };
+
+  // Settings decide tax, receipts and auto-lock, so changing them needs a manager and is audited.
+  // False when the change was not approved; saving unchanged settings needs no approval.
+  const approveSettingsChange = async <T extends object>(label: string, before: T, after: T): Promise<boolean> => {
+    const changes = AuditService.diff(before, after);
+    if (Object.keys(changes.after).length === 0) return true;
+    const approver = await authorize('manage_settings', `Change the ${label}`);
+    if (!approver) {
+      alert(`The ${label} were not saved.`);
+      return false;
+    }
+    audit('settings_changed', `Changed the ${label}`, { ...changes, approvedBy: approvedBy(approver) });
+    return true;
+  };
+
+  const handleSaveTaxSettings = async (settings: TaxSettings) => {
+    if (!(await approveSettingsChange('tax settings', taxSettings, settings))) return;
+    setTaxSettings(settings);
+    persist(StorageService.saveTaxSettings(settings));
+  };
+
+  const handleSaveStoreSettings = async (settings: StoreSettings) => {
+    if (!(await approveSettingsChange('store settings', storeSettings, settings))) return;
+    setStoreSettings(settings);
+    persist(StorageService.saveStoreSettings(settings));
+  };
+
+  const handleSaveLoyaltySettings = async (settings: LoyaltySettings) => {
+    if (!(await approveSettingsChange('loyalty settings', loyaltySettings, settings))) return;
+    setLoyaltySettings(settings);
+    persist(StorageService.saveLoyaltySettings(settings));
+  };
+
+  const handleSaveScaleSettings = async (settings: ScaleBarcodeSettings) => {
+    if (!(await approveSettingsChange('scale barcode settings', scaleSettings, settings))) return;
+    setScaleSettings(settings);
+    persist(StorageService.saveScaleSettings(settings));
+  };
+
+  // Promotions and coupons can take any amount off, so they need the same care as a manual discount
+  const handleSavePromotions = async (updated: Promotion[]) => {
+    const byId = (list: Promotion[]) => Object.fromEntries(list.map(p => [p.id, p]));
+    const changes = AuditService.diff(byId(promotions), byId(updated));
+    const names = [...promotions, ...updated].filter(p => p.id in changes.after || p.id in changes.before).map(p => p.name);
+    // Saving without changing anything needs no approval
+    if (names.length > 0) {
+      const approver = await authorize('manage_promotions', 'Change promotions and coupons');
+      if (!approver) {
+        alert("The promotion changes were not saved.");
+        return;
+      }
+      audit('promotions_changed', `Changed promotions: ${[...new Set(names)].join(', ')}`, { ...changes, approvedBy: approvedBy(approver) });
+    }
+    setPromotions(updated);
+    persist(StorageService.savePromotions(updated));
   };
 
-  const handleUpdateProduct = (product: Product) => {
-    const updated = products.map(p => p.id === product.id ? product : p);
-    setProducts(updated);
-    StorageService.saveProducts(updated);
+  const handleSaveSupplier = (supplier: Supplier) => {
+    setSuppliers(prev => [...prev.filter(s => s.id !== supplier.id), supplier].sort((a, b) => a.name.localeCompare(b.name)));
+    persist(StorageService.saveSupplier(supplier));
   };
 
-  const handleDeleteProduct = (id: string) => {
-    if (confirm("Are you sure you want to delete this product?")) {
-      const updated = products.filter(p => p.id !== id);
-      setProducts(updated);
-      StorageService.saveProducts(updated);
+  const handleDeleteSupplier = (id: string) => {
+    setSuppliers(prev => prev.filter(s => s.id !== id));
+    persist(StorageService.deleteSupplier(id));
+  };
+
+  const handleSavePurchaseOrder = (order: PurchaseOrder) => {
+    setPurchaseOrders(prev => prev.some(o => o.id === order.id) ? prev.map(o => o.id === order.id ? order : o) : [order, ...prev]);
+    persist(StorageService.savePurchaseOrder(order));
+  };
+
+  const handleDeletePurchaseOrder = (id: string) => {
+    setPurchaseOrders(prev => prev.filter(o => o.id !== id));
+    persist(StorageService.deletePurchaseOrder(id));
+  };
+
+  // Throws if the quantities don't fit the order so the receiving form can say why
+  const handleReceiveGoods = (order: PurchaseOrder, quantities: Record<string, number>, lotDetails: Record<string, LotDetails>, note?: string): PurchaseOrder => {
+    const result = PurchasingService.receive(order, quantities, userName, lotDetails, note);
+    setPurchaseOrders(prev => prev.map(o => o.id === order.id ? result.order : o));
+    audit('stock_received', `Received ${result.movements.reduce((sum, m) => sum + m.quantity, 0)} unit(s) against ${order.number}`, { entityId: order.id });
+    persist((async () => {
+      await StorageService.savePurchaseOrder(result.order);
+      await postStock(result.movements, result.lots);
+    })());
+    return result.order;
+  };
+
+  const handleDiscardQuarantined = (id: string) => {
+    setQuarantine(prev => prev.filter(q => q.id !== id));
+    persist(StorageService.discardQuarantined(id));
+  };
+
+  const handleImportCatalog = async (rows: ImportPreviewRow[], fileName: string) => {
+    const repriced = rows.filter(r => r.action === 'update' && r.changes.includes('price')).length;
+    const approver = repriced > 0 ? await authorize('edit_prices', `Import changes the price of ${repriced} product(s)`) : currentUser;
+    if (!approver) return;
+    const { products: changed, posting, batch } = CatalogService.buildImport(rows, userName, fileName);
+    audit('catalog_imported', `Imported ${fileName}: ${batch.createdProductIds.length} new, ${batch.previousProducts.length} updated, ${repriced} repriced`, {
+      entityId: batch.id,
+      approvedBy: approvedBy(approver),
+    });
+    persist((async () => {
+      setProducts(await StorageService.commitCatalogImport(changed, posting, batch));
+      setLotStock(await StorageService.getLotStock());
+      setLastImport(batch);
+    })());
+  };
+
+  const handleUndoImport = async (batch: CatalogImportBatch) => {
+    // Undoing puts the old prices back, which is a price change of its own
+    const repriced = batch.previousProducts.filter(prev => {
+      const current = products.find(p => p.id === prev.id);
+      return current && current.price !== prev.price;
+    }).length;
+    const approver = repriced > 0 ? await authorize('edit_prices', `Undoing ${batch.fileName} changes the price of ${repriced} product(s)`) : currentUser;
+    if (!approver) return;
+    try {
+      setProducts(await StorageService.undoCatalogImport(batch));
+      setLotStock(await StorageService.getLotStock());
+      setLastImport(null);
+      audit('catalog_import_undone', `Undid the import of ${batch.fileName}`, { entityId: batch.id, approvedBy: approvedBy(approver) });
+    } catch (e) {
+      alert((e as Error).message);
     }
   };
 
-  const NavItem = ({ page, icon: Icon, label }: { page: Page, icon: any, label: string }) => (
+  const handleDeleteProduct = async (id: string) => {
+    // A parent takes its variants with it
+    const variants = VariantService.variantsOf(id, products);
+    if (!confirm(variants.length > 0 ? `Delete this product and its ${variants.length} variant(s)?` : "Are you sure you want to delete this product?")) return;
+    const product = products.find(p => p.id === id);
+    const approver = await authorize('delete_products', `Delete ${product?.name || 'product'}`);
+    if (!approver) return;
+    audit('product_deleted', `Deleted ${product?.name || id}`, { entityId: id, before: product && { sku: product.sku, name: product.name, price: product.price, stock: product.stock }, approvedBy: approvedBy(approver) });
+    variants.forEach(v => audit('product_deleted', `Deleted ${v.name}`, { entityId: v.id, before: { sku: v.sku, name: v.name, price: v.price, stock: v.stock }, approvedBy: approvedBy(approver) }));
+    setProducts(prev => prev.filter(p => p.id !== id && p.parentId !== id));
+    persist(Promise.all([id, ...variants.map(v => v.id)].map(productId => StorageService.deleteProduct(productId))));
+  };
+
+  const NavItem = ({ page, icon: Icon, label }: { page: Page, icon: any, label: string }) => !canOpen(page, currentUser) ? null : (
     <button
       onClick={() => setActivePage(page)}
       className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
@@ -68,6 +565,18 @@ const App: React.FC = () => {
     </button>
   );
 
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-100 text-slate-500">
+        {loadError ? `Could not open the store database: ${loadError}` : 'Loading store data...'}
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return <LockScreen users={users} storeName={storeSettings.name} onUnlock={handleUnlock} onCreateFirstManager={handleCreateFirstManager} onFailedAttempt={message => audit('login_failed', message, {}, null)} />;
+  }
+
   return (
     <div className="flex h-screen bg-slate-100 overflow-hidden">
       {/* Sidebar */}
@@ -87,6 +596,13 @@ const App: React.FC = () => {
           <NavItem page={Page.REGISTER} icon={ShoppingCart} label="Register (POS)" />
           <NavItem page={Page.INVENTORY} icon={Package} label="Inventory" />
           <NavItem page={Page.HISTORY} icon={History} label="Sales History" />
+          <NavItem page={Page.CUSTOMERS} icon={Contact} label="Customers" />
+          <NavItem page={Page.GIFT_CARDS} icon={Gift} label="Gift Cards" />
+          <NavItem page={Page.PROMOTIONS} icon={Tag} label="Promotions" />
+          <NavItem page={Page.PURCHASING} icon={Truck} label="Purchasing" />
+          <NavItem page={Page.STAFF} icon={Users} label="Staff" />
+          <NavItem page={Page.AUDIT} icon={ScrollText} label="Audit Log" />
+          <NavItem page={Page.SETTINGS} icon={SettingsIcon} label="Settings" />
         </nav>
 
         <div className="p-4 border-t border-slate-800">
@@ -94,9 +610,15 @@ const App: React.FC = () => {
               <p className="text-xs text-slate-400 mb-1">Logged in as</p>
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center font-bold text-sm">
-                  AD
+                  {StaffService.initials(currentUser.name)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-sm truncate">{currentUser.name}</div>
+                  <div className="text-xs text-slate-400">{ROLE_LABELS[currentUser.role]}</div>
                 </div>
-                <span className="font-medium text-sm">Admin User</span>
+                <button onClick={() => handleLock()} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition" title="Lock">
+                  <Lock size={16} />
+                </button>
               </div>
            </div>
         </div>
@@ -112,12 +634,81 @@ const App: React.FC = () => {
         </header>
         
         <div className="p-8 max-w-7xl mx-auto">
-          {activePage === Page.DASHBOARD && <Dashboard products={products} transactions={transactions} />}
-          {activePage === Page.REGISTER && <Register products={products} onCompleteTransaction={handleTransactionComplete} />}
-          {activePage === Page.INVENTORY && <Inventory products={products} onAddProduct={handleAddProduct} onUpdateProduct={handleUpdateProduct} onDeleteProduct={handleDeleteProduct} />}
-          {activePage === Page.HISTORY && <SalesHistory transactions={transactions} />}
+          {quarantine.length > 0 && activePage !== Page.SETTINGS && canOpen(Page.SETTINGS, currentUser) && (
+            <button
+              onClick={() => setActivePage(Page.SETTINGS)}
+              className="w-full mb-6 px-4 py-3 rounded-xl border border-amber-200 bg-amber-50 text-amber-800 text-sm flex items-center gap-2 text-left"
+            >
+              <AlertTriangle size={18} />
+              {quarantine.length} stored record{quarantine.length === 1 ? '' : 's'} could not be loaded and {quarantine.length === 1 ? 'was' : 'were'} set aside. Review them under Settings &rarr; Data Health.
+            </button>
+          )}
+          {activePage === Page.DASHBOARD && <Dashboard products={products} transactions={transactions} lotStock={lotStock} />}
+          {activePage === Page.REGISTER && <Register products={products} lotStock={lotStock} taxSettings={taxSettings} promotions={promotions} onCompleteTransaction={handleTransactionComplete} onAddProduct={handleAddProduct} shift={shift} onOpenShift={handleOpenShift} onOpenDrawer={() => setDrawerOpen(true)} onAuthorize={authorize} onAudit={audit} customers={customers} onSaveCustomer={handleSaveCustomer} loyaltySettings={loyaltySettings} loyaltyLedger={loyaltyLedger} giftCards={giftCards} scaleSettings={scaleSettings} />}
+          {activePage === Page.INVENTORY && <Inventory products={products} taxSettings={taxSettings} onAddProduct={handleAddProduct} onUpdateProduct={handleUpdateProduct} onSaveVariants={handleSaveVariants} onDeleteProduct={handleDeleteProduct} lotStock={lotStock} onStockAdjustment={handleStockAdjustment} lastImport={lastImport} onImportCatalog={handleImportCatalog} onUndoImport={handleUndoImport} currentUser={userName} />}
+          {activePage === Page.HISTORY && <SalesHistory transactions={transactions} customers={customers} onRefund={handleRefundComplete} onReprint={t => setReceipt({ transaction: t, isReprint: true })} />}
+          {activePage === Page.CUSTOMERS && <Customers customers={customers} transactions={transactions} loyaltySettings={loyaltySettings} loyaltyLedger={loyaltyLedger} onSaveCustomer={handleSaveCustomer} onReprint={t => setReceipt({ transaction: t, isReprint: true })} />}
+          {activePage === Page.GIFT_CARDS && <GiftCards giftCards={giftCards} customers={customers} transactions={transactions} onReprint={t => setReceipt({ transaction: t, isReprint: true })} />}
+          {activePage === Page.PROMOTIONS && <Promotions promotions={promotions} products={products} onSavePromotions={handleSavePromotions} />}
+          {activePage === Page.PURCHASING && (
+            <Purchasing
+              suppliers={suppliers}
+              purchaseOrders={purchaseOrders}
+              products={products}
+              transactions={transactions}
+              onSaveSupplier={handleSaveSupplier}
+              onDeleteSupplier={handleDeleteSupplier}
+              onSaveOrder={handleSavePurchaseOrder}
+              onDeleteOrder={handleDeletePurchaseOrder}
+              onReceive={handleReceiveGoods}
+            />
+          )}
+          {activePage === Page.AUDIT && <AuditLog />}
+          {activePage === Page.STAFF && <Staff users={users} currentUser={currentUser} onSaveUser={handleSaveUser} />}
+          {activePage === Page.SETTINGS && <Settings taxSettings={taxSettings} storeSettings={storeSettings} categories={Array.from(new Set(products.map(p => p.category)))} onSaveTaxSettings={handleSaveTaxSettings} onSaveStoreSettings={handleSaveStoreSettings} loyaltySettings={loyaltySettings} onSaveLoyaltySettings={handleSaveLoyaltySettings} scaleSettings={scaleSettings} onSaveScaleSettings={handleSaveScaleSettings} storageInfo={{ backend: StorageService.getBackendName(), schemaVersion: StorageService.getSchemaVersion() }} quarantine={quarantine} onDiscardQuarantined={handleDiscardQuarantined} />}
         </div>
       </main>
+
+      {receipt && (
+        <ReceiptModal
+          transaction={receipt.transaction}
+          storeSettings={storeSettings}
+          isReprint={receipt.isReprint}
+          onClose={() => setReceipt(null)}
+        />
+      )}
+
+      {drawerOpen && shift && (
+        <CashDrawerModal
+          shift={shift}
+          transactions={transactions}
+          currentUser={userName}
+          onSaveShift={handleSaveShift}
+          onCloseShift={handleCloseShift}
+          onShowReport={setShiftReport}
+          onClose={() => setDrawerOpen(false)}
+        />
+      )}
+
+      {shiftReport && (
+        <ShiftReportModal
+          report={shiftReport}
+          storeSettings={storeSettings}
+          onClose={() => setShiftReport(null)}
+        />
+      )}
+
+      {approval && (
+        <ApprovalModal
+          permission={approval.permission}
+          action={approval.action}
+          currentUser={currentUser}
+          users={users}
+          onApprove={settleApproval}
+          onCancel={() => settleApproval(null)}
+          onFailedAttempt={message => audit('login_failed', message)}
+        />
+      )}
     </div>
   );
 };
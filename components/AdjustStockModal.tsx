@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { LotStock, Product, StockMovementReason } from '../types.ts';
+import { InventoryService, MANUAL_MOVEMENT_REASONS, MOVEMENT_REASON_LABELS, StockPosting } from '../services/inventoryService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { SlidersHorizontal, Save } from 'lucide-react';
+
+interface AdjustStockModalProps {
+  product: Product;
+  lotStock: LotStock[];
+  currentUser: string;
+  onSave: (posting: StockPosting) => void;
+  onCancel: () => void;
+}
+
+export const AdjustStockModal: React.FC<AdjustStockModalProps> = ({ product, lotStock, currentUser, onSave, onCancel }) => {
+  const [reason, setReason] = useState<StockMovementReason>('receipt');
+  const [amount, setAmount] = useState('');
+  const [direction, setDirection] = useState<'in' | 'out'>('out');
+  const [note, setNote] = useState('');
+  const [lotId, setLotId] = useState(''); // Empty picks automatically: FEFO when removing, a new lot when adding
+  const [newLot, setNewLot] = useState({ code: '', expiryDate: '' });
+
+  const productLots = lotStock.filter(ls => ls.lot.productId === product.id);
+  const selectedLot = productLots.find(ls => ls.lot.id === lotId);
+
+  const isWeighed = MeasureService.isWeighed(product);
+  const entered = parseFloat(amount);
+  const format = (quantity: number) => MeasureService.format(quantity, product.unit);
+  // Signed change to on-hand stock implied by the form
+  const delta = isNaN(entered) ? 0
+    : reason === 'count_correction' ? MeasureService.roundQuantity(entered - product.stock)
+    : reason === 'receipt' ? entered
+    : reason === 'transfer' ? (direction === 'in' ? entered : -entered)
+    : -entered;
+
+  const handleSave = () => {
+    if (!MeasureService.fitsUnit(entered, product.unit) || entered < 0) {
+      alert(isWeighed ? `Enter a non-negative weight in ${product.unit}.` : "Enter a whole, non-negative quantity.");
+      return;
+    }
+    if (delta === 0) {
+      alert("This adjustment would not change the stock on hand.");
+      return;
+    }
+    if (reason === 'transfer' && !note.trim()) {
+      alert("Note the other location for a transfer.");
+      return;
+    }
+    if (selectedLot && selectedLot.quantity + delta < 0) {
+      alert(`Lot ${selectedLot.lot.code || 'without a code'} only holds ${format(selectedLot.quantity)}.`);
+      return;
+    }
+    onSave(InventoryService.adjustment(product.id, reason, delta, currentUser, lotStock, {
+      lotId: lotId || undefined,
+      newLot: { code: newLot.code.trim() || undefined, expiryDate: newLot.expiryDate || undefined },
+    }, note.trim() || undefined));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[440px] shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-blue-100 text-blue-600 rounded-full mb-3"><SlidersHorizontal size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Adjust Stock</h3>
+          <p className="text-slate-500">{product.name} &middot; {format(product.stock)} on hand</p>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+            <select
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={reason}
+              onChange={e => setReason(e.target.value as StockMovementReason)}
+            >
+              {MANUAL_MOVEMENT_REASONS.map(r => <option key={r} value={r}>{MOVEMENT_REASON_LABELS[r]}</option>)}
+            </select>
+          </div>
+
+          {reason === 'transfer' && (
+            <div className="grid grid-cols-2 gap-2">
+              {(['out', 'in'] as const).map(d => (
+                <button
+                  key={d}
+                  onClick={() => setDirection(d)}
+                  className={`py-2 rounded-lg border text-sm font-medium ${direction === d ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-slate-200 text-slate-600'}`}
+                >
+                  {d === 'out' ? 'Out to another location' : 'In from another location'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              {reason === 'count_correction' ? 'Counted Quantity' : 'Quantity'}{isWeighed && ` (${product.unit})`}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step={isWeighed ? '0.001' : '1'}
+              autoFocus
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+            />
+            {delta !== 0 && (
+              <p className={`text-xs mt-1 font-medium ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {delta > 0 ? '+' : ''}{format(delta)} &rarr; {format(product.stock + delta)} on hand
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Lot</label>
+            <select
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={lotId}
+              onChange={e => setLotId(e.target.value)}
+            >
+              <option value="">{delta > 0 ? 'New lot' : 'Automatic (earliest expiry first)'}</option>
+              {productLots.map(ls => (
+                <option key={ls.lot.id} value={ls.lot.id}>
+                  {ls.lot.code || 'No code'}{ls.lot.expiryDate ? ` · exp ${ls.lot.expiryDate}` : ''} · {format(ls.quantity)} on hand
+                </option>
+              ))}
+            </select>
+            {delta > 0 && !lotId && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <input
+                  type="text"
+                  className="px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                  value={newLot.code}
+                  placeholder="Lot / batch code"
+                  onChange={e => setNewLot({ ...newLot, code: e.target.value })}
+                />
+                <input
+                  type="date"
+                  title="Expiry date"
+                  className="px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                  value={newLot.expiryDate}
+                  onChange={e => setNewLot({ ...newLot, expiryDate: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Note</label>
+            <textarea
+              rows={2}
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder={reason === 'transfer' ? 'Other location' : 'Optional'}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={onCancel} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition flex items-center gap-2"
+          >
+            <Save size={18} /> Record
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Permission, StaffUser } from '../types.ts';
+import { MAX_PIN_ATTEMPTS, PERMISSION_LABELS, PIN_LOCKOUT_SECONDS, StaffService } from '../services/staffService.ts';
+import { ShieldCheck } from 'lucide-react';
+
+interface ApprovalModalProps {
+  permission: Permission;
+  action: string;
+  currentUser: StaffUser;
+  users: StaffUser[];
+  onApprove: (approver: StaffUser) => void;
+  onCancel: () => void;
+  onFailedAttempt: (message: string) => void;
+}
+
+export const ApprovalModal: React.FC<ApprovalModalProps> = ({ permission, action, currentUser, users, onApprove, onCancel, onFailedAttempt }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleApprove = async () => {
+    if (!pin || checking) return;
+    const lockedFor = StaffService.pinLockoutRemaining('approval');
+    if (lockedFor > 0) {
+      setError(`Too many attempts. Try again in ${lockedFor} seconds.`);
+      return;
+    }
+    setChecking(true);
+    const approver = await StaffService.findByPin(pin, users);
+    setChecking(false);
+    setPin('');
+    if (approver && StaffService.can(approver, permission)) {
+      StaffService.clearPinFailures('approval');
+      onApprove(approver);
+      return;
+    }
+    // Same message either way so the pad doesn't reveal whose PIN was entered
+    if (StaffService.recordPinFailure('approval')) {
+      setError(`Too many attempts. Try again in ${PIN_LOCKOUT_SECONDS} seconds.`);
+      onFailedAttempt(`Approval locked for ${PIN_LOCKOUT_SECONDS} seconds after ${MAX_PIN_ATTEMPTS} incorrect PINs: ${action}`);
+    } else {
+      setError('This PIN cannot approve this action.');
+      onFailedAttempt(`Incorrect approval PIN entered: ${action}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[400px] shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-amber-100 text-amber-600 rounded-full mb-3"><ShieldCheck size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Approval Needed</h3>
+          <p className="text-slate-500">{action}</p>
+          <p className="text-xs text-slate-400 mt-1">{currentUser.name} cannot {PERMISSION_LABELS[permission].toLowerCase()}. A manager can approve with their PIN.</p>
+        </div>
+
+        <input
+          type="password"
+          inputMode="numeric"
+          autoFocus
+          placeholder="Manager PIN"
+          className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-center text-lg tracking-widest"
+          value={pin}
+          onChange={e => { setPin(e.target.value.replace(/\D/g, '')); setError(''); }}
+          onKeyDown={e => e.key === 'Enter' && handleApprove()}
+        />
+        <p className="text-center text-sm text-red-600 h-5 mt-2">{error}</p>
+
+        <div className="flex justify-end gap-4 mt-4">
+          <button onClick={onCancel} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+          <button
+            onClick={handleApprove}
+            disabled={!pin || checking}
+            className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition disabled:opacity-50"
+          >
+            Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
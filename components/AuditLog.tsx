@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditAction, AuditEntry } from '../types.ts';
+import { StorageService } from '../services/storageService.ts';
+import { AUDIT_ACTION_LABELS, AuditFilter, AuditService, AuditVerification } from '../services/auditService.ts';
+import { Search, ShieldCheck, ShieldAlert, X } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = { from: '', to: '', action: '', user: '', text: '' };
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+
+  // The log is read fresh each visit and the whole chain re-verified
+  useEffect(() => {
+    StorageService.getAuditLog().then(async log => {
+      setEntries([...log].reverse());
+      setVerification(await AuditService.verify(log));
+    });
+  }, []);
+
+  const filter = useMemo((): AuditFilter => ({
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    action: (filters.action || undefined) as AuditAction | undefined,
+    user: filters.user || undefined,
+    text: filters.text || undefined,
+  }), [filters]);
+  const results = useMemo(() => entries.filter(e => AuditService.matches(e, filter)), [entries, filter]);
+  const users = useMemo(() => Array.from(new Set(entries.map(e => e.user))).sort(), [entries]);
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  const visible = results.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const isFiltered = Object.values(filters).some(v => v !== '');
+
+  useEffect(() => { setPage(0); }, [filter]);
+
+  const updateFilter = (changes: Partial<typeof EMPTY_FILTERS>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Audit Log</h2>
+        <p className="text-slate-500">Who did what and when. Entries are chained together so any later change shows up here.</p>
+      </div>
+
+      {verification && (
+        verification.valid ? (
+          <div className="px-4 py-3 rounded-xl border border-green-200 bg-green-50 text-green-800 text-sm flex items-center gap-2">
+            <ShieldCheck size={18} /> Chain intact: all {verification.checked} entries verified.
+          </div>
+        ) : (
+          <div className="px-4 py-3 rounded-xl border border-red-200 bg-red-50 text-red-800 text-sm flex items-center gap-2">
+            <ShieldAlert size={18} /> Tampering detected. {verification.problem} The {verification.checked} entries before it verify.
+          </div>
+        )
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+        <div className="grid grid-cols-5 gap-3">
+          <div className="relative col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input
+              type="text"
+              placeholder="Search details, products or ids..."
+              className="w-full pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={filters.text}
+              onChange={e => updateFilter({ text: e.target.value })}
+            />
+          </div>
+          <select
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm bg-white"
+            value={filters.action}
+            onChange={e => updateFilter({ action: e.target.value })}
+          >
+            <option value="">Any action</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+          </select>
+          <select
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm bg-white"
+            value={filters.user}
+            onChange={e => updateFilter({ user: e.target.value })}
+          >
+            <option value="">Anyone</option>
+            {users.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <div className="flex gap-1">
+            <input
+              type="date"
+              title="From"
+              className="w-1/2 px-2 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={filters.from}
+              onChange={e => updateFilter({ from: e.target.value })}
+            />
+            <input
+              type="date"
+              title="To"
+              className="w-1/2 px-2 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={filters.to}
+              onChange={e => updateFilter({ to: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex justify-between items-center mt-3 text-sm text-slate-500">
+          <span>{isFiltered ? `${results.length} of ${entries.length} entries match` : `${entries.length} entries`}</span>
+          {isFiltered && (
+            <button onClick={() => setFilters(EMPTY_FILTERS)} className="flex items-center gap-1 text-slate-600 hover:text-slate-800">
+              <X size={14} /> Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-4">#</th>
+              <th className="px-6 py-4">When</th>
+              <th className="px-6 py-4">Who</th>
+              <th className="px-6 py-4">Action</th>
+              <th className="px-6 py-4">Details</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visible.map(entry => {
+              const broken = verification && !verification.valid && entry.sequence >= verification.brokenAt!;
+              return (
+                <tr key={entry.id} className={`align-top ${broken ? 'bg-red-50/50' : 'hover:bg-slate-50'}`}>
+                  <td className="px-6 py-3 text-xs text-slate-400 font-mono">{entry.sequence}</td>
+                  <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="px-6 py-3">
+                    <div className="font-medium text-slate-700">{entry.user}</div>
+                    {entry.approvedBy && <div className="text-xs text-amber-600">Approved by {entry.approvedBy}</div>}
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className="text-xs font-bold px-2 py-1 rounded-full bg-slate-100 text-slate-600 whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span>
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="text-slate-700">{entry.summary}</div>
+                    {entry.after && Object.keys(entry.after).map(key => (
+                      <div key={key} className="text-xs text-slate-500">
+                        {key}: {entry.before && key in entry.before ? <>{formatValue(entry.before[key])} → </> : null}{formatValue(entry.after![key])}
+                      </div>
+                    ))}
+                    {!entry.after && entry.before && Object.keys(entry.before).map(key => (
+                      <div key={key} className="text-xs text-slate-500">{key}: {formatValue(entry.before![key])}</div>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {results.length === 0 && (
+          <div className="p-12 text-center text-slate-400">{entries.length === 0 ? 'Nothing has been recorded yet.' : 'No entries match these filters.'}</div>
+        )}
+        {results.length > PAGE_SIZE && (
+          <div className="px-6 py-3 border-t border-slate-100 flex justify-between items-center text-sm text-slate-500">
+            <span>Showing {page * PAGE_SIZE + 1}-{Math.min(results.length, (page + 1) * PAGE_SIZE)} of {results.length}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 0}
+                className="px-3 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={page >= pageCount - 1}
+                className="px-3 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { CashEventType, Shift, Transaction } from '../types.ts';
+import { CASH_EVENT_LABELS, ShiftReport, ShiftService } from '../services/shiftService.ts';
+import { Wallet, FileText, Lock } from 'lucide-react';
+
+interface CashDrawerModalProps {
+  shift: Shift;
+  transactions: Transaction[];
+  currentUser: string;
+  onSaveShift: (shift: Shift) => void;
+  onCloseShift: (shift: Shift) => void;
+  onShowReport: (report: ShiftReport) => void;
+  onClose: () => void;
+}
+
+const EVENT_TYPES: CashEventType[] = ['paid_in', 'paid_out', 'drop'];
+
+export const CashDrawerModal: React.FC<CashDrawerModalProps> = ({ shift, transactions, currentUser, onSaveShift, onCloseShift, onShowReport, onClose }) => {
+  const [type, setType] = useState<CashEventType>('paid_out');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [counting, setCounting] = useState(false);
+  const [counted, setCounted] = useState('');
+
+  const shiftSales = transactions.filter(t => t.shiftId === shift.id).length;
+
+  const handleRecord = () => {
+    try {
+      onSaveShift(ShiftService.recordCashEvent(shift, type, parseFloat(amount), reason, currentUser));
+      setAmount('');
+      setReason('');
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleClose = () => {
+    if (counted.trim() === '') {
+      alert("Enter the cash counted in the drawer.");
+      return;
+    }
+    try {
+      const closed = ShiftService.close(shift, parseFloat(counted), currentUser, transactions);
+      if (!confirm(`Close shift #${shift.number} with $${closed.countedCash!.toFixed(2)} counted? This cannot be undone.`)) return;
+      onCloseShift(closed);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[520px] max-h-[90vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-blue-100 text-blue-600 rounded-full"><Wallet size={24} /></div>
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Cash Drawer · Shift #{shift.number}</h3>
+            <p className="text-slate-500 text-sm">
+              Opened {new Date(shift.openedAt).toLocaleString()} by {shift.openedBy} · ${shift.openingFloat.toFixed(2)} float · {shiftSales} transaction(s)
+            </p>
+          </div>
+        </div>
+
+        {counting ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Count every note and coin in the drawer and enter the total. The expected amount and any difference are shown on the Z report once the shift is closed.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Counted Cash ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                autoFocus
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-lg"
+                value={counted}
+                onChange={e => setCounted(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleClose()}
+              />
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                {EVENT_TYPES.map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setType(t)}
+                    className={`py-2 rounded-lg text-sm font-medium transition ${type === t ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}
+                  >
+                    {CASH_EVENT_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Amount"
+                  className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={amount}
+                  onChange={e => setAmount(e.target.value)}
+                />
+                <input
+                  type="text"
+                  placeholder={type === 'drop' ? 'e.g. Safe drop' : type === 'paid_in' ? 'e.g. Extra change' : 'e.g. Window cleaner'}
+                  className="col-span-2 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={reason}
+                  onChange={e => setReason(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleRecord()}
+                />
+              </div>
+              <button onClick={handleRecord} className="w-full py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition">
+                Record {CASH_EVENT_LABELS[type]}
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto mt-4 border border-slate-200 rounded-lg divide-y divide-slate-100 min-h-[80px]">
+              {shift.cashEvents.length === 0 && <div className="p-4 text-center text-sm text-slate-400">No cash moved in or out yet.</div>}
+              {[...shift.cashEvents].reverse().map(e => (
+                <div key={e.id} className="px-4 py-2 text-sm flex justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-slate-700">{CASH_EVENT_LABELS[e.type]} <span className="font-normal text-slate-500">· {e.reason}</span></div>
+                    <div className="text-xs text-slate-400">{new Date(e.timestamp).toLocaleTimeString()} · {e.user}</div>
+                  </div>
+                  <span className={`font-semibold ${e.type === 'paid_in' ? 'text-green-600' : 'text-slate-700'}`}>
+                    {e.type === 'paid_in' ? '+' : '-'}${e.amount.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-between gap-4 mt-6">
+          {counting ? (
+            <button onClick={() => setCounting(false)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Back</button>
+          ) : (
+            <button
+              onClick={() => onShowReport(ShiftService.report('X', shift, transactions))}
+              className="px-4 py-2 text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg transition flex items-center gap-2"
+            >
+              <FileText size={16} /> X Report
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Close</button>
+            {counting ? (
+              <button onClick={handleClose} className="px-6 py-2 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 transition flex items-center gap-2">
+                <Lock size={16} /> Close Shift
+              </button>
+            ) : (
+              <button onClick={() => setCounting(true)} className="px-6 py-2 bg-slate-800 text-white font-medium rounded-lg hover:bg-slate-900 transition flex items-center gap-2">
+                <Lock size={16} /> End Shift
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Product, TaxSettings } from '../types.ts';
+import { CsvService } from '../services/csvService.ts';
+import { CATALOG_COLUMNS, CatalogField, CatalogService, ColumnMapping, ImportAction, ImportPreviewRow } from '../services/catalogService.ts';
+import { FileUp, AlertCircle } from 'lucide-react';
+
+interface CatalogImportModalProps {
+  products: Product[];
+  taxSettings: TaxSettings;
+  onCommit: (rows: ImportPreviewRow[], fileName: string) => void;
+  onCancel: () => void;
+}
+
+// Long catalogs are summarised; the counts always cover every row
+const PREVIEW_LIMIT = 300;
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'text-green-700 bg-green-50' },
+  update: { label: 'Update', className: 'text-blue-700 bg-blue-50' },
+  unchanged: { label: 'Unchanged', className: 'text-slate-500 bg-slate-100' },
+  invalid: { label: 'Error', className: 'text-red-700 bg-red-50' },
+};
+
+export const CatalogImportModal: React.FC<CatalogImportModalProps> = ({ products, taxSettings, onCommit, onCancel }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [step, setStep] = useState<'file' | 'mapping' | 'preview'>('file');
+  const [filter, setFilter] = useState<ImportAction | 'all'>('all');
+
+  const headers = rows[0] || [];
+  const preview = useMemo(
+    () => step === 'preview' ? CatalogService.preview(rows, mapping, products, taxSettings) : [],
+    [step, rows, mapping, products, taxSettings]
+  );
+  const counts = preview.reduce((acc, r) => ({ ...acc, [r.action]: acc[r.action] + 1 }), { create: 0, update: 0, unchanged: 0, invalid: 0 } as Record<ImportAction, number>);
+  const visible = preview.filter(r => filter === 'all' || r.action === filter);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = CsvService.parse(await file.text());
+    if (parsed.length < 2) {
+      alert("The file needs a header row and at least one product.");
+      return;
+    }
+    setFileName(file.name);
+    setRows(parsed);
+    setMapping(CatalogService.autoMap(parsed[0]));
+    setStep('mapping');
+  };
+
+  const updateMapping = (field: CatalogField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleCommit = () => {
+    const skipped = counts.invalid > 0 ? ` ${counts.invalid} row(s) with errors will be skipped.` : '';
+    if (!confirm(`Import ${counts.create} new and ${counts.update} updated product(s)?${skipped}`)) return;
+    onCommit(preview, fileName);
+  };
+
+  const describeChange = (row: ImportPreviewRow, field: CatalogField) => {
+    const label = CATALOG_COLUMNS.find(c => c.field === field)!.label;
+    if (!row.previous) return `${label}: ${CatalogService.format(row.product!, field, taxSettings) || '-'}`;
+    return `${label}: ${CatalogService.format(row.previous, field, taxSettings) || '-'} → ${CatalogService.format(row.product!, field, taxSettings) || '-'}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[760px] max-h-[90vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-blue-100 text-blue-600 rounded-full"><FileUp size={24} /></div>
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Import Catalog</h3>
+            <p className="text-slate-500">
+              {step === 'file' ? 'Upload a CSV with one product per row.' : `${fileName} · ${rows.length - 1} row(s)`}
+            </p>
+          </div>
+        </div>
+
+        {step === 'file' && (
+          <label className="flex-1 flex flex-col items-center justify-center p-10 border-2 border-dashed border-slate-200 rounded-xl text-slate-500 hover:border-blue-400 hover:bg-blue-50/30 cursor-pointer transition">
+            <FileUp size={32} className="mb-2" />
+            <span className="font-medium">Choose a CSV file</span>
+            <span className="text-xs mt-1">Products are matched to the catalog by SKU.</span>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+          </label>
+        )}
+
+        {step === 'mapping' && (
+          <div className="flex-1 overflow-y-auto">
+            <p className="text-sm text-slate-500 mb-3">Match each field to a column in the file. Fields left unmapped keep their current values.</p>
+            <div className="space-y-2">
+              {CATALOG_COLUMNS.map(column => (
+                <div key={column.field} className="grid grid-cols-3 gap-3 items-center">
+                  <div className="text-sm font-medium text-slate-700">
+                    {column.label}{column.required && <span className="text-red-500"> *</span>}
+                  </div>
+                  <select
+                    className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm"
+                    value={mapping[column.field] ?? ''}
+                    onChange={e => updateMapping(column.field, e.target.value)}
+                  >
+                    <option value="">Not imported</option>
+                    {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                  </select>
+                  <div className="text-xs text-slate-400 truncate">
+                    {mapping[column.field] !== undefined ? `e.g. ${rows[1][mapping[column.field]!] || '(blank)'}` : ''}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-3">Opening stock only applies to new products. Change existing stock with Adjust Stock so the ledger stays complete.</p>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex gap-2 mb-3">
+              {(['all', 'create', 'update', 'unchanged', 'invalid'] as const).map(a => (
+                <button
+                  key={a}
+                  onClick={() => setFilter(a)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition ${filter === a ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {a === 'all' ? `All ${preview.length}` : `${ACTION_STYLES[a].label} ${counts[a]}`}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {visible.slice(0, PREVIEW_LIMIT).map(row => (
+                <div key={row.rowNumber} className="px-4 py-2 text-sm flex gap-3">
+                  <span className="text-xs text-slate-400 w-10 shrink-0 pt-0.5">#{row.rowNumber}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-bold h-fit shrink-0 ${ACTION_STYLES[row.action].className}`}>{ACTION_STYLES[row.action].label}</span>
+                  <div className="min-w-0">
+                    <div className="font-mono text-slate-700">{row.sku || '(no SKU)'} <span className="font-sans text-slate-500">{row.product?.name}</span></div>
+                    {row.errors.map((e, i) => (
+                      <div key={i} className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {e}</div>
+                    ))}
+                    {row.action === 'update' && row.changes.map(f => (
+                      <div key={f} className="text-xs text-slate-500 truncate">{describeChange(row, f)}</div>
+                    ))}
+                    {row.action === 'create' && (
+                      <div className="text-xs text-slate-500">
+                        ${row.product!.price.toFixed(2)} · {row.product!.category} · {row.product!.stock} opening stock
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {visible.length > PREVIEW_LIMIT && (
+                <div className="p-3 text-center text-xs text-slate-400">and {visible.length - PREVIEW_LIMIT} more</div>
+              )}
+              {visible.length === 0 && <div className="p-6 text-center text-slate-400">No rows.</div>}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-between gap-4 mt-6">
+          <div>
+            {step !== 'file' && (
+              <button
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'file')}
+                className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+              >
+                Back
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+            {step === 'mapping' && (
+              <button
+                onClick={() => { setFilter('all'); setStep('preview'); }}
+                disabled={mapping.sku === undefined}
+                className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition disabled:opacity-50"
+              >
+                Preview Changes
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={handleCommit}
+                disabled={counts.create + counts.update === 0}
+                className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition disabled:opacity-50"
+              >
+                Import {counts.create + counts.update} Product(s)
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Customer } from '../types.ts';
+import { CustomerDraft, CustomerService } from '../services/customerService.ts';
+import { Contact, Search, UserPlus } from 'lucide-react';
+
+interface CustomerLookupModalProps {
+  customers: Customer[];
+  onSelect: (customer: Customer) => void;
+  onCreate: (customer: Customer) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 8;
+
+export const CustomerLookupModal: React.FC<CustomerLookupModalProps> = ({ customers, onSelect, onCreate, onClose }) => {
+  const [term, setTerm] = useState('');
+  const [draft, setDraft] = useState<CustomerDraft | null>(null);
+  const results = term.trim() ? CustomerService.search(customers, term).slice(0, MAX_RESULTS) : [];
+
+  // Whatever was typed into the search seeds the new profile
+  const startCreate = () => {
+    const looksLikePhone = /^[\d\s()+-]+$/.test(term.trim());
+    setDraft({ name: looksLikePhone ? '' : term.trim(), phone: looksLikePhone ? term.trim() : '', email: '' });
+  };
+
+  const handleCreate = () => {
+    if (!draft) return;
+    try {
+      onCreate(CustomerService.save(draft, customers));
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[480px] max-h-[80vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-blue-100 text-blue-600 rounded-full mb-3"><Contact size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">{draft ? 'New Customer' : 'Attach Customer'}</h3>
+          <p className="text-slate-500">{draft ? 'Save a profile and attach it to this order.' : 'Find a customer by name, phone or email.'}</p>
+        </div>
+
+        {draft ? (
+          <div className="space-y-3">
+            <input
+              type="text"
+              placeholder="Name"
+              autoFocus
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+            />
+            <input
+              type="tel"
+              placeholder="Phone (optional)"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={draft.phone}
+              onChange={e => setDraft({ ...draft, phone: e.target.value })}
+            />
+            <input
+              type="email"
+              placeholder="Email (optional)"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={draft.email}
+              onChange={e => setDraft({ ...draft, email: e.target.value })}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            />
+            <div className="flex gap-3 pt-3">
+              <button onClick={() => setDraft(null)} className="flex-1 py-3 text-slate-600 hover:bg-slate-100 rounded-xl font-semibold transition">Back</button>
+              <button onClick={handleCreate} className="flex-1 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-all">Save &amp; Attach</button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="relative mb-3">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+              <input
+                type="text"
+                placeholder="Name, phone or email..."
+                autoFocus
+                className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={term}
+                onChange={e => setTerm(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && results.length === 1 && onSelect(results[0])}
+              />
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-2 min-h-[80px]">
+              {results.map(customer => (
+                <button
+                  key={customer.id}
+                  onClick={() => onSelect(customer)}
+                  className="w-full text-left p-3 bg-slate-50 hover:bg-blue-50 rounded-lg border border-slate-100 transition"
+                >
+                  <div className="font-medium text-slate-800">{customer.name}</div>
+                  <div className="text-xs text-slate-500">{[customer.phone, customer.email].filter(Boolean).join(' · ') || 'No contact details'}</div>
+                </button>
+              ))}
+              {term.trim() && results.length === 0 && <div className="p-4 text-center text-slate-400">No customers match "{term.trim()}".</div>}
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button onClick={onClose} className="flex-1 py-3 text-slate-600 hover:bg-slate-100 rounded-xl font-semibold transition">Cancel</button>
+              <button onClick={startCreate} className="flex-1 py-3 bg-slate-800 hover:bg-slate-900 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2">
+                <UserPlus size={18} /> New Customer
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
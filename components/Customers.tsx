@@ -0,0 +1,304 @@
+import React, { useMemo, useState } from 'react';
+import { Customer, LoyaltyEntry, LoyaltySettings, Transaction } from '../types.ts';
+import { CustomerDraft, CustomerService } from '../services/customerService.ts';
+import { LOYALTY_ENTRY_LABELS, LoyaltyService } from '../services/loyaltyService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { ArrowLeft, Contact, Mail, Pencil, Phone, Printer, Search, UserPlus } from 'lucide-react';
+
+interface CustomersProps {
+  customers: Customer[];
+  transactions: Transaction[];
+  loyaltySettings: LoyaltySettings;
+  loyaltyLedger: LoyaltyEntry[];
+  onSaveCustomer: (customer: Customer) => void;
+  onReprint: (transaction: Transaction) => void;
+}
+
+const EMPTY_DRAFT: CustomerDraft = { name: '', phone: '', email: '', notes: '' };
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const toDraft = (customer: Customer): CustomerDraft => ({
+  name: customer.name,
+  phone: customer.phone || '',
+  email: customer.email || '',
+  notes: customer.notes || '',
+});
+
+export const Customers: React.FC<CustomersProps> = ({ customers, transactions, loyaltySettings, loyaltyLedger, onSaveCustomer, onReprint }) => {
+  const [term, setTerm] = useState('');
+  const [draft, setDraft] = useState<CustomerDraft>(EMPTY_DRAFT);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CustomerDraft | null>(null);
+
+  const selected = customers.find(c => c.id === selectedId);
+  const results = CustomerService.search(customers, term);
+  // One pass over the transactions rather than one per customer
+  const summaries = useMemo(() => {
+    const byCustomer = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+      if (t.customerId) byCustomer.set(t.customerId, [...(byCustomer.get(t.customerId) || []), t]);
+    });
+    return new Map(customers.map(c => [c.id, CustomerService.summarize(c.id, byCustomer.get(c.id) || [])]));
+  }, [customers, transactions]);
+  const balances = useMemo(() => {
+    const totals = new Map<string, number>();
+    loyaltyLedger.forEach(e => totals.set(e.customerId, (totals.get(e.customerId) || 0) + e.points));
+    return totals;
+  }, [loyaltyLedger]);
+
+  const handleAdd = () => {
+    try {
+      onSaveCustomer(CustomerService.save(draft, customers));
+      setDraft(EMPTY_DRAFT);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleUpdate = () => {
+    if (!selected || !editing) return;
+    try {
+      onSaveCustomer(CustomerService.save(editing, customers, selected));
+      setEditing(null);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  if (selected) {
+    const summary = summaries.get(selected.id)!;
+    const pointsHistory = loyaltyLedger.filter(e => e.customerId === selected.id).reverse(); // Newest first
+    const showPoints = loyaltySettings.enabled || pointsHistory.length > 0;
+    return (
+      <div className="space-y-6">
+        <button onClick={() => { setSelectedId(null); setEditing(null); }} className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-800">
+          <ArrowLeft size={16} /> All customers
+        </button>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          {editing ? (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input type="text" className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Phone</label>
+                <input type="tel" className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={editing.phone} onChange={e => setEditing({ ...editing, phone: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+                <input type="email" className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={editing.email} onChange={e => setEditing({ ...editing, email: e.target.value })} />
+              </div>
+              <div className="col-span-3">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+                <textarea rows={3} className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={editing.notes} onChange={e => setEditing({ ...editing, notes: e.target.value })} />
+              </div>
+              <div className="col-span-3 flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                <button onClick={handleUpdate} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg shadow-lg shadow-blue-200 transition">Save Changes</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-800">{selected.name}</h2>
+                <div className="flex gap-4 mt-1 text-sm text-slate-500">
+                  {selected.phone && <span className="flex items-center gap-1"><Phone size={14} /> {selected.phone}</span>}
+                  {selected.email && <span className="flex items-center gap-1"><Mail size={14} /> {selected.email}</span>}
+                  <span>Customer since {new Date(selected.createdAt).toLocaleDateString()}</span>
+                </div>
+                {selected.notes && <p className="mt-3 text-sm text-slate-600 whitespace-pre-line">{selected.notes}</p>}
+              </div>
+              <button onClick={() => setEditing(toDraft(selected))} className="p-2 text-slate-400 hover:text-blue-600 transition" title="Edit"><Pencil size={18} /></button>
+            </div>
+          )}
+        </div>
+
+        <div className={`grid ${showPoints ? 'grid-cols-5' : 'grid-cols-4'} gap-4`}>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+            <div className="text-xs uppercase font-semibold text-slate-400">Lifetime Spend</div>
+            <div className="text-2xl font-bold text-slate-800">{formatMoney(summary.lifetimeSpend)}</div>
+            {summary.refunded > 0 && <div className="text-xs text-red-500">after {formatMoney(summary.refunded)} refunded</div>}
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+            <div className="text-xs uppercase font-semibold text-slate-400">Visits</div>
+            <div className="text-2xl font-bold text-slate-800">{summary.visits}</div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+            <div className="text-xs uppercase font-semibold text-slate-400">Average Sale</div>
+            <div className="text-2xl font-bold text-slate-800">{formatMoney(summary.averageSale)}</div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+            <div className="text-xs uppercase font-semibold text-slate-400">Last Visit</div>
+            <div className="text-2xl font-bold text-slate-800">{summary.lastVisit ? new Date(summary.lastVisit).toLocaleDateString() : '-'}</div>
+          </div>
+          {showPoints && (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+              <div className="text-xs uppercase font-semibold text-slate-400">Points</div>
+              <div className="text-2xl font-bold text-amber-600">{balances.get(selected.id) || 0}</div>
+              <div className="text-xs text-slate-500">worth {formatMoney(LoyaltyService.valueOf(balances.get(selected.id) || 0, loyaltySettings))}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+            <h3 className="font-semibold text-slate-700">Purchase History</h3>
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="text-slate-500 text-xs uppercase font-semibold">
+              <tr>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Order</th>
+                <th className="px-6 py-3">Items</th>
+                <th className="px-6 py-3 text-right">Total</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {summary.transactions.map(t => {
+                const isRefund = t.type === 'refund';
+                return (
+                  <tr key={t.id} className={`align-top ${isRefund ? 'bg-red-50/30' : 'hover:bg-slate-50'}`}>
+                    <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(t.date).toLocaleString()}</td>
+                    <td className="px-6 py-3 font-medium text-slate-700">{isRefund ? `Refund #${t.id.slice(0, 8)}` : `Order #${t.id.slice(0, 8)}`}</td>
+                    <td className="px-6 py-3 text-slate-600">{t.items.map(i => `${MeasureService.format(i.quantity, i.unit)} x ${i.name}`).join(', ')}</td>
+                    <td className={`px-6 py-3 text-right font-semibold ${isRefund ? 'text-red-600' : 'text-slate-800'}`}>{formatMoney(t.total)}</td>
+                    <td className="px-6 py-3 text-right">
+                      <button onClick={() => onReprint(t)} className="p-1 text-slate-400 hover:text-slate-700" title="Receipt"><Printer size={16} /></button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {summary.transactions.length === 0 && <div className="p-12 text-center text-slate-400">No purchases recorded for this customer yet.</div>}
+        </div>
+
+        {pointsHistory.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+              <h3 className="font-semibold text-slate-700">Points History</h3>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="text-slate-500 text-xs uppercase font-semibold">
+                <tr>
+                  <th className="px-6 py-3">Date</th>
+                  <th className="px-6 py-3">Movement</th>
+                  <th className="px-6 py-3">Transaction</th>
+                  <th className="px-6 py-3 text-right">Points</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {pointsHistory.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="px-6 py-3 text-slate-700">{LOYALTY_ENTRY_LABELS[entry.type]}</td>
+                    <td className="px-6 py-3 text-slate-500 font-mono text-xs">#{entry.transactionId.slice(0, 8)}</td>
+                    <td className={`px-6 py-3 text-right font-semibold ${entry.points < 0 ? 'text-red-600' : 'text-green-600'}`}>{entry.points > 0 ? '+' : ''}{entry.points}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Customers</h2>
+        <p className="text-slate-500">Regulars and their purchase history.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><UserPlus size={18} /> Add Customer</h3>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+            <input type="text" className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Phone</label>
+            <input type="tel" className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={draft.phone} onChange={e => setDraft({ ...draft, phone: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+            <input type="email" className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={draft.email} onChange={e => setDraft({ ...draft, email: e.target.value })} />
+          </div>
+          <div className="col-span-3">
+            <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+            <input
+              type="text"
+              placeholder="Preferences, warranty details..."
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={draft.notes}
+              onChange={e => setDraft({ ...draft, notes: e.target.value })}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={handleAdd}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+          >
+            <UserPlus size={18} /> Add Customer
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input
+              type="text"
+              placeholder="Search by name, phone or email..."
+              className="w-full pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={term}
+              onChange={e => setTerm(e.target.value)}
+            />
+          </div>
+        </div>
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-4">Name</th>
+              <th className="px-6 py-4">Contact</th>
+              <th className="px-6 py-4 text-center">Visits</th>
+              <th className="px-6 py-4 text-right">Lifetime Spend</th>
+              {loyaltySettings.enabled && <th className="px-6 py-4 text-right">Points</th>}
+              <th className="px-6 py-4">Last Visit</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.map(customer => {
+              const summary = summaries.get(customer.id);
+              return (
+                <tr key={customer.id} onClick={() => setSelectedId(customer.id)} className="hover:bg-slate-50 transition cursor-pointer">
+                  <td className="px-6 py-4 font-medium text-slate-800">{customer.name}</td>
+                  <td className="px-6 py-4 text-sm text-slate-500">{[customer.phone, customer.email].filter(Boolean).join(' · ') || '-'}</td>
+                  <td className="px-6 py-4 text-center text-slate-600">{summary?.visits || 0}</td>
+                  <td className="px-6 py-4 text-right font-semibold text-slate-800">{formatMoney(summary?.lifetimeSpend || 0)}</td>
+                  {loyaltySettings.enabled && <td className="px-6 py-4 text-right text-amber-600">{balances.get(customer.id) || 0}</td>}
+                  <td className="px-6 py-4 text-sm text-slate-500">{summary?.lastVisit ? new Date(summary.lastVisit).toLocaleDateString() : '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {results.length === 0 && (
+          <div className="p-12 text-center text-slate-400 flex flex-col items-center gap-2">
+            <Contact size={24} className="opacity-50" />
+            {customers.length === 0 ? 'No customers yet. Add one here or from the register.' : 'No customers match this search.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -1,27 +1,42 @@
 import React, { useState } from 'react';
-import { Product, Transaction } from '../types.ts';
+import { LotStock, Product, Transaction } from '../types.ts';
 import { GeminiService } from '../services/geminiService.ts';
+import { TenderService, PAYMENT_METHOD_LABELS } from '../services/tenderService.ts';
+import { ReturnService } from '../services/returnService.ts';
+import { InventoryService } from '../services/inventoryService.ts';
+import { ReorderService } from '../services/reorderService.ts';
+import { VariantService } from '../services/variantService.ts';
+import { GiftCardService } from '../services/giftCardService.ts';
+import { MeasureService } from '../services/measureService.ts';
 import { DollarSign, ShoppingBag, AlertTriangle, Activity, Sparkles, RefreshCcw } from 'lucide-react';
 
 interface DashboardProps {
   products: Product[];
   transactions: Transaction[];
+  lotStock: LotStock[];
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ products, transactions }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ products, transactions, lotStock }) => {
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
 
-  // Calcs
-  const totalRevenue = transactions.reduce((acc, t) => acc + t.total, 0);
-  const totalOrders = transactions.length;
-  const lowStockItems = products.filter(p => p.stock < 10);
-  const expiredItems = products.filter(p => p.expiryDate && new Date(p.expiryDate) < new Date());
+  // Calcs (refunds carry negative totals, so revenue is already net of returns)
+  // Gift cards count as revenue when they are spent, not when they are sold
+  const totalRevenue = transactions.reduce((acc, t) => acc + t.total - GiftCardService.cardsSold(t), 0);
+  const totalOrders = transactions.filter(t => !ReturnService.isRefund(t)).length;
+  const lowStockItems = VariantService.sellable(products).filter(ReorderService.isLowStock);
+  const expiredUnits = (p: Product) => InventoryService.expiredUnits(p.id, lotStock);
+  const expiredItems = products.filter(p => expiredUnits(p) > 0);
+  const totalExpiredUnits = expiredItems.reduce((sum, p) => sum + expiredUnits(p), 0);
+  // Cards are always sold on an order of their own, so leaving those orders out leaves only tenders for sales
+  const tenderTotals = TenderService.summarizeByMethod(transactions.filter(t => GiftCardService.cardsSold(t) === 0));
+  // Variants count toward their parent so a product isn't split across its sizes and flavors
+  const topProducts = VariantService.salesByProduct(transactions, products).slice(0, 5);
 
   const handleGenerateInsights = async () => {
     setLoadingAi(true);
     try {
-      const insight = await GeminiService.analyzeBusiness(products, transactions);
+      const insight = await GeminiService.analyzeBusiness(products, transactions, lotStock);
       setAiInsight(insight);
     } catch (e) {
       setAiInsight("Unable to generate insights at this time. Please check your API key.");
@@ -75,11 +90,46 @@ export const Dashboard: React.FC<DashboardProps> = ({ products, transactions })
           </div>
           <div>
             <p className="text-sm text-slate-500 font-medium">Expired Items</p>
-            <h3 className="text-2xl font-bold text-slate-800">{expiredItems.length}</h3>
+            <h3 className="text-2xl font-bold text-slate-800">{totalExpiredUnits}</h3>
+            {expiredItems.length > 0 && <p className="text-xs text-slate-400">across {expiredItems.length} product{expiredItems.length === 1 ? '' : 's'}</p>}
           </div>
         </div>
       </div>
 
+      {/* Tender Breakdown */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4">Sales by Tender</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(Object.keys(tenderTotals) as (keyof typeof tenderTotals)[]).map(method => (
+            <div key={method} className="flex justify-between items-center px-4 py-3 bg-slate-50 rounded-lg">
+              <span className="text-sm text-slate-500 font-medium">{PAYMENT_METHOD_LABELS[method]}</span>
+              <span className="font-bold text-slate-800">${tenderTotals[method].toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Top Products */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-700">Top Products</h3>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {topProducts.length === 0 && (
+            <div className="p-6 text-center text-slate-400">No sales yet.</div>
+          )}
+          {topProducts.map(p => (
+            <div key={p.productId} className="px-6 py-3 flex justify-between items-center">
+              <div>
+                <div className="font-medium text-slate-800">{p.name}</div>
+                <div className="text-xs text-slate-500">{MeasureService.format(p.quantity, products.find(x => x.id === p.productId)?.unit)} sold</div>
+              </div>
+              <div className="font-bold text-slate-700">${p.revenue.toFixed(2)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* AI Section */}
       <div className="bg-gradient-to-r from-purple-50 to-indigo-50 rounded-2xl p-6 border border-purple-100">
         <div className="flex justify-between items-start mb-4">
@@ -122,8 +172,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ products, transactions })
                   <div className="font-medium text-slate-800">{item.name}</div>
                   <div className="text-xs text-slate-500">SKU: {item.sku}</div>
                 </div>
-                <div className={`text-xs px-2 py-1 rounded font-medium ${item.stock < 10 && item.stock > 0 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'}`}>
-                  {item.stock === 0 ? 'Out of Stock' : (new Date(item.expiryDate || '') < new Date() ? 'Expired' : `Low: ${item.stock}`)}
+                <div className={`text-xs px-2 py-1 rounded font-medium ${item.stock > 0 && expiredUnits(item) === 0 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'}`}>
+                  {item.stock <= 0 ? 'Out of Stock' : (expiredUnits(item) > 0 ? `Expired: ${expiredUnits(item)}` : `Low: ${item.stock}`)}
                 </div>
               </div>
             ))}
@@ -141,11 +191,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ products, transactions })
             {transactions.slice(0, 5).map(t => (
               <div key={t.id} className="px-6 py-3 flex justify-between items-center">
                 <div>
-                  <div className="font-medium text-slate-800">Order #{t.id.slice(-6)}</div>
+                  <div className="font-medium text-slate-800">{ReturnService.isRefund(t) ? 'Refund' : 'Order'} #{t.id.slice(-6)}</div>
                   <div className="text-xs text-slate-500">{new Date(t.date).toLocaleTimeString()}</div>
                 </div>
-                <div className="font-bold text-slate-700">
-                  ${t.total.toFixed(2)}
+                <div className="text-right">
+                  <div className={`font-bold ${t.total < 0 ? 'text-red-600' : 'text-slate-700'}`}>{t.total < 0 ? '-' : ''}${Math.abs(t.total).toFixed(2)}</div>
+                  <div className="text-[10px] text-slate-400 uppercase font-semibold">
+                    {t.payments.map(p => PAYMENT_METHOD_LABELS[p.method]).join(' + ')}
+                  </div>
                 </div>
               </div>
             ))}
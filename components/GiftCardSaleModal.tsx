@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { GiftCard } from '../types.ts';
+import { GIFT_CARD_KIND_LABELS, GiftCardService } from '../services/giftCardService.ts';
+import { Gift } from 'lucide-react';
+
+interface GiftCardSaleModalProps {
+  giftCards: GiftCard[];
+  onConfirm: (sale: { code: string; amount: number; isTopUp: boolean }) => void;
+  onCancel: () => void;
+}
+
+const PRESET_AMOUNTS = [10, 25, 50, 100];
+
+export const GiftCardSaleModal: React.FC<GiftCardSaleModalProps> = ({ giftCards, onConfirm, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [amount, setAmount] = useState('');
+  const existing = GiftCardService.find(code, giftCards);
+
+  const handleConfirm = (value = parseFloat(amount)) => {
+    if (isNaN(value) || value <= 0) {
+      alert("Enter the amount to load onto the card.");
+      return;
+    }
+    // Pre-printed cards keep their own code; otherwise one is generated
+    const cardCode = existing ? existing.code : code.trim().toUpperCase() || GiftCardService.generateCode(giftCards);
+    onConfirm({ code: cardCode, amount: Math.round(value * 100) / 100, isTopUp: !!existing });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[420px] shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-pink-100 text-pink-600 rounded-full mb-3"><Gift size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Sell Gift Card</h3>
+          <p className="text-slate-500">Issue a new card or top up an existing one.</p>
+        </div>
+
+        <label className="block text-sm font-medium text-slate-700 mb-1">Card Code</label>
+        <input
+          type="text"
+          autoFocus
+          placeholder="Leave blank to generate one"
+          className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono uppercase"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+        />
+        <p className="text-xs text-slate-500 mt-1 h-4">
+          {existing && `Top up ${GIFT_CARD_KIND_LABELS[existing.kind].toLowerCase()} with a balance of $${existing.balance.toFixed(2)}.`}
+        </p>
+
+        <label className="block text-sm font-medium text-slate-700 mb-1 mt-3">Amount ($)</label>
+        <div className="grid grid-cols-4 gap-2 mb-2">
+          {PRESET_AMOUNTS.map(preset => (
+            <button
+              key={preset}
+              onClick={() => handleConfirm(preset)}
+              className="py-2 rounded-lg border border-slate-200 bg-slate-50 hover:bg-pink-50 hover:border-pink-200 font-semibold text-slate-700 transition-colors"
+            >
+              ${preset}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Other amount"
+          className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-right"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleConfirm()}
+        />
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onCancel} className="flex-1 py-3 text-slate-600 hover:bg-slate-100 rounded-xl font-semibold transition">Cancel</button>
+          <button onClick={() => handleConfirm()} className="flex-1 py-3 bg-pink-600 hover:bg-pink-700 text-white font-bold rounded-xl transition-all">Continue to Payment</button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Customer, GiftCard, Transaction } from '../types.ts';
+import { GIFT_CARD_EVENT_LABELS, GIFT_CARD_KIND_LABELS, GiftCardService } from '../services/giftCardService.ts';
+import { ArrowLeft, Gift, Printer, Search } from 'lucide-react';
+
+interface GiftCardsProps {
+  giftCards: GiftCard[];
+  customers: Customer[];
+  transactions: Transaction[];
+  onReprint: (transaction: Transaction) => void;
+}
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+export const GiftCards: React.FC<GiftCardsProps> = ({ giftCards, customers, transactions, onReprint }) => {
+  const [term, setTerm] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = giftCards.find(c => c.id === selectedId);
+  const customerName = (id?: string) => customers.find(c => c.id === id)?.name;
+  const wanted = GiftCardService.normalizeCode(term);
+  const results = giftCards.filter(card =>
+    !term.trim()
+    || (wanted && GiftCardService.normalizeCode(card.code).includes(wanted))
+    || customerName(card.customerId)?.toLowerCase().includes(term.trim().toLowerCase())
+  );
+  const outstanding = giftCards.reduce((sum, c) => sum + c.balance, 0);
+
+  if (selected) {
+    const history = [...selected.history].reverse(); // Newest first
+    return (
+      <div className="space-y-6">
+        <button onClick={() => setSelectedId(null)} className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-800">
+          <ArrowLeft size={16} /> All cards
+        </button>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800 font-mono">{selected.code}</h2>
+            <div className="flex gap-4 mt-1 text-sm text-slate-500">
+              <span>{GIFT_CARD_KIND_LABELS[selected.kind]}</span>
+              {customerName(selected.customerId) && <span>Issued to {customerName(selected.customerId)}</span>}
+              <span>Issued {new Date(selected.createdAt).toLocaleDateString()}</span>
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs uppercase font-semibold text-slate-400">Balance</div>
+            <div className="text-3xl font-bold text-pink-600">{formatMoney(selected.balance)}</div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+            <h3 className="font-semibold text-slate-700">Card History</h3>
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="text-slate-500 text-xs uppercase font-semibold">
+              <tr>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Movement</th>
+                <th className="px-6 py-3">By</th>
+                <th className="px-6 py-3">Transaction</th>
+                <th className="px-6 py-3 text-right">Amount</th>
+                <th className="px-6 py-3 text-right">Balance</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {history.map(event => {
+                const transaction = transactions.find(t => t.id === event.transactionId);
+                return (
+                  <tr key={event.id}>
+                    <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</td>
+                    <td className="px-6 py-3 text-slate-700">{GIFT_CARD_EVENT_LABELS[event.type]}</td>
+                    <td className="px-6 py-3 text-slate-500">{event.user}</td>
+                    <td className="px-6 py-3 text-slate-500 font-mono text-xs">{event.transactionId ? `#${event.transactionId.slice(0, 8)}` : '-'}</td>
+                    <td className={`px-6 py-3 text-right font-semibold ${event.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{event.amount > 0 ? '+' : ''}{formatMoney(event.amount)}</td>
+                    <td className="px-6 py-3 text-right text-slate-800">{formatMoney(event.balanceAfter)}</td>
+                    <td className="px-6 py-3 text-right">
+                      {transaction && <button onClick={() => onReprint(transaction)} className="p-1 text-slate-400 hover:text-slate-700" title="Receipt"><Printer size={16} /></button>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Gift Cards</h2>
+          <p className="text-slate-500">Gift cards and store credit issued from the register.</p>
+        </div>
+        <div className="text-right">
+          <div className="text-xs uppercase font-semibold text-slate-400">Outstanding</div>
+          <div className="text-2xl font-bold text-slate-800">{formatMoney(outstanding)}</div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input
+              type="text"
+              placeholder="Search by code or customer..."
+              className="w-full pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={term}
+              onChange={e => setTerm(e.target.value)}
+            />
+          </div>
+        </div>
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-4">Code</th>
+              <th className="px-6 py-4">Type</th>
+              <th className="px-6 py-4">Customer</th>
+              <th className="px-6 py-4">Issued</th>
+              <th className="px-6 py-4">Last Used</th>
+              <th className="px-6 py-4 text-right">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.map(card => (
+              <tr key={card.id} onClick={() => setSelectedId(card.id)} className="hover:bg-slate-50 transition cursor-pointer">
+                <td className="px-6 py-4 font-mono font-medium text-slate-800">{card.code}</td>
+                <td className="px-6 py-4 text-sm text-slate-600">{GIFT_CARD_KIND_LABELS[card.kind]}</td>
+                <td className="px-6 py-4 text-sm text-slate-500">{customerName(card.customerId) || '-'}</td>
+                <td className="px-6 py-4 text-sm text-slate-500">{new Date(card.createdAt).toLocaleDateString()}</td>
+                <td className="px-6 py-4 text-sm text-slate-500">{new Date(card.history[card.history.length - 1].timestamp).toLocaleDateString()}</td>
+                <td className={`px-6 py-4 text-right font-semibold ${card.balance > 0 ? 'text-slate-800' : 'text-slate-400'}`}>{formatMoney(card.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {results.length === 0 && (
+          <div className="p-12 text-center text-slate-400 flex flex-col items-center gap-2">
+            <Gift size={24} className="opacity-50" />
+            {giftCards.length === 0 ? 'No gift cards yet. Sell one from the register or refund to store credit.' : 'No cards match this search.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,59 @@
+import React from 'react';
+import { HeldCart } from '../types.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { PauseCircle, PlayCircle, Trash2 } from 'lucide-react';
+
+interface HeldCartsModalProps {
+  heldCarts: HeldCart[];
+  onRecall: (cart: HeldCart) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const HeldCartsModal: React.FC<HeldCartsModalProps> = ({ heldCarts, onRecall, onDelete, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[480px] max-h-[80vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-amber-100 text-amber-600 rounded-full mb-3"><PauseCircle size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Held Carts</h3>
+          <p className="text-slate-500">Recall a parked order to continue checking out.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {heldCarts.map(cart => {
+            const itemCount = MeasureService.itemCount(cart.items);
+            const gross = cart.items.reduce((sum, item) => sum + MeasureService.lineAmount(item), 0);
+            return (
+              <div key={cart.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100">
+                <div className="min-w-0 pr-2">
+                  <div className="font-medium text-slate-800 truncate">{cart.label}</div>
+                  <div className="text-xs text-slate-500">
+                    {new Date(cart.heldAt).toLocaleString()} &middot; {itemCount} items &middot; ${gross.toFixed(2)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onRecall(cart)}
+                    className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-700 flex items-center gap-1"
+                  >
+                    <PlayCircle size={14} /> Recall
+                  </button>
+                  <button
+                    onClick={() => { if (confirm(`Discard held cart "${cart.label}"?`)) onDelete(cart.id); }}
+                    className="text-red-400 hover:text-red-600 p-1"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          {heldCarts.length === 0 && <div className="p-6 text-center text-slate-400">No carts on hold.</div>}
+        </div>
+
+        <button onClick={onClose} className="mt-6 w-full py-3 text-slate-600 hover:bg-slate-100 rounded-xl font-semibold transition">Close</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
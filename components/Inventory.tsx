@@ -1,19 +1,47 @@
 import React, { useState } from 'react';
-import { Product } from '../types.ts';
+import { CatalogImportBatch, LotStock, Product, TaxSettings, UnitOfMeasure } from '../types.ts';
 import { GeminiService } from '../services/geminiService.ts';
-import { Plus, Edit, Trash, Save, X, Sparkles, AlertCircle } from 'lucide-react';
+import { BarcodeService } from '../services/barcodeService.ts';
+import { InventoryService, StockPosting } from '../services/inventoryService.ts';
+import { ReorderService, DEFAULT_REORDER_POINT, DEFAULT_LEAD_TIME_DAYS } from '../services/reorderService.ts';
+import { CatalogService, ImportPreviewRow } from '../services/catalogService.ts';
+import { VariantService } from '../services/variantService.ts';
+import { MeasureService, UNIT_LABELS } from '../services/measureService.ts';
+import { FileService } from '../services/fileService.ts';
+import { AdjustStockModal } from './AdjustStockModal.tsx';
+import { StockHistoryModal } from './StockHistoryModal.tsx';
+import { CatalogImportModal } from './CatalogImportModal.tsx';
+import { Plus, Edit, Trash, Save, X, Sparkles, AlertCircle, SlidersHorizontal, History, FileUp, FileDown, Undo2, Layers } from 'lucide-react';
 
 interface InventoryProps {
   products: Product[];
+  taxSettings: TaxSettings;
   onAddProduct: (product: Product) => void;
   onUpdateProduct: (product: Product) => void;
+  onSaveVariants: (parent: Product, variants: Product[], removed: Product[]) => void;
   onDeleteProduct: (id: string) => void;
+  lotStock: LotStock[];
+  onStockAdjustment: (posting: StockPosting) => void;
+  lastImport: CatalogImportBatch | null;
+  onImportCatalog: (rows: ImportPreviewRow[], fileName: string) => void;
+  onUndoImport: (batch: CatalogImportBatch) => void;
+  currentUser: string;
 }
 
-export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateProduct, onDeleteProduct }) => {
+export const Inventory: React.FC<InventoryProps> = ({ products, taxSettings, onAddProduct, onUpdateProduct, onSaveVariants, onDeleteProduct, lotStock, onStockAdjustment, lastImport, onImportCatalog, onUndoImport, currentUser }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Partial<Product>>({});
   const [aiLoading, setAiLoading] = useState(false);
+  const [adjusting, setAdjusting] = useState<Product | null>(null);
+  const [historyFor, setHistoryFor] = useState<Product | null>(null);
+  const [importing, setImporting] = useState(false);
+  // Options are edited as comma-separated text; variants hold per-variant edits until saved
+  const [optionDrafts, setOptionDrafts] = useState<{ name: string; values: string }[]>([]);
+  const [variants, setVariants] = useState<Product[]>([]);
+  const isNew = !products.find(p => p.id === currentProduct.id);
+  const options = optionDrafts.map(o => ({ name: o.name.trim(), values: o.values.split(',').map(v => v.trim()).filter(Boolean) }));
+  const hasVariants = options.length > 0;
+  const variantRows = hasVariants ? VariantService.generate({ ...currentProduct, options } as Product, variants) : [];
 
   const startAdd = () => {
     setCurrentProduct({
@@ -25,28 +53,112 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
       category: 'General',
       expiryDate: ''
     });
+    setOptionDrafts([]);
+    setVariants([]);
     setIsEditing(true);
   };
 
+  // Variants are edited through their parent
   const startEdit = (product: Product) => {
-    setCurrentProduct({ ...product });
+    const parent = products.find(p => p.id === product.parentId) || product;
+    setCurrentProduct({ ...parent });
+    setOptionDrafts((parent.options || []).map(o => ({ name: o.name, values: o.values.join(', ') })));
+    setVariants(VariantService.variantsOf(parent.id, products));
     setIsEditing(true);
   };
 
+  const updateVariant = (row: Product, changes: Partial<Product>) => {
+    setVariants(prev => [...prev.filter(v => v.id !== row.id), { ...row, ...changes }]);
+  };
+
+  const handleSaveVariants = () => {
+    const saved = isNew ? [] : VariantService.variantsOf(currentProduct.id!, products);
+    if (saved.length === 0 && !isNew && currentProduct.stock) {
+      alert("Adjust this product's stock to zero before adding variants. Stock is held by each variant.");
+      return;
+    }
+    const unitChanged = (products.find(p => p.id === currentProduct.id)?.unit || 'each') !== (currentProduct.unit || 'each');
+    if (unitChanged && saved.some(v => v.stock !== 0)) {
+      alert("Adjust every variant's stock to zero before changing the unit. Stock is counted in that unit.");
+      return;
+    }
+    const parent = { ...currentProduct, options: hasVariants ? options : undefined, stock: 0, barcode: undefined, plu: undefined, expiryDate: undefined } as Product;
+    const rows = VariantService.generate(parent, variants);
+    const removed = saved.filter(v => !rows.some(r => r.id === v.id));
+    const error = VariantService.validate(parent, rows, removed, products);
+    if (error) {
+      alert(error);
+      return;
+    }
+    onSaveVariants(parent, rows, removed);
+    setIsEditing(false);
+  };
+
   const handleSave = () => {
     if (!currentProduct.name || !currentProduct.sku || currentProduct.price === undefined) {
       alert("Please fill in required fields");
       return;
     }
 
-    if (products.find(p => p.id === currentProduct.id)) {
-      onUpdateProduct(currentProduct as Product);
+    if (hasVariants || VariantService.isParent(currentProduct as Product)) {
+      handleSaveVariants();
+      return;
+    }
+
+    const saved = products.find(p => p.id === currentProduct.id);
+    if (saved && (saved.unit || 'each') !== (currentProduct.unit || 'each') && saved.stock !== 0) {
+      alert("Adjust this product's stock to zero before changing its unit. Stock is counted in that unit.");
+      return;
+    }
+    if (!MeasureService.fitsUnit(currentProduct.stock || 0, currentProduct.unit)) {
+      alert("Stock of a product sold by the unit must be a whole number.");
+      return;
+    }
+    if (currentProduct.plu) {
+      if (!/^\d+$/.test(currentProduct.plu)) {
+        alert("A scale PLU is digits only.");
+        return;
+      }
+      const duplicate = MeasureService.findByPlu(currentProduct.plu, products.filter(p => p.id !== currentProduct.id));
+      if (duplicate) {
+        alert(`PLU ${currentProduct.plu} is already assigned to ${duplicate.name}.`);
+        return;
+      }
+    }
+
+    if (currentProduct.barcode) {
+      const check = BarcodeService.validate(currentProduct.barcode);
+      if (!check.valid) {
+        alert(check.error);
+        return;
+      }
+      const duplicate = BarcodeService.findProduct(currentProduct.barcode, products.filter(p => p.id !== currentProduct.id));
+      if (duplicate) {
+        alert(`Barcode is already assigned to ${duplicate.name}.`);
+        return;
+      }
+    }
+
+    if (isNew) {
+      onAddProduct({ ...currentProduct, stock: currentProduct.stock || 0 } as Product);
     } else {
-      onAddProduct(currentProduct as Product);
+      onUpdateProduct(currentProduct as Product);
     }
     setIsEditing(false);
   };
 
+  const handleExport = () => {
+    FileService.download(`catalog-${new Date().toISOString().slice(0, 10)}.csv`, CatalogService.exportCsv(products, taxSettings), 'text/csv');
+  };
+
+  const handleUndoImport = () => {
+    if (!lastImport) return;
+    const summary = `${lastImport.createdProductIds.length} new and ${lastImport.previousProducts.length} updated product(s)`;
+    if (confirm(`Undo the import of ${lastImport.fileName} (${summary})? Edits made to those products since the import are reverted too.`)) {
+      onUndoImport(lastImport);
+    }
+  };
+
   const handleAiDescription = async () => {
     if (!currentProduct.name || !currentProduct.category) {
       alert("Enter a name and category first.");
@@ -64,7 +176,7 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
   if (isEditing) {
     return (
       <div className="max-w-2xl mx-auto bg-white p-8 rounded-2xl shadow-lg border border-slate-200 animate-fade-in">
-        <h2 className="text-2xl font-bold mb-6 text-slate-800">{currentProduct.id && products.find(p => p.id === currentProduct.id) ? 'Edit Product' : 'Add New Product'}</h2>
+        <h2 className="text-2xl font-bold mb-6 text-slate-800">{isNew ? 'Add New Product' : 'Edit Product'}</h2>
         
         <div className="grid grid-cols-2 gap-6">
           <div className="col-span-2">
@@ -99,6 +211,19 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
               />
           </div>
 
+          {!hasVariants && (
+          <div>
+             <label className="block text-sm font-medium text-slate-700 mb-1">Barcode</label>
+             <input 
+                type="text" 
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+                value={currentProduct.barcode || ''}
+                onChange={e => setCurrentProduct({...currentProduct, barcode: e.target.value.trim() || undefined})}
+                placeholder="UPC / EAN"
+              />
+          </div>
+          )}
+
           <div>
              <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
              <input 
@@ -111,7 +236,7 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
           </div>
 
           <div>
-             <label className="block text-sm font-medium text-slate-700 mb-1">Price ($)</label>
+             <label className="block text-sm font-medium text-slate-700 mb-1">{hasVariants ? 'Base Price ($)' : 'Price ($)'}</label>
              <input 
                 type="number" 
                 step="0.01"
@@ -121,26 +246,184 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
               />
           </div>
 
+          <div>
+             <label className="block text-sm font-medium text-slate-700 mb-1">Sold By</label>
+             <select
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                value={currentProduct.unit || 'each'}
+                onChange={e => setCurrentProduct({...currentProduct, unit: e.target.value === 'each' ? undefined : e.target.value as UnitOfMeasure})}
+              >
+                {Object.entries(UNIT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+          </div>
+
+          {!hasVariants && (
+          <div>
+             <label className="block text-sm font-medium text-slate-700 mb-1">Scale PLU</label>
+             <input
+                type="text"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+                value={currentProduct.plu || ''}
+                onChange={e => setCurrentProduct({...currentProduct, plu: e.target.value.trim() || undefined})}
+                placeholder="Item number on deli scale labels"
+              />
+          </div>
+          )}
+
+           {!hasVariants && (
            <div>
-             <label className="block text-sm font-medium text-slate-700 mb-1">Stock Quantity</label>
+             <label className="block text-sm font-medium text-slate-700 mb-1">{isNew ? 'Opening Stock' : 'Stock on Hand'}</label>
              <input 
                 type="number" 
-                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                disabled={!isNew}
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50 disabled:text-slate-500"
+                step={MeasureService.isWeighed(currentProduct) ? '0.001' : '1'}
                 value={currentProduct.stock}
-                onChange={e => setCurrentProduct({...currentProduct, stock: parseInt(e.target.value)})}
+                onChange={e => setCurrentProduct({...currentProduct, stock: MeasureService.isWeighed(currentProduct) ? parseFloat(e.target.value) : parseInt(e.target.value)})}
               />
+              {!isNew && <p className="text-xs text-slate-500 mt-1">Use Adjust Stock in the product list to change this.</p>}
+          </div>
+           )}
+
+          <div className="col-span-2 grid grid-cols-3 gap-4">
+            {([
+              ['reorderPoint', 'Reorder Point', DEFAULT_REORDER_POINT],
+              ['reorderQuantity', 'Reorder Qty', 'None'],
+              ['leadTimeDays', 'Lead Time (days)', DEFAULT_LEAD_TIME_DAYS],
+            ] as const).map(([field, label, fallback]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={currentProduct[field] ?? ''}
+                  placeholder={`Default: ${fallback}`}
+                  onChange={e => setCurrentProduct({...currentProduct, [field]: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)})}
+                />
+              </div>
+            ))}
+            <p className="col-span-3 text-xs text-slate-500 -mt-2">Low stock is flagged at or below the reorder point. Leave blank to use the store default.</p>
           </div>
 
           <div className="col-span-2">
-             <label className="block text-sm font-medium text-slate-700 mb-1">Expiry Date</label>
+             <label className="block text-sm font-medium text-slate-700 mb-1">Tax Class</label>
+             <select
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                value={currentProduct.taxClassId || ''}
+                onChange={e => setCurrentProduct({...currentProduct, taxClassId: e.target.value || undefined})}
+              >
+                <option value="">Use category default</option>
+                {taxSettings.classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+          </div>
+
+          <div className="col-span-2">
+             <label className="block text-sm font-medium text-slate-700 mb-1">Loyalty Points Multiplier</label>
+             <input
+                type="number"
+                step="0.5"
+                min="0"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={currentProduct.loyaltyMultiplier ?? ''}
+                placeholder="Use category default"
+                onChange={e => setCurrentProduct({...currentProduct, loyaltyMultiplier: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)})}
+              />
+              <p className="text-xs text-slate-500 mt-1">Set to 0 to exclude this product from earning points.</p>
+          </div>
+
+          <div className="col-span-2 border-t border-slate-100 pt-6">
+            <div className="flex justify-between items-center mb-1">
+              <label className="block text-sm font-medium text-slate-700">Variants</label>
+              <button
+                onClick={() => setOptionDrafts([...optionDrafts, { name: '', values: '' }])}
+                className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+              >
+                <Plus size={14} /> Add Option
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 mb-3">Sizes, colors or flavors this product comes in. Each combination becomes a variant with its own SKU, barcode and stock.</p>
+            {optionDrafts.map((option, idx) => (
+              <div key={idx} className="flex gap-2 mb-2">
+                <input
+                  type="text"
+                  className="w-1/3 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={option.name}
+                  placeholder="e.g. Flavor"
+                  onChange={e => setOptionDrafts(optionDrafts.map((o, i) => i === idx ? { ...o, name: e.target.value } : o))}
+                />
+                <input
+                  type="text"
+                  className="flex-1 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={option.values}
+                  placeholder="Comma separated, e.g. Lemon, Lime, Plain"
+                  onChange={e => setOptionDrafts(optionDrafts.map((o, i) => i === idx ? { ...o, values: e.target.value } : o))}
+                />
+                <button onClick={() => setOptionDrafts(optionDrafts.filter((_, i) => i !== idx))} className="p-2 text-slate-400 hover:text-red-600 transition" title="Remove option"><X size={18} /></button>
+              </div>
+            ))}
+            {variantRows.length > 0 && (
+              <table className="w-full text-left text-sm mt-3">
+                <thead className="text-slate-500 text-xs uppercase font-semibold">
+                  <tr>
+                    <th className="py-2">Variant</th>
+                    <th className="py-2 px-1">SKU</th>
+                    <th className="py-2 px-1">Barcode</th>
+                    <th className="py-2 px-1">Price ($)</th>
+                    <th className="py-2 px-1">{isNew ? 'Opening Stock' : 'Stock'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {variantRows.map(row => {
+                    const label = VariantService.label(row.variantValues!, options);
+                    const isNewVariant = !products.some(p => p.id === row.id);
+                    return (
+                      <tr key={label}>
+                        <td className="py-2 font-medium text-slate-700">{label}</td>
+                        <td className="py-2 px-1">
+                          <input type="text" className="w-full px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 outline-none uppercase font-mono text-xs" value={row.sku} onChange={e => updateVariant(row, { sku: e.target.value.toUpperCase() })} />
+                        </td>
+                        <td className="py-2 px-1">
+                          <input type="text" className="w-full px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 outline-none font-mono text-xs" value={row.barcode || ''} placeholder="UPC / EAN" onChange={e => updateVariant(row, { barcode: e.target.value.trim() || undefined })} />
+                        </td>
+                        <td className="py-2 px-1">
+                          <input
+                            type="number"
+                            step="0.01"
+                            className="w-24 px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                            value={row.priceOverride ?? ''}
+                            placeholder={(currentProduct.price || 0).toFixed(2)}
+                            onChange={e => updateVariant(row, { priceOverride: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                          />
+                        </td>
+                        <td className="py-2 px-1">
+                          {isNewVariant ? (
+                            <input type="number" min="0" className="w-20 px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 outline-none" step={MeasureService.isWeighed(row) ? '0.001' : '1'} value={row.stock} onChange={e => updateVariant(row, { stock: Math.max(0, (MeasureService.isWeighed(row) ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0) })} />
+                          ) : (
+                            <span className="text-slate-600">{MeasureService.format(row.stock, row.unit)}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            {variantRows.length > 0 && <p className="text-xs text-slate-500 mt-2">Leave the price blank to use the base price. Stock of existing variants changes through Adjust Stock.</p>}
+          </div>
+
+          {isNew && !hasVariants && (
+          <div className="col-span-2">
+             <label className="block text-sm font-medium text-slate-700 mb-1">Opening Stock Expiry</label>
              <input 
                 type="date" 
                 className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                 value={currentProduct.expiryDate || ''}
                 onChange={e => setCurrentProduct({...currentProduct, expiryDate: e.target.value})}
               />
-              <p className="text-xs text-slate-500 mt-1">Optional. Used for expiry alerts.</p>
+              <p className="text-xs text-slate-500 mt-1">Optional. Later deliveries carry their own expiry per lot.</p>
           </div>
+          )}
         </div>
 
         <div className="flex justify-end gap-4 mt-8">
@@ -161,6 +444,81 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
     );
   }
 
+  // Variants sit indented under their parent and are edited and deleted through it
+  const renderStockRow = (product: Product) => {
+    const expired = InventoryService.expiredUnits(product.id, lotStock);
+    const isLowStock = ReorderService.isLowStock(product);
+    const isVariant = !!product.parentId;
+
+    return (
+      <tr key={product.id} className="hover:bg-slate-50 transition">
+        <td className={`px-6 py-4 font-mono text-sm text-slate-500 ${isVariant ? 'pl-10' : ''}`}>
+          {product.sku}
+          {product.barcode && <div className="text-xs text-slate-400">{product.barcode}</div>}
+        </td>
+        <td className={isVariant ? 'px-6 py-4 text-slate-600' : 'px-6 py-4 font-medium text-slate-800'}>
+          {isVariant ? VariantService.label(product.variantValues || {}, products.find(p => p.id === product.parentId)?.options || []) : product.name}
+        </td>
+        <td className="px-6 py-4 text-slate-600">{!isVariant && <span className="px-2 py-1 bg-slate-100 rounded text-xs">{product.category}</span>}</td>
+        <td className="px-6 py-4 text-slate-600">${product.price.toFixed(2)}{MeasureService.priceSuffix(product.unit)}</td>
+        <td className="px-6 py-4">
+          <span className={`font-medium ${product.stock <= 0 ? 'text-red-600' : 'text-slate-700'}`}>
+            {MeasureService.format(product.stock, product.unit)}
+          </span>
+        </td>
+        <td className="px-6 py-4">
+          {expired > 0 ? (
+            <span className="flex items-center gap-1 text-red-600 bg-red-50 px-2 py-1 rounded-full text-xs font-bold w-fit">
+              <AlertCircle size={12}/> {MeasureService.format(expired, product.unit)} Expired
+            </span>
+          ) : isLowStock ? (
+            <span className="text-yellow-600 bg-yellow-50 px-2 py-1 rounded-full text-xs font-bold">Low Stock</span>
+          ) : (
+            <span className="text-green-600 bg-green-50 px-2 py-1 rounded-full text-xs font-bold">Good</span>
+          )}
+        </td>
+        <td className="px-6 py-4 text-right">
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setAdjusting(product)} className="p-2 text-slate-400 hover:text-blue-600 transition" title="Adjust stock"><SlidersHorizontal size={18} /></button>
+            <button onClick={() => setHistoryFor(product)} className="p-2 text-slate-400 hover:text-blue-600 transition" title="Stock history"><History size={18} /></button>
+            <button onClick={() => startEdit(product)} className="p-2 text-slate-400 hover:text-blue-600 transition"><Edit size={18} /></button>
+            {!isVariant && <button onClick={() => onDeleteProduct(product.id)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  const renderParentRow = (product: Product) => {
+    const prices = VariantService.variantsOf(product.id, products).map(v => v.price);
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    const stock = VariantService.stockOf(product, products);
+
+    return (
+      <tr key={product.id} className="bg-slate-50/50">
+        <td className="px-6 py-4 font-mono text-sm text-slate-500">{product.sku}</td>
+        <td className="px-6 py-4 font-medium text-slate-800">{product.name}</td>
+        <td className="px-6 py-4 text-slate-600"><span className="px-2 py-1 bg-slate-100 rounded text-xs">{product.category}</span></td>
+        <td className="px-6 py-4 text-slate-600">{low === high ? `$${low.toFixed(2)}` : `$${low.toFixed(2)} - $${high.toFixed(2)}`}</td>
+        <td className="px-6 py-4">
+          <span className={`font-medium ${stock <= 0 ? 'text-red-600' : 'text-slate-700'}`}>{MeasureService.format(stock, product.unit)}</span>
+        </td>
+        <td className="px-6 py-4">
+          <span className="flex items-center gap-1 text-slate-600 bg-slate-100 px-2 py-1 rounded-full text-xs font-bold w-fit">
+            <Layers size={12}/> {prices.length} Variants
+          </span>
+        </td>
+        <td className="px-6 py-4 text-right">
+          <div className="flex justify-end gap-2">
+            <button onClick={() => startEdit(product)} className="p-2 text-slate-400 hover:text-blue-600 transition"><Edit size={18} /></button>
+            <button onClick={() => onDeleteProduct(product.id)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -168,12 +526,35 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
           <h2 className="text-2xl font-bold text-slate-800">Inventory Management</h2>
           <p className="text-slate-500">Manage your product catalog, stock levels, and expiry dates.</p>
         </div>
-        <button 
-          onClick={startAdd}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
-        >
-          <Plus size={18} /> Add Product
-        </button>
+        <div className="flex gap-2">
+          {lastImport && (
+            <button
+              onClick={handleUndoImport}
+              className="px-4 py-2 rounded-lg flex items-center gap-2 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition"
+              title={`Imported ${new Date(lastImport.importedAt).toLocaleString()} by ${lastImport.user}`}
+            >
+              <Undo2 size={18} /> Undo Import
+            </button>
+          )}
+          <button
+            onClick={() => setImporting(true)}
+            className="px-4 py-2 rounded-lg flex items-center gap-2 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition"
+          >
+            <FileUp size={18} /> Import CSV
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 rounded-lg flex items-center gap-2 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition"
+          >
+            <FileDown size={18} /> Export CSV
+          </button>
+          <button 
+            onClick={startAdd}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+          >
+            <Plus size={18} /> Add Product
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -190,47 +571,36 @@ export const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, on
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
-            {products.map(product => {
-               const isExpired = product.expiryDate && new Date(product.expiryDate) < new Date();
-               const isLowStock = product.stock < 10;
-               
-               return (
-                <tr key={product.id} className="hover:bg-slate-50 transition">
-                  <td className="px-6 py-4 font-mono text-sm text-slate-500">{product.sku}</td>
-                  <td className="px-6 py-4 font-medium text-slate-800">{product.name}</td>
-                  <td className="px-6 py-4 text-slate-600"><span className="px-2 py-1 bg-slate-100 rounded text-xs">{product.category}</span></td>
-                  <td className="px-6 py-4 text-slate-600">${product.price.toFixed(2)}</td>
-                  <td className="px-6 py-4">
-                    <span className={`font-medium ${product.stock === 0 ? 'text-red-600' : 'text-slate-700'}`}>
-                      {product.stock}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4">
-                    {isExpired ? (
-                      <span className="flex items-center gap-1 text-red-600 bg-red-50 px-2 py-1 rounded-full text-xs font-bold w-fit">
-                        <AlertCircle size={12}/> Expired
-                      </span>
-                    ) : isLowStock ? (
-                      <span className="text-yellow-600 bg-yellow-50 px-2 py-1 rounded-full text-xs font-bold">Low Stock</span>
-                    ) : (
-                      <span className="text-green-600 bg-green-50 px-2 py-1 rounded-full text-xs font-bold">Good</span>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    <div className="flex justify-end gap-2">
-                      <button onClick={() => startEdit(product)} className="p-2 text-slate-400 hover:text-blue-600 transition"><Edit size={18} /></button>
-                      <button onClick={() => onDeleteProduct(product.id)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
-                    </div>
-                  </td>
-                </tr>
-               );
-            })}
+            {products.filter(p => !p.parentId).flatMap(product => VariantService.isParent(product)
+              ? [renderParentRow(product), ...VariantService.variantsOf(product.id, products).map(renderStockRow)]
+              : [renderStockRow(product)])}
           </tbody>
         </table>
         {products.length === 0 && (
           <div className="p-8 text-center text-slate-400">No products found. Add one to get started.</div>
         )}
       </div>
+
+      {adjusting && (
+        <AdjustStockModal
+          product={adjusting}
+          lotStock={lotStock}
+          currentUser={currentUser}
+          onSave={posting => { onStockAdjustment(posting); setAdjusting(null); }}
+          onCancel={() => setAdjusting(null)}
+        />
+      )}
+
+      {importing && (
+        <CatalogImportModal
+          products={products}
+          taxSettings={taxSettings}
+          onCommit={(rows, fileName) => { onImportCatalog(rows, fileName); setImporting(false); }}
+          onCancel={() => setImporting(false)}
+        />
+      )}
+
+      {historyFor && <StockHistoryModal product={historyFor} lotStock={lotStock} onClose={() => setHistoryFor(null)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { StaffUser } from '../types.ts';
+import { MAX_PIN_ATTEMPTS, PIN_LOCKOUT_SECONDS, StaffService } from '../services/staffService.ts';
+import { Store, Delete, LogIn } from 'lucide-react';
+
+interface LockScreenProps {
+  users: StaffUser[];
+  storeName: string;
+  onUnlock: (user: StaffUser) => void;
+  onCreateFirstManager: (user: StaffUser) => void;
+  onFailedAttempt: (message: string) => void;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ users, storeName, onUnlock, onCreateFirstManager, onFailedAttempt }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [setup, setSetup] = useState({ name: '', pin: '', confirm: '' });
+  const needsSetup = !users.some(u => u.active);
+
+  const submit = async () => {
+    if (!pin || checking) return;
+    const lockedFor = StaffService.pinLockoutRemaining('sign-in');
+    if (lockedFor > 0) {
+      setError(`Too many attempts. Try again in ${lockedFor} seconds.`);
+      return;
+    }
+    setChecking(true);
+    const user = await StaffService.findByPin(pin, users);
+    setChecking(false);
+    setPin('');
+    if (user) {
+      StaffService.clearPinFailures('sign-in');
+      setError('');
+      onUnlock(user);
+      return;
+    }
+    if (StaffService.recordPinFailure('sign-in')) {
+      setError(`Too many attempts. Try again in ${PIN_LOCKOUT_SECONDS} seconds.`);
+      onFailedAttempt(`Sign-in locked for ${PIN_LOCKOUT_SECONDS} seconds after ${MAX_PIN_ATTEMPTS} incorrect PINs`);
+    } else {
+      setError('PIN not recognised.');
+      onFailedAttempt('Incorrect PIN entered');
+    }
+  };
+
+  // Number keys work as well as the on-screen pad
+  useEffect(() => {
+    if (needsSetup) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (/^\d$/.test(e.key)) setPin(prev => (prev + e.key).slice(0, 8));
+      else if (e.key === 'Backspace') setPin(prev => prev.slice(0, -1));
+      else if (e.key === 'Enter') submit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSetup = async () => {
+    if (setup.pin !== setup.confirm) {
+      alert("The PINs do not match.");
+      return;
+    }
+    try {
+      onCreateFirstManager(await StaffService.create(setup.name, 'manager', setup.pin, users));
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-2xl p-8 w-[360px] shadow-2xl">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-blue-600 rounded-lg mb-3"><Store size={24} className="text-white" /></div>
+          <h3 className="text-xl font-bold text-slate-800">{storeName}</h3>
+          <p className="text-slate-500">{needsSetup ? 'Create the first manager account to get started.' : 'Enter your PIN to sign in.'}</p>
+        </div>
+
+        {needsSetup ? (
+          <div className="space-y-3">
+            <input
+              type="text"
+              placeholder="Your name"
+              autoFocus
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={setup.name}
+              onChange={e => setSetup({ ...setup, name: e.target.value })}
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              placeholder="PIN (4-8 digits)"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={setup.pin}
+              onChange={e => setSetup({ ...setup, pin: e.target.value.replace(/\D/g, '') })}
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              placeholder="Confirm PIN"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={setup.confirm}
+              onChange={e => setSetup({ ...setup, confirm: e.target.value.replace(/\D/g, '') })}
+              onKeyDown={e => e.key === 'Enter' && handleSetup()}
+            />
+            <button onClick={handleSetup} className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-all">
+              Create Manager Account
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-center gap-3 h-6 mb-2">
+              {Array.from({ length: Math.max(4, pin.length) }).map((_, i) => (
+                <span key={i} className={`w-3.5 h-3.5 rounded-full ${i < pin.length ? 'bg-slate-800' : 'bg-slate-200'}`} />
+              ))}
+            </div>
+            <p className="text-center text-sm text-red-600 h-5 mb-3">{error}</p>
+            <div className="grid grid-cols-3 gap-3">
+              {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(d => (
+                <button key={d} onClick={() => setPin(prev => (prev + d).slice(0, 8))} className="py-4 rounded-xl bg-slate-100 hover:bg-slate-200 text-xl font-semibold text-slate-800">{d}</button>
+              ))}
+              <button onClick={() => setPin(prev => prev.slice(0, -1))} className="py-4 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 flex items-center justify-center" title="Delete"><Delete size={22} /></button>
+              <button onClick={() => setPin(prev => (prev + '0').slice(0, 8))} className="py-4 rounded-xl bg-slate-100 hover:bg-slate-200 text-xl font-semibold text-slate-800">0</button>
+              <button onClick={submit} disabled={!pin || checking} className="py-4 rounded-xl bg-blue-600 hover:bg-blue-700 text-white flex items-center justify-center disabled:opacity-50" title="Sign in"><LogIn size={22} /></button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { GiftCard, LoyaltySettings, PaymentLine, PaymentMethod } from '../types.ts';
+import { TenderService, PAYMENT_METHOD_LABELS } from '../services/tenderService.ts';
+import { LoyaltyService } from '../services/loyaltyService.ts';
+import { GiftCardService } from '../services/giftCardService.ts';
+import { CreditCard, Banknote, Smartphone, Award, Gift, AlertCircle, X, CheckCircle } from 'lucide-react';
+
+interface PaymentModalProps {
+  total: number;
+  onComplete: (payments: PaymentLine[]) => void;
+  onCancel: () => void;
+  loyalty?: { balance: number; settings: LoyaltySettings }; // Offered only when a member is attached
+  giftCards?: GiftCard[]; // Left out where cards can't be used, e.g. when selling one
+}
+
+const METHOD_STYLES: Record<PaymentMethod, { icon: React.FC<{ size?: number }>; active: string }> = {
+  cash: { icon: Banknote, active: 'bg-green-50 border-green-400 text-green-700' },
+  card: { icon: CreditCard, active: 'bg-blue-50 border-blue-400 text-blue-700' },
+  digital: { icon: Smartphone, active: 'bg-purple-50 border-purple-400 text-purple-700' },
+  points: { icon: Award, active: 'bg-amber-50 border-amber-400 text-amber-700' },
+  gift_card: { icon: Gift, active: 'bg-pink-50 border-pink-400 text-pink-700' },
+};
+
+export const PaymentModal: React.FC<PaymentModalProps> = ({ total, onComplete, onCancel, loyalty, giftCards }) => {
+  const amountDue = TenderService.roundCurrency(total);
+  const [payments, setPayments] = useState<PaymentLine[]>([]);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amountInput, setAmountInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [cardCode, setCardCode] = useState('');
+
+  const remaining = TenderService.remainingBalance(amountDue, payments);
+  const isCovered = remaining === 0;
+  const methods = (Object.keys(METHOD_STYLES) as PaymentMethod[]).filter(m => (m !== 'points' || loyalty) && (m !== 'gift_card' || giftCards));
+  const pointsLeft = loyalty ? loyalty.balance - payments.reduce((sum, p) => sum + (p.points || 0), 0) : 0;
+  const pointsCover = loyalty ? Math.min(remaining, LoyaltyService.valueOf(Math.max(0, pointsLeft), loyalty.settings)) : 0;
+  const card = giftCards && GiftCardService.find(cardCode, giftCards);
+  const cardAvailable = card ? card.balance - payments.filter(p => p.giftCardCode === card.code).reduce((sum, p) => sum + p.amount, 0) : 0;
+  const suggestedAmount = method === 'points' ? pointsCover
+    : method === 'gift_card' && card ? TenderService.roundCurrency(Math.min(remaining, Math.max(0, cardAvailable)))
+    : remaining;
+  const enteredAmount = amountInput === '' ? suggestedAmount : parseFloat(amountInput) || 0;
+
+  const addPayment = (amount: number = enteredAmount) => {
+    if (amount <= 0) {
+      setError('Enter an amount greater than zero.');
+      return;
+    }
+    if (method === 'gift_card' && giftCards) {
+      if (TenderService.roundCurrency(amount) > remaining) {
+        setError(`A gift card cannot pay more than the remaining balance of $${remaining.toFixed(2)}.`);
+        return;
+      }
+      try {
+        const line = GiftCardService.redeem(cardCode, amount, giftCards, payments);
+        setPayments(prev => [...prev, line]);
+        setCardCode('');
+      } catch (e) {
+        setError((e as Error).message);
+        return;
+      }
+    } else if (method === 'points' && loyalty) {
+      if (TenderService.roundCurrency(amount) > remaining) {
+        setError(`Points cannot exceed the remaining balance of $${remaining.toFixed(2)}.`);
+        return;
+      }
+      try {
+        const line = LoyaltyService.redeem(amount, loyalty.balance, payments, loyalty.settings);
+        setPayments(prev => [...prev, line]);
+      } catch (e) {
+        setError((e as Error).message);
+        return;
+      }
+    } else if (method === 'cash') {
+      // Cash may exceed the balance; the excess is returned as change
+      const applied = Math.min(amount, remaining);
+      setPayments(prev => [...prev, {
+        method: 'cash',
+        amount: TenderService.roundCurrency(applied),
+        amountReceived: TenderService.roundCurrency(amount),
+        changeGiven: TenderService.calculateChange(applied, amount),
+      }]);
+    } else {
+      if (TenderService.roundCurrency(amount) > remaining) {
+        setError(`${PAYMENT_METHOD_LABELS[method]} cannot exceed the remaining balance of $${remaining.toFixed(2)}.`);
+        return;
+      }
+      setPayments(prev => [...prev, { method, amount: TenderService.roundCurrency(amount) }]);
+    }
+    setAmountInput('');
+    setError(null);
+  };
+
+  const removePayment = (index: number) => {
+    setPayments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[440px] shadow-2xl animate-fade-in-up">
+        <h3 className="text-xl font-bold mb-6 text-center">Payment</h3>
+        <div className="grid grid-cols-2 gap-4 mb-6 text-center">
+          <div className="p-3 bg-slate-50 rounded-xl">
+            <div className="text-xs text-slate-500 uppercase font-semibold">Total Due</div>
+            <div className="text-2xl font-bold text-slate-800">${amountDue.toFixed(2)}</div>
+          </div>
+          <div className={`p-3 rounded-xl ${isCovered ? 'bg-green-50' : 'bg-blue-50'}`}>
+            <div className="text-xs text-slate-500 uppercase font-semibold">Remaining</div>
+            <div className={`text-2xl font-bold ${isCovered ? 'text-green-600' : 'text-blue-600'}`}>${remaining.toFixed(2)}</div>
+          </div>
+        </div>
+
+        {payments.length > 0 && (
+          <div className="mb-6 space-y-2">
+            {payments.map((p, idx) => {
+              const Icon = METHOD_STYLES[p.method].icon;
+              return (
+                <div key={idx} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100 text-sm">
+                  <div className="flex items-center gap-2 text-slate-700">
+                    <Icon size={16} />
+                    <span className="font-medium">{PAYMENT_METHOD_LABELS[p.method]}</span>
+                    {p.changeGiven ? <span className="text-xs text-slate-400">(received ${p.amountReceived?.toFixed(2)})</span> : null}
+                    {p.points ? <span className="text-xs text-slate-400">({p.points} pts)</span> : null}
+                    {p.giftCardCode ? <span className="text-xs text-slate-400">({GiftCardService.maskCode(p.giftCardCode)})</span> : null}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">${p.amount.toFixed(2)}</span>
+                    <button onClick={() => removePayment(idx)} className="text-slate-400 hover:text-red-600"><X size={14} /></button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {isCovered ? (
+          <div className="p-4 rounded-xl bg-green-50 text-green-700 flex justify-between items-center">
+            <span className="font-medium flex items-center gap-2"><CheckCircle size={18} /> Change Due</span>
+            <span className="text-2xl font-bold">${TenderService.totalChange(payments).toFixed(2)}</span>
+          </div>
+        ) : (
+          <>
+            <div className={`grid ${methods.length > 4 ? 'grid-cols-5' : methods.length > 3 ? 'grid-cols-4' : 'grid-cols-3'} gap-2 mb-4`}>
+              {methods.map(m => {
+                const Icon = METHOD_STYLES[m].icon;
+                return (
+                  <button
+                    key={m}
+                    onClick={() => { setMethod(m); setError(null); }}
+                    className={`p-3 border rounded-xl flex flex-col items-center gap-1 text-xs font-semibold transition-colors ${method === m ? METHOD_STYLES[m].active : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <Icon size={20} />
+                    {PAYMENT_METHOD_LABELS[m]}
+                  </button>
+                );
+              })}
+            </div>
+
+            {method === 'gift_card' && (
+              <div className="mb-3">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Card Code</label>
+                <input
+                  type="text"
+                  autoFocus
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono uppercase"
+                  value={cardCode}
+                  onChange={e => { setCardCode(e.target.value); setError(null); }}
+                  placeholder="Scan or type the code"
+                />
+                {cardCode.trim() && (
+                  <p className={`mt-1 text-xs ${card ? 'text-slate-500' : 'text-red-600'}`}>
+                    {card ? `${card.kind === 'store_credit' ? 'Store credit' : 'Gift card'} balance $${Math.max(0, cardAvailable).toFixed(2)}` : 'No card with this code.'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              {method === 'cash' ? 'Amount Received ($)' : 'Amount ($)'}
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                autoFocus={method !== 'gift_card'}
+                className="flex-1 px-4 py-3 text-xl font-bold border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-right"
+                value={amountInput}
+                onChange={e => setAmountInput(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addPayment()}
+                placeholder={suggestedAmount.toFixed(2)}
+              />
+              <button onClick={() => addPayment()} className="px-4 bg-slate-800 text-white font-semibold rounded-lg hover:bg-slate-900">Add</button>
+            </div>
+
+            {method === 'points' && (
+              <p className="mt-2 text-xs text-slate-500">
+                {Math.max(0, pointsLeft)} points available, worth ${LoyaltyService.valueOf(Math.max(0, pointsLeft), loyalty!.settings).toFixed(2)}.
+              </p>
+            )}
+
+            {method === 'cash' && (
+              <div className="grid grid-cols-3 gap-2 mt-3">
+                {TenderService.suggestCashAmounts(remaining).map(amount => (
+                  <button
+                    key={amount}
+                    onClick={() => addPayment(amount)}
+                    className="py-2 rounded-lg border border-slate-200 bg-slate-50 hover:bg-green-50 hover:border-green-200 font-semibold text-slate-700 transition-colors"
+                  >
+                    {amount === remaining ? 'Exact' : `$${amount.toFixed(2)}`}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {error && (
+              <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
+                <AlertCircle size={14} /> {error}
+              </p>
+            )}
+          </>
+        )}
+
+        <button
+          disabled={!isCovered}
+          onClick={() => onComplete(payments)}
+          className="w-full py-4 mt-6 bg-green-600 hover:bg-green-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-bold rounded-xl shadow-lg shadow-green-200 transition-all"
+        >
+          {isCovered ? 'Complete Sale' : `$${remaining.toFixed(2)} Remaining`}
+        </button>
+        <button onClick={onCancel} className="mt-3 w-full py-2 text-slate-500 hover:text-slate-800">Cancel</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { Product, Promotion, PromotionType } from '../types.ts';
+import { PromotionService, PROMOTION_TYPE_LABELS } from '../services/promotionService.ts';
+import { Plus, Edit, Trash, Save, Ticket } from 'lucide-react';
+
+interface PromotionsProps {
+  promotions: Promotion[];
+  products: Product[];
+  onSavePromotions: (promotions: Promotion[]) => void;
+}
+
+const PRODUCT_TYPES: PromotionType[] = ['buy_x_get_y', 'multi_buy'];
+
+export const Promotions: React.FC<PromotionsProps> = ({ promotions, products, onSavePromotions }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [current, setCurrent] = useState<Promotion | null>(null);
+
+  const categories = Array.from(new Set(products.map(p => p.category)));
+
+  const startAdd = () => {
+    setCurrent({
+      id: crypto.randomUUID(),
+      name: '',
+      type: 'category_percent',
+      active: true,
+      percentOff: 10,
+      category: categories[0],
+    });
+    setIsEditing(true);
+  };
+
+  const startEdit = (promotion: Promotion) => {
+    setCurrent({ ...promotion });
+    setIsEditing(true);
+  };
+
+  const update = (changes: Partial<Promotion>) => {
+    setCurrent(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const toggleProduct = (productId: string) => {
+    if (!current) return;
+    const productIds = current.productIds?.includes(productId)
+      ? current.productIds.filter(id => id !== productId)
+      : [...(current.productIds || []), productId];
+    update({ productIds });
+  };
+
+  const handleSave = () => {
+    if (!current) return;
+    if (!current.name.trim()) {
+      alert("Please give the promotion a name.");
+      return;
+    }
+    if (PRODUCT_TYPES.includes(current.type) && !current.productIds?.length) {
+      alert("Select at least one product for this promotion.");
+      return;
+    }
+    if (current.startDate && current.endDate && current.startDate > current.endDate) {
+      alert("The end date must be on or after the start date.");
+      return;
+    }
+    const code = current.couponCode?.trim().toUpperCase();
+    if (code && promotions.some(p => p.id !== current.id && p.couponCode?.toUpperCase() === code)) {
+      alert(`Coupon code ${code} is already used by another promotion.`);
+      return;
+    }
+    const promotion = { ...current, couponCode: code || undefined };
+    const exists = promotions.some(p => p.id === promotion.id);
+    onSavePromotions(exists ? promotions.map(p => p.id === promotion.id ? promotion : p) : [...promotions, promotion]);
+    setIsEditing(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this promotion?")) {
+      onSavePromotions(promotions.filter(p => p.id !== id));
+    }
+  };
+
+  const numberInput = (label: string, field: keyof Promotion, step = '1') => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      <input
+        type="number"
+        step={step}
+        min="0"
+        className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+        value={(current?.[field] as number | undefined) ?? ''}
+        onChange={e => update({ [field]: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+      />
+    </div>
+  );
+
+  if (isEditing && current) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-8 rounded-2xl shadow-lg border border-slate-200 animate-fade-in">
+        <h2 className="text-2xl font-bold mb-6 text-slate-800">{promotions.some(p => p.id === current.id) ? 'Edit Promotion' : 'New Promotion'}</h2>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+            <input
+              type="text"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={current.name}
+              onChange={e => update({ name: e.target.value })}
+              placeholder="e.g. Summer Snack Sale"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Type</label>
+            <select
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={current.type}
+              onChange={e => update({ type: e.target.value as PromotionType })}
+            >
+              {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(t => (
+                <option key={t} value={t}>{PROMOTION_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Coupon Code</label>
+            <input
+              type="text"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase"
+              value={current.couponCode || ''}
+              onChange={e => update({ couponCode: e.target.value.toUpperCase() })}
+              placeholder="Optional"
+            />
+          </div>
+
+          {current.type === 'buy_x_get_y' && (
+            <>
+              {numberInput('Buy Quantity', 'buyQuantity')}
+              {numberInput('Get Quantity', 'getQuantity')}
+              {numberInput('Get Discount (%)', 'getPercentOff')}
+            </>
+          )}
+          {current.type === 'multi_buy' && (
+            <>
+              {numberInput('Bundle Quantity', 'bundleQuantity')}
+              {numberInput('Bundle Price ($)', 'bundlePrice', '0.01')}
+            </>
+          )}
+          {current.type === 'category_percent' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+                <select
+                  className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                  value={current.category || ''}
+                  onChange={e => update({ category: e.target.value })}
+                >
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              {numberInput('Percent Off', 'percentOff')}
+            </>
+          )}
+          {current.type === 'cart_percent' && (
+            <>
+              {numberInput('Percent Off', 'percentOff')}
+              {numberInput('Minimum Spend After Item Discounts ($)', 'minimumSpend', '0.01')}
+            </>
+          )}
+          {current.type === 'cart_fixed' && (
+            <>
+              {numberInput('Amount Off ($)', 'amountOff', '0.01')}
+              {numberInput('Minimum Spend After Item Discounts ($)', 'minimumSpend', '0.01')}
+            </>
+          )}
+
+          {PRODUCT_TYPES.includes(current.type) && (
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Products</label>
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {products.filter(p => !p.parentId).map(p => (
+                  <label key={p.id} className={`text-xs px-3 py-1.5 rounded-full border cursor-pointer ${current.productIds?.includes(p.id) ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-slate-200 text-slate-500'}`}>
+                    <input type="checkbox" className="hidden" checked={!!current.productIds?.includes(p.id)} onChange={() => toggleProduct(p.id)} />
+                    {p.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Start Date</label>
+            <input
+              type="date"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={current.startDate || ''}
+              onChange={e => update({ startDate: e.target.value || undefined })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">End Date</label>
+            <input
+              type="date"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={current.endDate || ''}
+              onChange={e => update({ endDate: e.target.value || undefined })}
+            />
+          </div>
+
+          <label className="col-span-2 flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={current.active} onChange={e => update({ active: e.target.checked })} />
+            Active
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-4 mt-8">
+          <button
+            onClick={() => setIsEditing(false)}
+            className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition flex items-center gap-2"
+          >
+            <Save size={18} /> Save Promotion
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Promotions</h2>
+          <p className="text-slate-500">Automatic deals and coupon codes applied at the register.</p>
+        </div>
+        <button
+          onClick={startAdd}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+        >
+          <Plus size={18} /> Add Promotion
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-4">Name</th>
+              <th className="px-6 py-4">Rule</th>
+              <th className="px-6 py-4">Coupon</th>
+              <th className="px-6 py-4">Dates</th>
+              <th className="px-6 py-4">Status</th>
+              <th className="px-6 py-4 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {promotions.map(promotion => {
+              const isLive = PromotionService.isActiveOn(promotion);
+              return (
+                <tr key={promotion.id} className="hover:bg-slate-50 transition">
+                  <td className="px-6 py-4 font-medium text-slate-800">{promotion.name}</td>
+                  <td className="px-6 py-4 text-slate-600 text-sm">{PromotionService.describe(promotion)}</td>
+                  <td className="px-6 py-4">
+                    {promotion.couponCode
+                      ? <span className="flex items-center gap-1 font-mono text-xs bg-slate-100 px-2 py-1 rounded w-fit"><Ticket size={12} /> {promotion.couponCode}</span>
+                      : <span className="text-xs text-slate-400">Automatic</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-500">
+                    {promotion.startDate || promotion.endDate ? `${promotion.startDate || '…'} → ${promotion.endDate || '…'}` : 'Always'}
+                  </td>
+                  <td className="px-6 py-4">
+                    {isLive
+                      ? <span className="text-green-600 bg-green-50 px-2 py-1 rounded-full text-xs font-bold">Live</span>
+                      : <span className="text-slate-500 bg-slate-100 px-2 py-1 rounded-full text-xs font-bold">Inactive</span>}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => startEdit(promotion)} className="p-2 text-slate-400 hover:text-blue-600 transition"><Edit size={18} /></button>
+                      <button onClick={() => handleDelete(promotion.id)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {promotions.length === 0 && (
+          <div className="p-8 text-center text-slate-400">No promotions yet. Add one to get started.</div>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { Product, PurchaseOrder, PurchaseOrderLine, Supplier } from '../types.ts';
+import { PurchasingService, PO_STATUS_LABELS } from '../services/purchasingService.ts';
+import { LotDetails } from '../services/inventoryService.ts';
+import { VariantService } from '../services/variantService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { ReceiveGoodsModal } from './ReceiveGoodsModal.tsx';
+import { ArrowLeft, Plus, Trash, Save, Send, PackageCheck, Archive } from 'lucide-react';
+
+interface PurchaseOrderDetailProps {
+  order: PurchaseOrder;
+  suppliers: Supplier[];
+  products: Product[];
+  onSave: (order: PurchaseOrder) => void;
+  onReceive: (order: PurchaseOrder, quantities: Record<string, number>, lotDetails: Record<string, LotDetails>, note?: string) => PurchaseOrder; // Throws on invalid quantities
+  onBack: () => void;
+}
+
+export const PurchaseOrderDetail: React.FC<PurchaseOrderDetailProps> = ({ order, suppliers, products, onSave, onReceive, onBack }) => {
+  const [draft, setDraft] = useState<PurchaseOrder>(order);
+  const [receiving, setReceiving] = useState(false);
+  const [productToAdd, setProductToAdd] = useState('');
+  const isDraft = draft.status === 'draft';
+  const supplier = suppliers.find(s => s.id === draft.supplierId);
+
+  const updateLine = (productId: string, changes: Partial<PurchaseOrderLine>) => {
+    setDraft(prev => ({ ...prev, lines: prev.lines.map(l => l.productId === productId ? { ...l, ...changes } : l) }));
+  };
+
+  const addLine = () => {
+    const product = products.find(p => p.id === productToAdd);
+    if (!product) return;
+    if (draft.lines.some(l => l.productId === product.id)) {
+      alert(`${product.name} is already on this order.`);
+      return;
+    }
+    const line: PurchaseOrderLine = { productId: product.id, sku: product.sku, name: product.name, quantityOrdered: 1, quantityReceived: 0, unitCost: 0, unit: product.unit };
+    setDraft(prev => ({ ...prev, lines: [...prev.lines, line] }));
+    setProductToAdd('');
+  };
+
+  const handleSaveDraft = () => {
+    onSave(draft);
+    alert(`${draft.number} saved.`);
+  };
+
+  const handleSend = () => {
+    try {
+      const sent = PurchasingService.markSent(draft);
+      setDraft(sent);
+      onSave(sent);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleClose = () => {
+    if (!confirm(`Close ${draft.number}? Outstanding quantities will no longer be expected.`)) return;
+    const closed = PurchasingService.close(draft);
+    setDraft(closed);
+    onSave(closed);
+  };
+
+  const handleReceive = (quantities: Record<string, number>, lotDetails: Record<string, LotDetails>, note?: string) => {
+    try {
+      setDraft(onReceive(draft, quantities, lotDetails, note));
+      setReceiving(false);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const statusClass = draft.status === 'closed' ? 'text-slate-500 bg-slate-100'
+    : draft.status === 'draft' ? 'text-blue-600 bg-blue-50'
+    : 'text-amber-700 bg-amber-50';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="p-2 text-slate-500 hover:bg-slate-200 rounded-lg transition"><ArrowLeft size={20} /></button>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-3">
+              {draft.number}
+              <span className={`px-2 py-1 rounded-full text-xs font-bold ${statusClass}`}>{PO_STATUS_LABELS[draft.status]}</span>
+            </h2>
+            <p className="text-slate-500">Created {new Date(draft.createdAt).toLocaleDateString()}{draft.sentAt && ` · Sent ${new Date(draft.sentAt).toLocaleDateString()}`}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {isDraft && (
+            <>
+              <button onClick={handleSaveDraft} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 rounded-lg flex items-center gap-2 transition">
+                <Save size={18} /> Save Draft
+              </button>
+              <button onClick={handleSend} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition">
+                <Send size={18} /> Mark as Sent
+              </button>
+            </>
+          )}
+          {(draft.status === 'sent' || draft.status === 'partially_received') && (
+            <>
+              <button onClick={handleClose} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 rounded-lg flex items-center gap-2 transition">
+                <Archive size={18} /> Close Order
+              </button>
+              <button onClick={() => setReceiving(true)} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition">
+                <PackageCheck size={18} /> Receive Goods
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Supplier</label>
+          {isDraft ? (
+            <select
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={draft.supplierId}
+              onChange={e => setDraft({ ...draft, supplierId: e.target.value })}
+            >
+              {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          ) : (
+            <div className="py-2 text-slate-800 font-medium">{supplier?.name || 'Unknown supplier'}</div>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Expected Delivery</label>
+          <input
+            type="date"
+            disabled={!isDraft}
+            className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+            value={draft.expectedDate || ''}
+            onChange={e => setDraft({ ...draft, expectedDate: e.target.value || undefined })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+          <input
+            type="text"
+            disabled={!isDraft}
+            className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+            value={draft.notes || ''}
+            onChange={e => setDraft({ ...draft, notes: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-4">Product</th>
+              <th className="px-6 py-4 text-right">Ordered</th>
+              <th className="px-6 py-4 text-right">Received</th>
+              <th className="px-6 py-4 text-right">Unit Cost</th>
+              <th className="px-6 py-4 text-right">Line Total</th>
+              {isDraft && <th className="px-6 py-4"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {draft.lines.map(line => (
+              <tr key={line.productId}>
+                <td className="px-6 py-3">
+                  <div className="font-medium text-slate-800">{line.name}</div>
+                  <div className="text-xs font-mono text-slate-400">{line.sku}</div>
+                </td>
+                <td className="px-6 py-3 text-right">
+                  {isDraft ? (
+                    <input
+                      type="number"
+                      min={MeasureService.isWeighed(line) ? '0.001' : '1'}
+                      step={MeasureService.isWeighed(line) ? '0.001' : '1'}
+                      className="w-20 px-2 py-1 border rounded-lg text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                      value={line.quantityOrdered}
+                      onChange={e => updateLine(line.productId, { quantityOrdered: (MeasureService.isWeighed(line) ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0 })}
+                    />
+                  ) : MeasureService.format(line.quantityOrdered, line.unit)}
+                </td>
+                <td className={`px-6 py-3 text-right ${line.quantityReceived < line.quantityOrdered && !isDraft ? 'text-amber-600' : 'text-slate-600'}`}>
+                  {MeasureService.format(line.quantityReceived, line.unit)}
+                </td>
+                <td className="px-6 py-3 text-right">
+                  {isDraft ? (
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-24 px-2 py-1 border rounded-lg text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                      value={line.unitCost}
+                      onChange={e => updateLine(line.productId, { unitCost: parseFloat(e.target.value) || 0 })}
+                    />
+                  ) : `$${line.unitCost.toFixed(2)}`}
+                </td>
+                <td className="px-6 py-3 text-right font-medium text-slate-700">${(line.quantityOrdered * line.unitCost).toFixed(2)}</td>
+                {isDraft && (
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => setDraft(prev => ({ ...prev, lines: prev.lines.filter(l => l.productId !== line.productId) }))}
+                      className="p-2 text-slate-400 hover:text-red-600 transition"
+                    >
+                      <Trash size={18} />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {draft.lines.length === 0 && <div className="p-6 text-center text-slate-400">No lines yet.</div>}
+        {isDraft && (
+          <div className="px-6 py-4 border-t border-slate-100 flex gap-2">
+            <select
+              className="flex-1 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={productToAdd}
+              onChange={e => setProductToAdd(e.target.value)}
+            >
+              <option value="">Select a product to order...</option>
+              {VariantService.sellable(products).map(p => <option key={p.id} value={p.id}>{p.name} ({p.sku}) - {MeasureService.format(p.stock, p.unit)} on hand</option>)}
+            </select>
+            <button onClick={addLine} disabled={!productToAdd} className="px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 disabled:opacity-50 flex items-center gap-1">
+              <Plus size={16} /> Add Line
+            </button>
+          </div>
+        )}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-8 text-sm">
+          {!isDraft && <span className="text-slate-500">Received value: <span className="font-semibold text-slate-700">${PurchasingService.receivedValue(draft).toFixed(2)}</span></span>}
+          <span className="text-slate-500">Order total: <span className="font-bold text-slate-800">${PurchasingService.orderTotal(draft).toFixed(2)}</span></span>
+        </div>
+      </div>
+
+      {draft.receipts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+            <h3 className="font-semibold text-slate-700">Deliveries</h3>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {draft.receipts.map(receipt => (
+              <div key={receipt.id} className="px-6 py-3">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-slate-700">{new Date(receipt.receivedAt).toLocaleString()} &middot; {receipt.user}</span>
+                  <span className="font-mono text-xs text-slate-400">#{receipt.id.slice(0, 8)}</span>
+                </div>
+                {receipt.note && <div className="text-xs text-slate-500">{receipt.note}</div>}
+                <div className="text-xs text-slate-500 mt-1">
+                  {receipt.lines.map(l => `${l.quantity} x ${draft.lines.find(line => line.productId === l.productId)?.name || l.productId}`).join(', ')}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {receiving && (
+        <ReceiveGoodsModal order={draft} onReceive={handleReceive} onCancel={() => setReceiving(false)} />
+      )}
+    </div>
+  );
+};
\ No newline at end of file
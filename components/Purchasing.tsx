@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import { Product, PurchaseOrder, Supplier, Transaction } from '../types.ts';
+import { PurchasingService, PO_STATUS_LABELS } from '../services/purchasingService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { LotDetails } from '../services/inventoryService.ts';
+import { ReorderService, VELOCITY_WINDOW_DAYS } from '../services/reorderService.ts';
+import { PurchaseOrderDetail } from './PurchaseOrderDetail.tsx';
+import { Plus, Edit, Trash, Save, Truck, ClipboardList, TrendingDown } from 'lucide-react';
+
+interface PurchasingProps {
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  products: Product[];
+  transactions: Transaction[];
+  onSaveSupplier: (supplier: Supplier) => void;
+  onDeleteSupplier: (id: string) => void;
+  onSaveOrder: (order: PurchaseOrder) => void;
+  onDeleteOrder: (id: string) => void;
+  onReceive: (order: PurchaseOrder, quantities: Record<string, number>, lotDetails: Record<string, LotDetails>, note?: string) => PurchaseOrder;
+}
+
+export const Purchasing: React.FC<PurchasingProps> = ({ suppliers, purchaseOrders, products, transactions, onSaveSupplier, onDeleteSupplier, onSaveOrder, onDeleteOrder, onReceive }) => {
+  const [tab, setTab] = useState<'orders' | 'reorder' | 'suppliers'>('orders');
+  const [openOrderId, setOpenOrderId] = useState<string | null>(null);
+  const [newOrder, setNewOrder] = useState<PurchaseOrder | null>(null);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [reorderSupplierId, setReorderSupplierId] = useState('');
+  const [reorderQuantities, setReorderQuantities] = useState<Record<string, string>>({});
+
+  const suggestions = tab === 'reorder' ? ReorderService.suggestions(products, transactions, purchaseOrders) : [];
+
+  const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name || 'Unknown supplier';
+
+  const startOrder = () => {
+    if (suppliers.length === 0) {
+      alert("Add a supplier first.");
+      setTab('suppliers');
+      return;
+    }
+    setNewOrder(PurchasingService.createOrder(suppliers[0].id, purchaseOrders));
+  };
+
+  // Turn the suggestions being ordered into a draft for review; nothing is saved until it is
+  const draftFromSuggestions = () => {
+    const supplierId = reorderSupplierId || suppliers[0]?.id;
+    if (!supplierId) {
+      alert("Add a supplier first.");
+      setTab('suppliers');
+      return;
+    }
+    const lines = suggestions
+      .map(s => ({ product: s.product, quantity: Number(reorderQuantities[s.product.id] ?? s.suggestedQuantity) }))
+      .filter(l => MeasureService.fitsUnit(l.quantity, l.product.unit) && l.quantity > 0)
+      .map(({ product, quantity }) => ({
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        quantityOrdered: quantity,
+        quantityReceived: 0,
+        unitCost: PurchasingService.lastUnitCost(product.id, purchaseOrders),
+        unit: product.unit,
+      }));
+    if (lines.length === 0) {
+      alert("Enter a quantity for at least one product.");
+      return;
+    }
+    setNewOrder({ ...PurchasingService.createOrder(supplierId, purchaseOrders), lines });
+    setReorderQuantities({});
+  };
+
+  const handleDeleteOrder = (order: PurchaseOrder) => {
+    if (confirm(`Delete draft ${order.number}?`)) onDeleteOrder(order.id);
+  };
+
+  const handleSaveSupplier = () => {
+    if (!editingSupplier) return;
+    if (!editingSupplier.name.trim()) {
+      alert("Supplier name is required.");
+      return;
+    }
+    onSaveSupplier({ ...editingSupplier, name: editingSupplier.name.trim() });
+    setEditingSupplier(null);
+  };
+
+  const handleDeleteSupplier = (supplier: Supplier) => {
+    if (purchaseOrders.some(o => o.supplierId === supplier.id)) {
+      alert(`${supplier.name} has purchase orders and cannot be deleted.`);
+      return;
+    }
+    if (confirm(`Delete supplier ${supplier.name}?`)) onDeleteSupplier(supplier.id);
+  };
+
+  const openOrder = newOrder || purchaseOrders.find(o => o.id === openOrderId);
+  if (openOrder) {
+    return (
+      <PurchaseOrderDetail
+        key={openOrder.id}
+        order={openOrder}
+        suppliers={suppliers}
+        products={products}
+        onSave={order => {
+          onSaveOrder(order);
+          setNewOrder(null);
+          setOpenOrderId(order.id);
+        }}
+        onReceive={onReceive}
+        onBack={() => { setNewOrder(null); setOpenOrderId(null); }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Purchasing</h2>
+          <p className="text-slate-500">Order stock from suppliers and book in deliveries.</p>
+        </div>
+        {tab === 'reorder' ? (
+          <div className="flex gap-2">
+            <select
+              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={reorderSupplierId || suppliers[0]?.id || ''}
+              onChange={e => setReorderSupplierId(e.target.value)}
+            >
+              {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <button
+              onClick={draftFromSuggestions}
+              disabled={suggestions.length === 0}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition disabled:opacity-50"
+            >
+              <Plus size={18} /> Draft Purchase Order
+            </button>
+          </div>
+        ) : tab === 'orders' ? (
+          <button
+            onClick={startOrder}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+          >
+            <Plus size={18} /> New Purchase Order
+          </button>
+        ) : (
+          <button
+            onClick={() => setEditingSupplier({ id: crypto.randomUUID(), name: '' })}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+          >
+            <Plus size={18} /> Add Supplier
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setTab('orders')}
+          className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition ${tab === 'orders' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}
+        >
+          <ClipboardList size={16} /> Purchase Orders
+        </button>
+        <button
+          onClick={() => setTab('reorder')}
+          className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition ${tab === 'reorder' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}
+        >
+          <TrendingDown size={16} /> Reorder Suggestions
+        </button>
+        <button
+          onClick={() => setTab('suppliers')}
+          className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition ${tab === 'suppliers' ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}
+        >
+          <Truck size={16} /> Suppliers
+        </button>
+      </div>
+
+      {tab === 'orders' && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+              <tr>
+                <th className="px-6 py-4">PO</th>
+                <th className="px-6 py-4">Supplier</th>
+                <th className="px-6 py-4">Created</th>
+                <th className="px-6 py-4">Expected</th>
+                <th className="px-6 py-4 text-right">Total</th>
+                <th className="px-6 py-4">Status</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {purchaseOrders.map(order => (
+                <tr key={order.id} className="hover:bg-slate-50 transition cursor-pointer" onClick={() => setOpenOrderId(order.id)}>
+                  <td className="px-6 py-4 font-mono text-sm font-medium text-slate-700">{order.number}</td>
+                  <td className="px-6 py-4 text-slate-700">{supplierName(order.supplierId)}</td>
+                  <td className="px-6 py-4 text-sm text-slate-500">{new Date(order.createdAt).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 text-sm text-slate-500">{order.expectedDate || '-'}</td>
+                  <td className="px-6 py-4 text-right font-medium text-slate-700">${PurchasingService.orderTotal(order).toFixed(2)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-bold ${
+                      order.status === 'closed' ? 'text-slate-500 bg-slate-100'
+                        : order.status === 'draft' ? 'text-blue-600 bg-blue-50'
+                        : 'text-amber-700 bg-amber-50'
+                    }`}>
+                      {PO_STATUS_LABELS[order.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right" onClick={e => e.stopPropagation()}>
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setOpenOrderId(order.id)} className="p-2 text-slate-400 hover:text-blue-600 transition"><Edit size={18} /></button>
+                      {order.status === 'draft' && (
+                        <button onClick={() => handleDeleteOrder(order)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {purchaseOrders.length === 0 && (
+            <div className="p-8 text-center text-slate-400">No purchase orders yet.</div>
+          )}
+        </div>
+      )}
+
+      {tab === 'reorder' && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+              <tr>
+                <th className="px-6 py-4">Product</th>
+                <th className="px-6 py-4 text-right">On Hand</th>
+                <th className="px-6 py-4 text-right">On Order</th>
+                <th className="px-6 py-4 text-right">Reorder Level</th>
+                <th className="px-6 py-4 text-right">Sold / Day</th>
+                <th className="px-6 py-4 text-right">Days of Cover</th>
+                <th className="px-6 py-4 text-right">Order Qty</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {suggestions.map(s => (
+                <tr key={s.product.id} className="hover:bg-slate-50 transition">
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-slate-800">{s.product.name}</div>
+                    <div className="text-xs text-slate-500 font-mono">{s.product.sku}</div>
+                  </td>
+                  <td className={`px-6 py-4 text-right font-medium ${s.product.stock <= 0 ? 'text-red-600' : 'text-slate-700'}`}>{MeasureService.format(s.product.stock, s.product.unit)}</td>
+                  <td className="px-6 py-4 text-right text-slate-600">{s.onOrder}</td>
+                  <td className="px-6 py-4 text-right text-slate-600">
+                    {s.reorderLevel}
+                    {s.reorderLevel > ReorderService.reorderPoint(s.product) && (
+                      <div className="text-xs text-slate-400">point {ReorderService.reorderPoint(s.product)}, raised for {ReorderService.leadTimeDays(s.product)}d lead time</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right text-slate-600">{s.dailyVelocity.toFixed(1)}</td>
+                  <td className="px-6 py-4 text-right text-slate-600">{s.daysOfCover === null ? '-' : Math.floor(s.daysOfCover)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      className="w-24 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-right"
+                      value={reorderQuantities[s.product.id] ?? String(s.suggestedQuantity)}
+                      onChange={e => setReorderQuantities(prev => ({ ...prev, [s.product.id]: e.target.value }))}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {suggestions.length === 0 && (
+            <div className="p-8 text-center text-slate-400">Nothing is at or below its reorder level.</div>
+          )}
+          <div className="px-6 py-3 border-t border-slate-100 text-xs text-slate-400">
+            Velocity is net units sold over the last {VELOCITY_WINDOW_DAYS} days. Quantities cover the lead time plus another {VELOCITY_WINDOW_DAYS} days of sales; set 0 to leave a product off the order.
+          </div>
+        </div>
+      )}
+
+      {tab === 'suppliers' && (
+        <>
+          {editingSupplier && (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Supplier Name</label>
+                  <input
+                    type="text"
+                    autoFocus
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={editingSupplier.name}
+                    onChange={e => setEditingSupplier({ ...editingSupplier, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Contact</label>
+                  <input
+                    type="text"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={editingSupplier.contactName || ''}
+                    onChange={e => setEditingSupplier({ ...editingSupplier, contactName: e.target.value || undefined })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={editingSupplier.email || ''}
+                    onChange={e => setEditingSupplier({ ...editingSupplier, email: e.target.value || undefined })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Phone</label>
+                  <input
+                    type="text"
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={editingSupplier.phone || ''}
+                    onChange={e => setEditingSupplier({ ...editingSupplier, phone: e.target.value || undefined })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+                  <textarea
+                    rows={2}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={editingSupplier.notes || ''}
+                    onChange={e => setEditingSupplier({ ...editingSupplier, notes: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-4 mt-6">
+                <button onClick={() => setEditingSupplier(null)} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+                <button
+                  onClick={handleSaveSupplier}
+                  className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition flex items-center gap-2"
+                >
+                  <Save size={18} /> Save Supplier
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+                <tr>
+                  <th className="px-6 py-4">Name</th>
+                  <th className="px-6 py-4">Contact</th>
+                  <th className="px-6 py-4">Open Orders</th>
+                  <th className="px-6 py-4 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {suppliers.map(supplier => (
+                  <tr key={supplier.id} className="hover:bg-slate-50 transition">
+                    <td className="px-6 py-4 font-medium text-slate-800">{supplier.name}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">
+                      {supplier.contactName}
+                      <div className="text-xs text-slate-400">{[supplier.email, supplier.phone].filter(Boolean).join(' · ')}</div>
+                    </td>
+                    <td className="px-6 py-4 text-slate-600">
+                      {purchaseOrders.filter(o => o.supplierId === supplier.id && o.status !== 'closed').length}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditingSupplier({ ...supplier })} className="p-2 text-slate-400 hover:text-blue-600 transition"><Edit size={18} /></button>
+                        <button onClick={() => handleDeleteSupplier(supplier)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {suppliers.length === 0 && (
+              <div className="p-8 text-center text-slate-400">No suppliers yet. Add one to start ordering.</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { StoreSettings, Transaction } from '../types.ts';
+import { ReceiptService } from '../services/receiptService.ts';
+import { ReturnService } from '../services/returnService.ts';
+import { TenderService } from '../services/tenderService.ts';
+import { Printer, Receipt, CheckCircle } from 'lucide-react';
+
+interface ReceiptModalProps {
+  transaction: Transaction;
+  storeSettings: StoreSettings;
+  isReprint?: boolean;
+  onClose: () => void;
+}
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({ transaction, storeSettings, isReprint, onClose }) => {
+  const [printing, setPrinting] = useState(false);
+  const html = ReceiptService.renderHtml(transaction, storeSettings);
+  const isRefund = ReturnService.isRefund(transaction);
+  const change = TenderService.totalChange(transaction.payments);
+
+  const handleThermalPrint = async () => {
+    setPrinting(true);
+    try {
+      await ReceiptService.sendToThermalPrinter(
+        ReceiptService.renderEscPos(transaction, storeSettings),
+        `receipt-${transaction.id.slice(0, 8)}.bin`
+      );
+    } catch (e) {
+      alert(`Thermal printing failed: ${(e as Error).message}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[480px] max-h-[90vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-4">
+          <div className={`inline-flex p-3 rounded-full mb-2 ${isReprint ? 'bg-slate-100 text-slate-600' : 'bg-green-100 text-green-600'}`}>
+            {isReprint ? <Receipt size={24} /> : <CheckCircle size={24} />}
+          </div>
+          <h3 className="text-xl font-bold text-slate-800">{isReprint ? 'Reprint Receipt' : isRefund ? 'Refund Complete' : 'Transaction Complete'}</h3>
+          {isReprint ? (
+            <p className="text-slate-500">{isRefund ? 'Refund' : 'Order'} #{transaction.id.slice(0, 8)}</p>
+          ) : isRefund ? (
+            <p className="text-slate-500">Return ${(-transaction.total).toFixed(2)} to the customer</p>
+          ) : (
+            <p className="text-slate-500">Change due: <span className="font-bold text-slate-800">${change.toFixed(2)}</span></p>
+          )}
+        </div>
+
+        <iframe
+          title="Receipt preview"
+          srcDoc={html}
+          className="flex-1 min-h-[320px] w-full border border-slate-200 rounded-lg bg-white"
+        />
+
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <button
+            onClick={() => ReceiptService.printHtml(html)}
+            className="py-3 rounded-xl border border-slate-200 hover:bg-slate-50 font-semibold text-slate-700 flex items-center justify-center gap-2"
+          >
+            <Printer size={18} /> Print
+          </button>
+          <button
+            onClick={handleThermalPrint}
+            disabled={printing}
+            className="py-3 rounded-xl border border-slate-200 hover:bg-slate-50 font-semibold text-slate-700 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Receipt size={18} /> {printing ? 'Sending...' : 'Thermal Printer'}
+          </button>
+        </div>
+        <button onClick={onClose} className="mt-3 w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-all">Done</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
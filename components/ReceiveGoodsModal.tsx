@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { PurchaseOrder } from '../types.ts';
+import { PurchasingService } from '../services/purchasingService.ts';
+import { LotDetails } from '../services/inventoryService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { PackageCheck } from 'lucide-react';
+
+interface ReceiveGoodsModalProps {
+  order: PurchaseOrder;
+  onReceive: (quantities: Record<string, number>, lotDetails: Record<string, LotDetails>, note?: string) => void;
+  onCancel: () => void;
+}
+
+export const ReceiveGoodsModal: React.FC<ReceiveGoodsModalProps> = ({ order, onReceive, onCancel }) => {
+  const openLines = order.lines.filter(l => PurchasingService.outstanding(l) > 0);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [lotDetails, setLotDetails] = useState<Record<string, LotDetails>>({});
+  const [note, setNote] = useState('');
+
+  const receiveAll = () => {
+    setQuantities(Object.fromEntries(openLines.map(l => [l.productId, String(PurchasingService.outstanding(l))])));
+  };
+
+  const handleReceive = () => {
+    const parsed: Record<string, number> = {};
+    for (const line of openLines) {
+      const raw = quantities[line.productId];
+      if (!raw) continue;
+      const quantity = Number(raw);
+      if (!MeasureService.fitsUnit(quantity, line.unit) || quantity < 0) {
+        alert(`Received quantity for ${line.name} must be a ${MeasureService.isWeighed(line) ? 'non-negative weight' : 'whole number'}.`);
+        return;
+      }
+      parsed[line.productId] = quantity;
+    }
+    const details = Object.fromEntries(Object.keys(parsed).map(productId => [productId, {
+      code: lotDetails[productId]?.code?.trim() || undefined,
+      expiryDate: lotDetails[productId]?.expiryDate || undefined,
+    }]));
+    onReceive(parsed, details, note.trim() || undefined);
+  };
+
+  const updateLot = (productId: string, changes: LotDetails) => {
+    setLotDetails(prev => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[560px] max-h-[85vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-green-100 text-green-600 rounded-full mb-3"><PackageCheck size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Receive Goods</h3>
+          <p className="text-slate-500">{order.number} &middot; count what actually arrived</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {openLines.map(line => (
+            <div key={line.productId} className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+              <div className="flex items-center justify-between">
+                <div className="min-w-0 pr-2">
+                  <div className="font-medium text-slate-800 truncate">{line.name}</div>
+                  <div className="text-xs text-slate-500">
+                    {line.sku} &middot; {MeasureService.format(line.quantityReceived, line.unit)} of {MeasureService.format(line.quantityOrdered, line.unit)} received, {MeasureService.format(PurchasingService.outstanding(line), line.unit)} outstanding
+                  </div>
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  step={MeasureService.isWeighed(line) ? '0.001' : '1'}
+                  max={PurchasingService.outstanding(line)}
+                  className="w-24 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-right"
+                  value={quantities[line.productId] || ''}
+                  placeholder="0"
+                  onChange={e => setQuantities(prev => ({ ...prev, [line.productId]: e.target.value }))}
+                />
+              </div>
+              {Number(quantities[line.productId]) > 0 && (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <input
+                    type="text"
+                    className="px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                    value={lotDetails[line.productId]?.code || ''}
+                    placeholder="Lot / batch code"
+                    onChange={e => updateLot(line.productId, { code: e.target.value })}
+                  />
+                  <input
+                    type="date"
+                    title="Expiry date"
+                    className="px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                    value={lotDetails[line.productId]?.expiryDate || ''}
+                    onChange={e => updateLot(line.productId, { expiryDate: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Delivery Note</label>
+          <input
+            type="text"
+            className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Optional, e.g. supplier invoice or packing slip number"
+          />
+        </div>
+
+        <div className="flex justify-between gap-4 mt-8">
+          <button onClick={receiveAll} className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition text-sm font-medium">Receive All Outstanding</button>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+            <button
+              onClick={handleReceive}
+              className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition"
+            >
+              Book In
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -1,32 +1,115 @@
-import React, { useState, useMemo } from 'react';
-import { Product, CartItem, Transaction } from '../types.ts';
-import { Search, Plus, Minus, Trash2, CreditCard, Banknote, Smartphone, CheckCircle, ShoppingBag } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Product, CartItem, Transaction, PaymentLine, TaxSettings, Promotion, ManualDiscount, HeldCart, CartState, LotStock, Shift, Permission, StaffUser, AuditAction, Customer, LoyaltyEntry, LoyaltySettings, GiftCard, ScaleBarcodeSettings } from '../types.ts';
+import { TaxService } from '../services/taxService.ts';
+import { PromotionService } from '../services/promotionService.ts';
+import { BarcodeService } from '../services/barcodeService.ts';
+import { HeldCartService } from '../services/heldCartService.ts';
+import { InventoryService } from '../services/inventoryService.ts';
+import { ReorderService } from '../services/reorderService.ts';
+import { StorageService } from '../services/storageService.ts';
+import { LoyaltyService } from '../services/loyaltyService.ts';
+import { GiftCardService } from '../services/giftCardService.ts';
+import { VariantService } from '../services/variantService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { AuditInput } from '../services/auditService.ts';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner.ts';
+import { PaymentModal } from './PaymentModal.tsx';
+import { UnknownBarcodeModal } from './UnknownBarcodeModal.tsx';
+import { HeldCartsModal } from './HeldCartsModal.tsx';
+import { CustomerLookupModal } from './CustomerLookupModal.tsx';
+import { GiftCardSaleModal } from './GiftCardSaleModal.tsx';
+import { VariantPickerModal } from './VariantPickerModal.tsx';
+import { Search, Plus, Minus, Trash2, ShoppingBag, Tag, Ticket, X, PauseCircle, PlayCircle, Wallet, XCircle, Contact, Gift, Scale } from 'lucide-react';
 
 interface RegisterProps {
   products: Product[];
+  lotStock: LotStock[];
+  taxSettings: TaxSettings;
+  promotions: Promotion[];
   onCompleteTransaction: (transaction: Transaction) => void;
+  onAddProduct: (product: Product) => void;
+  shift: Shift | null;
+  onOpenShift: (openingFloat: number) => void;
+  onOpenDrawer: () => void;
+  onAuthorize: (permission: Permission, action: string) => Promise<StaffUser | null>;
+  onAudit: (action: AuditAction, summary: string, details?: Partial<AuditInput>) => void;
+  customers: Customer[];
+  onSaveCustomer: (customer: Customer) => void;
+  loyaltySettings: LoyaltySettings;
+  loyaltyLedger: LoyaltyEntry[];
+  giftCards: GiftCard[];
+  scaleSettings: ScaleBarcodeSettings;
 }
 
-export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransaction }) => {
+export const Register: React.FC<RegisterProps> = ({ products, lotStock, taxSettings, promotions, onCompleteTransaction, onAddProduct, shift, onOpenShift, onOpenDrawer, onAuthorize, onAudit, customers, onSaveCustomer, loyaltySettings, loyaltyLedger, giftCards, scaleSettings }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [cart, setCart] = useState<CartItem[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
+  const [taxExempt, setTaxExempt] = useState<{ reason: string } | null>(null);
+  const [cartDiscount, setCartDiscount] = useState<ManualDiscount | null>(null);
+  const [couponCodes, setCouponCodes] = useState<string[]>([]);
+  const [couponInput, setCouponInput] = useState('');
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [heldCartsOpen, setHeldCartsOpen] = useState(false);
+  const [cartLoaded, setCartLoaded] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [customerId, setCustomerId] = useState<string | undefined>();
+  const [customerLookupOpen, setCustomerLookupOpen] = useState(false);
+  const [giftCardSaleOpen, setGiftCardSaleOpen] = useState(false);
+  const [pickingVariantOf, setPickingVariantOf] = useState<Product | null>(null);
+  const [giftCardSale, setGiftCardSale] = useState<{ code: string; amount: number; isTopUp: boolean } | null>(null);
+  const customer = customers.find(c => c.id === customerId);
+  const pointsBalance = customer ? LoyaltyService.balance(customer.id, loyaltyLedger) : 0;
+
+  // Pick up the order that was in progress before navigating away, refreshed against the catalog
+  useEffect(() => {
+    Promise.all([StorageService.getActiveCart(), StorageService.getHeldCarts()]).then(([active, held]) => {
+      if (active) loadCart(HeldCartService.revalidate(active, products, promotions).cart);
+      setHeldCarts(held);
+      setCartLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (cartLoaded) StorageService.saveActiveCart({ items: cart, cartDiscount, couponCodes, taxExempt, customerId });
+  }, [cartLoaded, cart, cartDiscount, couponCodes, taxExempt, customerId]);
 
   const categories = useMemo(() => {
     const cats = Array.from(new Set(products.map(p => p.category)));
     return ['All', ...cats];
   }, [products]);
 
+  // Variants share their parent's tile, which also matches a search for any variant's SKU or barcode
+  const matchesSearch = (p: Product) => p.name.toLowerCase().includes(searchTerm.toLowerCase()) || p.sku.toLowerCase().includes(searchTerm.toLowerCase()) || p.barcode === searchTerm.trim();
   const filteredProducts = products.filter(p => {
-    const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase()) || p.sku.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = selectedCategory === 'All' || p.category === selectedCategory;
-    return matchesSearch && matchesCategory;
+    return !p.parentId && matchesCategory && (matchesSearch(p) || VariantService.variantsOf(p.id, products).some(matchesSearch));
   });
 
-  const addToCart = (product: Product) => {
-    // Check expiry
-    if (product.expiryDate && new Date(product.expiryDate) < new Date()) {
+  // Null when cancelled or not a usable weight
+  const promptWeight = (product: Product, current?: number): number | null => {
+    const input = prompt(`Weight of ${product.name} in ${product.unit}:`, current !== undefined ? String(current) : '');
+    if (input === null) return null;
+    const weight = MeasureService.roundQuantity(parseFloat(input));
+    if (!(weight > 0)) {
+      alert('Enter a weight greater than zero.');
+      return null;
+    }
+    return weight;
+  };
+
+  // Counted items go in one at a time; weighed items need a weight, from a scale label or typed in
+  const addToCart = (product: Product, quantity?: number) => {
+    if (VariantService.isParent(product)) {
+      setPickingVariantOf(product);
+      return;
+    }
+    // Check expiry. Fresh lots sell first, so only warn once the expired units are all that is left
+    const expired = InventoryService.expiredUnits(product.id, lotStock);
+    const inCart = cart.find(item => item.id === product.id)?.quantity || 0;
+    if (expired > 0 && product.stock - expired <= inCart) {
       alert("Warning: This product is expired!");
       // Allow adding but maybe warn? For this demo, we allow it with alert.
     }
@@ -34,22 +117,74 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
       alert("Out of stock!");
       return;
     }
+    const amount = quantity ?? (MeasureService.isWeighed(product) ? promptWeight(product) : 1);
+    if (amount === null) return;
 
     setCart(prev => {
       const existing = prev.find(item => item.id === product.id);
       if (existing) {
         // Don't add more than stock
-        if (existing.quantity >= product.stock) {
+        if (existing.quantity + amount > product.stock) {
           alert("Max stock reached in cart");
           return prev;
         }
-        return prev.map(item => item.id === product.id ? { ...item, quantity: item.quantity + 1 } : item);
+        return prev.map(item => item.id === product.id ? { ...item, quantity: MeasureService.roundQuantity(item.quantity + amount) } : item);
       }
-      return [...prev, { ...product, quantity: 1 }];
+      if (amount > product.stock) {
+        alert(`Only ${MeasureService.format(product.stock, product.unit)} in stock.`);
+        return prev;
+      }
+      return [...prev, { ...product, quantity: amount }];
     });
   };
 
+  const handleScan = (code: string) => {
+    // A scan while the search box has focus also typed the code into it
+    setSearchTerm(prev => prev.endsWith(code) ? prev.slice(0, -code.length) : prev);
+
+    const check = BarcodeService.validate(code);
+    if (!check.valid) {
+      alert(`Scan rejected: ${check.error}`);
+      return;
+    }
+    const product = BarcodeService.findProduct(code, products);
+    if (product) {
+      addToCart(product);
+      return;
+    }
+    // Scale labels change with every weighing, so they are looked up by the PLU inside them
+    const reading = MeasureService.decodeScaleBarcode(code, scaleSettings);
+    if (reading) {
+      const weighed = MeasureService.findByPlu(reading.plu, products);
+      if (!weighed) {
+        alert(`No product has scale PLU ${reading.plu}.`);
+        return;
+      }
+      const quantity = MeasureService.quantityFor(weighed, reading);
+      if (!MeasureService.fitsUnit(quantity, weighed.unit) || quantity <= 0) {
+        alert(`The scale label for ${weighed.name} doesn't match its price or unit.`);
+        return;
+      }
+      addToCart(weighed, quantity);
+      return;
+    }
+    setUnknownBarcode(code.trim());
+  };
+
+  useBarcodeScanner(handleScan, { enabled: !!shift && !paymentModalOpen && !unknownBarcode && !heldCartsOpen && !customerLookupOpen && !giftCardSaleOpen && !giftCardSale && !pickingVariantOf });
+
+  const handleCreateFromBarcode = (product: Product) => {
+    onAddProduct(product);
+    setUnknownBarcode(null);
+    addToCart(product);
+  };
+
   const updateQuantity = (id: string, delta: number) => {
+    const line = cart.find(i => i.id === id);
+    if (line && line.quantity + delta <= 0) {
+      removeFromCart(id);
+      return;
+    }
     setCart(prev => prev.map(item => {
       if (item.id === id) {
         const newQty = item.quantity + delta;
@@ -61,31 +196,243 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
     }).filter(item => item.quantity > 0));
   };
 
+  const editWeight = (item: CartItem) => {
+    const weight = promptWeight(item, item.quantity);
+    if (weight === null) return;
+    if (weight > item.stock) {
+      alert(`Only ${MeasureService.format(item.stock, item.unit)} in stock.`);
+      return;
+    }
+    setCart(prev => prev.map(i => i.id === item.id ? { ...i, quantity: weight } : i));
+  };
+
   const removeFromCart = (id: string) => {
+    const line = cart.find(i => i.id === id);
+    if (line) {
+      onAudit('line_voided', `Removed ${MeasureService.format(line.quantity, line.unit)} x ${line.name} from the order`, { entityId: line.id, before: { sku: line.sku, quantity: line.quantity, price: line.price } });
+    }
     setCart(prev => prev.filter(item => item.id !== id));
   };
 
+  const promptDiscount = (label: string, current?: ManualDiscount | null): ManualDiscount | null | undefined => {
+    const existing = current ? (current.type === 'percent' ? `${current.value}%` : current.value.toFixed(2)) : '';
+    const input = prompt(`Discount for ${label} (e.g. 10% or 2.50, blank to remove):`, existing);
+    if (input === null) return undefined;
+    try {
+      return PromotionService.parseManualDiscount(input);
+    } catch (e) {
+      alert((e as Error).message);
+      return undefined;
+    }
+  };
+
+  // Removing a discount never needs approval; giving one may
+  const approveDiscount = async (label: string, discount: ManualDiscount | null) => {
+    if (!discount) return true;
+    const amount = discount.type === 'percent' ? `${discount.value}%` : `$${discount.value.toFixed(2)}`;
+    return !!await onAuthorize('give_discounts', `Discount of ${amount} on ${label}`);
+  };
+
+  const editLineDiscount = async (item: CartItem) => {
+    const discount = promptDiscount(item.name, item.discount);
+    if (discount === undefined || !await approveDiscount(item.name, discount)) return;
+    setCart(prev => prev.map(i => i.id === item.id ? { ...i, discount: discount || undefined } : i));
+  };
+
+  const editCartDiscount = async () => {
+    const discount = promptDiscount('the whole order', cartDiscount);
+    if (discount === undefined || !await approveDiscount('the whole order', discount)) return;
+    setCartDiscount(discount);
+  };
+
+  const applyCoupon = () => {
+    if (!couponInput.trim()) return;
+    try {
+      const promotion = PromotionService.findCoupon(couponInput, promotions);
+      const code = promotion.couponCode!.toUpperCase();
+      if (!couponCodes.includes(code)) setCouponCodes(prev => [...prev, code]);
+      setCouponInput('');
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
   // Totals
-  const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const taxRate = 0.08; // 8% tax
-  const tax = subtotal * taxRate;
-  const total = subtotal + tax;
+  const pricing = PromotionService.priceCart(cart, promotions, { couponCodes, cartDiscount });
+  const totals = TaxService.calculate(
+    cart.map((item, idx) => ({ product: item, amount: MeasureService.lineAmount(item) - pricing.lineDiscounts[idx] })),
+    taxSettings,
+    !!taxExempt
+  );
+  const { subtotal, tax, total } = totals;
+
+  const toggleTaxExempt = () => {
+    if (taxExempt) {
+      setTaxExempt(null);
+      return;
+    }
+    const reason = prompt("Exemption certificate or reason:");
+    if (reason && reason.trim()) {
+      setTaxExempt({ reason: reason.trim() });
+    }
+  };
+
+  const loadCart = (state: CartState) => {
+    setCart(state.items);
+    setTaxExempt(state.taxExempt);
+    setCartDiscount(state.cartDiscount);
+    setCouponCodes(state.couponCodes);
+    setCustomerId(state.customerId);
+  };
+
+  const clearCart = () => loadCart({ items: [], cartDiscount: null, couponCodes: [], taxExempt: null });
+
+  const updateHeldCarts = (carts: HeldCart[]) => {
+    setHeldCarts(carts);
+    StorageService.saveHeldCarts(carts).catch(e => alert(`Could not save held carts: ${(e as Error).message}`));
+  };
+
+  const parkCurrentCart = (label: string): HeldCart => ({
+    id: crypto.randomUUID(),
+    label,
+    heldAt: new Date().toISOString(),
+    items: cart,
+    cartDiscount,
+    couponCodes,
+    taxExempt,
+    customerId,
+  });
+
+  const voidCart = () => {
+    if (cart.length === 0 || !confirm("Void this order? All items will be removed.")) return;
+    onAudit('cart_voided', `Voided an order of ${cart.reduce((sum, i) => sum + i.quantity, 0)} item(s) worth $${total.toFixed(2)}`, {
+      before: { items: cart.map(i => `${i.quantity} x ${i.sku}`), total },
+    });
+    clearCart();
+  };
+
+  const discardHeldCart = (id: string) => {
+    const held = heldCarts.find(c => c.id === id);
+    if (held) {
+      onAudit('cart_voided', `Discarded held cart "${held.label}"`, { entityId: held.id, before: { items: held.items.map(i => `${i.quantity} x ${i.sku}`) } });
+    }
+    updateHeldCarts(heldCarts.filter(c => c.id !== id));
+  };
+
+  const holdCart = () => {
+    if (cart.length === 0) return;
+    const label = prompt("Label for the held cart (e.g. customer name):", customer?.name || HeldCartService.defaultLabel());
+    if (label === null) return;
+    updateHeldCarts([parkCurrentCart(label.trim() || HeldCartService.defaultLabel()), ...heldCarts]);
+    clearCart();
+  };
 
-  const handleCheckout = (method: 'cash' | 'card' | 'digital') => {
+  const recallCart = (held: HeldCart) => {
+    let remaining = heldCarts.filter(c => c.id !== held.id);
+    if (cart.length > 0) {
+      if (!confirm("The current order will be put on hold so this cart can be recalled. Continue?")) return;
+      remaining = [parkCurrentCart(HeldCartService.defaultLabel()), ...remaining];
+    }
+    const { cart: refreshed, changes } = HeldCartService.revalidate(held, products, promotions);
+    updateHeldCarts(remaining);
+    loadCart(refreshed);
+    setHeldCartsOpen(false);
+    if (changes.length > 0) {
+      alert(`"${held.label}" changed while it was on hold:\n\n${changes.join('\n')}`);
+    }
+  };
+
+  const handleCheckout = (payments: PaymentLine[]) => {
+    // Only members earn, so anonymous sales skip the points entirely
+    const items = TaxService.applyToItems(cart, totals, pricing.lineDiscounts);
+    const loyalty = customer ? LoyaltyService.forSale(items, payments, loyaltySettings) : { items, loyalty: undefined };
     const transaction: Transaction = {
       id: crypto.randomUUID(),
       date: new Date().toISOString(),
-      items: [...cart],
+      items: loyalty.items,
+      discounts: pricing.discounts,
+      discountTotal: pricing.discountTotal,
       subtotal,
       tax,
+      taxBreakdown: totals.taxBreakdown,
+      taxExempt: taxExempt || undefined,
       total,
-      paymentMethod: method,
+      payments,
+      customerId,
+      loyalty: loyalty.loyalty,
     };
     onCompleteTransaction(transaction);
-    setCart([]);
+    clearCart();
     setPaymentModalOpen(false);
   };
 
+  // Gift cards are sold on their own so promotions, tax and points never touch them
+  const handleGiftCardCheckout = (payments: PaymentLine[]) => {
+    if (!giftCardSale) return;
+    const { code, amount, isTopUp } = giftCardSale;
+    onCompleteTransaction({
+      id: crypto.randomUUID(),
+      date: new Date().toISOString(),
+      items: [GiftCardService.saleItem(code, amount, isTopUp)],
+      discounts: [],
+      discountTotal: 0,
+      subtotal: amount,
+      tax: 0,
+      taxBreakdown: [],
+      total: amount,
+      payments,
+      customerId,
+    });
+    setGiftCardSale(null);
+  };
+
+  const attachCustomer = (selected: Customer) => {
+    setCustomerId(selected.id);
+    setCustomerLookupOpen(false);
+  };
+
+  const createCustomer = (created: Customer) => {
+    onSaveCustomer(created);
+    attachCustomer(created);
+  };
+
+  const handleOpenShift = () => {
+    const amount = parseFloat(openingFloat);
+    if (openingFloat.trim() === '' || isNaN(amount) || amount < 0) {
+      alert("Enter the cash float placed in the drawer, or 0.");
+      return;
+    }
+    onOpenShift(amount);
+    setOpeningFloat('');
+  };
+
+  // Every sale belongs to a shift, so nothing can be rung up until one is open
+  if (!shift) {
+    return (
+      <div className="flex h-[calc(100vh-6rem)] items-center justify-center">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 w-[400px] text-center">
+          <div className="inline-flex p-3 bg-blue-100 text-blue-600 rounded-full mb-3"><Wallet size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Open a Shift</h3>
+          <p className="text-slate-500 mb-6">Count the starting cash into the drawer.</p>
+          <label className="block text-sm font-medium text-slate-700 mb-1 text-left">Opening Float ($)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            autoFocus
+            className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-lg mb-4"
+            value={openingFloat}
+            onChange={e => setOpeningFloat(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleOpenShift()}
+          />
+          <button onClick={handleOpenShift} className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-all">
+            Open Shift
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-[calc(100vh-6rem)] gap-6">
       {/* Product Selection Area */}
@@ -96,7 +443,7 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
             <input 
               type="text" 
-              placeholder="Search product by name or SKU..." 
+              placeholder="Search by name or SKU, or scan a barcode..." 
               className="w-full pl-10 pr-4 py-2 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
@@ -115,9 +462,14 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
         <div className="flex-1 overflow-y-auto p-4 bg-slate-50/50">
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {filteredProducts.map(product => {
-              const isExpired = product.expiryDate && new Date(product.expiryDate) < new Date();
-              const isLowStock = product.stock > 0 && product.stock < 5;
-              const isOutOfStock = product.stock === 0;
+              const variants = VariantService.variantsOf(product.id, products);
+              const stocked = variants.length > 0 ? variants : [product];
+              const expiredUnits = stocked.reduce((sum, p) => sum + InventoryService.expiredUnits(p.id, lotStock), 0);
+              const isExpired = expiredUnits > 0;
+              const stock = VariantService.stockOf(product, products);
+              const isLowStock = stock > 0 && stocked.some(ReorderService.isLowStock);
+              const isOutOfStock = stock <= 0;
+              const fromPrice = Math.min(...stocked.map(p => p.price));
 
               return (
                 <button 
@@ -131,14 +483,18 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
                 >
                   <div className="flex justify-between items-start w-full mb-2">
                      <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{product.sku}</span>
-                     {isExpired && <span className="text-[10px] bg-red-100 text-red-600 px-1.5 py-0.5 rounded font-bold">EXP</span>}
+                     {isExpired && <span className="text-[10px] bg-red-100 text-red-600 px-1.5 py-0.5 rounded font-bold" title={`${expiredUnits} expired on hand`}>EXP {expiredUnits}</span>}
                   </div>
                   
                   <h3 className="font-semibold text-slate-800 line-clamp-2 h-10 mb-1">{product.name}</h3>
                   <div className="mt-auto flex justify-between items-end w-full">
-                    <span className="text-lg font-bold text-blue-600">${product.price.toFixed(2)}</span>
+                    <span className="text-lg font-bold text-blue-600">
+                      {variants.some(v => v.price !== fromPrice) && <span className="text-xs font-medium text-slate-400 mr-1">from</span>}
+                      ${fromPrice.toFixed(2)}
+                      {MeasureService.isWeighed(product) && <span className="text-xs font-medium text-slate-400">{MeasureService.priceSuffix(product.unit)}</span>}
+                    </span>
                     <span className={`text-xs font-medium px-2 py-1 rounded ${isLowStock ? 'bg-yellow-100 text-yellow-700' : 'bg-slate-100 text-slate-600'}`}>
-                      {isOutOfStock ? '0 Left' : `${product.stock} Left`}
+                      {isOutOfStock ? '0 Left' : `${MeasureService.format(stock, product.unit)} Left`}
                     </span>
                   </div>
                 </button>
@@ -158,7 +514,67 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
       <div className="w-96 bg-white rounded-2xl shadow-xl border border-slate-200 flex flex-col overflow-hidden">
         <div className="p-4 bg-slate-800 text-white flex justify-between items-center">
           <h2 className="font-semibold text-lg">Current Order</h2>
-          <span className="bg-slate-700 px-2 py-1 rounded text-xs text-slate-300">{cart.length} items</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onOpenDrawer}
+              className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700 text-xs text-slate-300"
+              title="Cash drawer and shift"
+            >
+              <Wallet size={16} /> #{shift.number}
+            </button>
+            <button
+              onClick={() => setGiftCardSaleOpen(true)}
+              className="p-1.5 rounded hover:bg-slate-700"
+              title="Sell gift card"
+            >
+              <Gift size={18} />
+            </button>
+            <button
+              onClick={voidCart}
+              disabled={cart.length === 0}
+              className="p-1.5 rounded hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Void order"
+            >
+              <XCircle size={18} />
+            </button>
+            <button
+              onClick={holdCart}
+              disabled={cart.length === 0}
+              className="p-1.5 rounded hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Hold cart"
+            >
+              <PauseCircle size={18} />
+            </button>
+            <button
+              onClick={() => setHeldCartsOpen(true)}
+              className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700 text-xs text-slate-300"
+              title="Recall held cart"
+            >
+              <PlayCircle size={16} /> {heldCarts.length}
+            </button>
+            <span className="bg-slate-700 px-2 py-1 rounded text-xs text-slate-300">{cart.length} items</span>
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-b border-slate-100 bg-slate-50/50">
+          {customer ? (
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 min-w-0">
+                <Contact size={16} className="text-blue-600 shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-slate-800 truncate">{customer.name}</div>
+                  <div className="text-xs text-slate-500 truncate">
+                    {[customer.phone || customer.email, loyaltySettings.enabled && `${pointsBalance} pts`].filter(Boolean).join(' · ')}
+                  </div>
+                </div>
+              </div>
+              <button onClick={() => setCustomerId(undefined)} className="p-1 text-slate-400 hover:text-red-600" title="Remove customer"><X size={16} /></button>
+            </div>
+          ) : (
+            <button onClick={() => setCustomerLookupOpen(true)} className="w-full flex items-center gap-2 text-sm text-slate-500 hover:text-blue-600 py-1">
+              <Contact size={16} /> Add customer
+            </button>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -171,20 +587,35 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
               <p className="text-xs text-slate-400 text-center px-8">Select products from the grid to begin a transaction.</p>
             </div>
           ) : (
-            cart.map(item => (
+            cart.map((item, idx) => (
               <div key={item.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-100">
                 <div className="flex-1 min-w-0 pr-2">
                   <h4 className="font-medium text-slate-800 truncate">{item.name}</h4>
-                  <div className="text-xs text-slate-500">${item.price.toFixed(2)} / unit</div>
+                  <div className="text-xs text-slate-500">${item.price.toFixed(2)} {MeasureService.isWeighed(item) ? `/ ${item.unit}` : '/ unit'}</div>
+                  {pricing.lineDiscounts[idx] > 0 && (
+                    <div className="text-xs text-green-600 font-medium">
+                      {pricing.lineLabels[idx].join(', ') || 'Order discount'}
+                    </div>
+                  )}
                 </div>
                 
                 <div className="flex items-center gap-3">
-                  <div className="flex items-center gap-1 bg-white rounded border border-slate-200">
-                    <button onClick={() => updateQuantity(item.id, -1)} className="p-1 hover:bg-slate-100 text-slate-600"><Minus size={14} /></button>
-                    <span className="w-6 text-center text-sm font-medium">{item.quantity}</span>
-                    <button onClick={() => updateQuantity(item.id, 1)} className="p-1 hover:bg-slate-100 text-slate-600"><Plus size={14} /></button>
+                  {MeasureService.isWeighed(item) ? (
+                    <button onClick={() => editWeight(item)} className="flex items-center gap-1 px-2 py-1 bg-white rounded border border-slate-200 hover:bg-slate-100 text-sm font-medium text-slate-700" title="Change weight">
+                      <Scale size={14} className="text-slate-400" /> {MeasureService.format(item.quantity, item.unit)}
+                    </button>
+                  ) : (
+                    <div className="flex items-center gap-1 bg-white rounded border border-slate-200">
+                      <button onClick={() => updateQuantity(item.id, -1)} className="p-1 hover:bg-slate-100 text-slate-600"><Minus size={14} /></button>
+                      <span className="w-6 text-center text-sm font-medium">{item.quantity}</span>
+                      <button onClick={() => updateQuantity(item.id, 1)} className="p-1 hover:bg-slate-100 text-slate-600"><Plus size={14} /></button>
+                    </div>
+                  )}
+                  <div className="w-16 text-right">
+                    {pricing.lineDiscounts[idx] > 0 && <div className="text-xs text-slate-400 line-through">${MeasureService.lineAmount(item).toFixed(2)}</div>}
+                    <div className="font-semibold">${(MeasureService.lineAmount(item) - pricing.lineDiscounts[idx]).toFixed(2)}</div>
                   </div>
-                  <div className="font-semibold w-16 text-right">${(item.price * item.quantity).toFixed(2)}</div>
+                  <button onClick={() => editLineDiscount(item)} className={`p-1 ${item.discount ? 'text-green-600' : 'text-slate-400 hover:text-green-600'}`} title="Line discount"><Tag size={16} /></button>
                   <button onClick={() => removeFromCart(item.id)} className="text-red-400 hover:text-red-600 p-1"><Trash2 size={16} /></button>
                 </div>
               </div>
@@ -194,14 +625,67 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
 
         {/* Totals Section */}
         <div className="p-6 bg-slate-50 border-t border-slate-200 space-y-3">
-          <div className="flex justify-between text-sm text-slate-600">
-            <span>Subtotal</span>
-            <span>${subtotal.toFixed(2)}</span>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Ticket className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+              <input
+                type="text"
+                placeholder="Coupon code"
+                className="w-full pl-7 pr-2 py-1.5 text-sm rounded-lg border border-slate-300 uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={couponInput}
+                onChange={e => setCouponInput(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && applyCoupon()}
+              />
+            </div>
+            <button onClick={applyCoupon} className="px-3 text-xs font-semibold rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300">Apply</button>
+            <button onClick={editCartDiscount} className="px-3 text-xs font-semibold rounded-lg bg-slate-200 text-slate-700 hover:bg-slate-300 flex items-center gap-1"><Tag size={12} /> Order</button>
           </div>
+          {couponCodes.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {couponCodes.map(code => (
+                <span key={code} className="text-xs bg-green-50 text-green-700 border border-green-200 rounded-full px-2 py-0.5 flex items-center gap-1">
+                  {code}
+                  <button onClick={() => setCouponCodes(prev => prev.filter(c => c !== code))}><X size={10} /></button>
+                </span>
+              ))}
+            </div>
+          )}
+          {pricing.discountTotal > 0 && (
+            <>
+              <div className="flex justify-between text-sm text-slate-600">
+                <span>Items</span>
+                <span>${pricing.gross.toFixed(2)}</span>
+              </div>
+              {pricing.discounts.map(d => (
+                <div key={d.id} className="flex justify-between text-sm text-green-600">
+                  <span>{d.label}</span>
+                  <span>-${d.amount.toFixed(2)}</span>
+                </div>
+              ))}
+            </>
+          )}
           <div className="flex justify-between text-sm text-slate-600">
-            <span>Tax (8%)</span>
-            <span>${tax.toFixed(2)}</span>
+            <span>Subtotal{taxSettings.pricesIncludeTax ? ' (excl. tax)' : ''}</span>
+            <span>${subtotal.toFixed(2)}</span>
           </div>
+          {totals.taxBreakdown.map(line => (
+            <div key={line.rateId} className="flex justify-between text-sm text-slate-600">
+              <span>{line.name} ({TaxService.formatRate(line.rate)})</span>
+              <span>${line.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          {totals.taxBreakdown.length > 1 && (
+            <div className="flex justify-between text-sm text-slate-600">
+              <span>Total Tax</span>
+              <span>${tax.toFixed(2)}</span>
+            </div>
+          )}
+          <button
+            onClick={toggleTaxExempt}
+            className={`w-full text-xs font-semibold py-1.5 rounded-lg border transition ${taxExempt ? 'bg-amber-50 border-amber-200 text-amber-700' : 'border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+          >
+            {taxExempt ? `Tax Exempt: ${taxExempt.reason} (remove)` : 'Mark Customer Tax Exempt'}
+          </button>
           <div className="flex justify-between text-xl font-bold text-slate-900 pt-2 border-t border-slate-200">
             <span>Total</span>
             <span>${total.toFixed(2)}</span>
@@ -217,45 +701,66 @@ export const Register: React.FC<RegisterProps> = ({ products, onCompleteTransact
         </div>
       </div>
 
-      {/* Simple Modal for Payment */}
-      {paymentModalOpen && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-          <div className="bg-white rounded-2xl p-8 w-[400px] shadow-2xl animate-fade-in-up">
-            <h3 className="text-xl font-bold mb-6 text-center">Select Payment Method</h3>
-            <div className="text-center mb-8">
-              <span className="text-4xl font-bold text-blue-600">${total.toFixed(2)}</span>
-              <p className="text-slate-500 mt-1">Total Amount Due</p>
-            </div>
-            
-            <div className="space-y-3">
-              <button onClick={() => handleCheckout('cash')} className="w-full p-4 border border-slate-200 rounded-xl hover:bg-green-50 hover:border-green-200 flex items-center gap-4 transition-colors group">
-                <div className="p-3 bg-green-100 text-green-600 rounded-lg group-hover:bg-green-200"><Banknote size={24} /></div>
-                <div className="text-left">
-                  <div className="font-semibold text-slate-800">Cash</div>
-                  <div className="text-xs text-slate-500">Accept physical currency</div>
-                </div>
-              </button>
+      {unknownBarcode && (
+        <UnknownBarcodeModal
+          barcode={unknownBarcode}
+          categories={categories.filter(c => c !== 'All')}
+          onCreate={handleCreateFromBarcode}
+          onCancel={() => setUnknownBarcode(null)}
+        />
+      )}
 
-              <button onClick={() => handleCheckout('card')} className="w-full p-4 border border-slate-200 rounded-xl hover:bg-blue-50 hover:border-blue-200 flex items-center gap-4 transition-colors group">
-                <div className="p-3 bg-blue-100 text-blue-600 rounded-lg group-hover:bg-blue-200"><CreditCard size={24} /></div>
-                <div className="text-left">
-                  <div className="font-semibold text-slate-800">Credit/Debit Card</div>
-                  <div className="text-xs text-slate-500">Processing via terminal</div>
-                </div>
-              </button>
+      {heldCartsOpen && (
+        <HeldCartsModal
+          heldCarts={heldCarts}
+          onRecall={recallCart}
+          onDelete={discardHeldCart}
+          onClose={() => setHeldCartsOpen(false)}
+        />
+      )}
 
-              <button onClick={() => handleCheckout('digital')} className="w-full p-4 border border-slate-200 rounded-xl hover:bg-purple-50 hover:border-purple-200 flex items-center gap-4 transition-colors group">
-                <div className="p-3 bg-purple-100 text-purple-600 rounded-lg group-hover:bg-purple-200"><Smartphone size={24} /></div>
-                <div className="text-left">
-                  <div className="font-semibold text-slate-800">Digital Wallet</div>
-                  <div className="text-xs text-slate-500">Apple Pay, Google Pay</div>
-                </div>
-              </button>
-            </div>
+      {customerLookupOpen && (
+        <CustomerLookupModal
+          customers={customers}
+          onSelect={attachCustomer}
+          onCreate={createCustomer}
+          onClose={() => setCustomerLookupOpen(false)}
+        />
+      )}
 
-            <button onClick={() => setPaymentModalOpen(false)} className="mt-6 w-full py-2 text-slate-500 hover:text-slate-800">Cancel</button>
-          </div>
-        </div>
+      {pickingVariantOf && (
+        <VariantPickerModal
+          parent={pickingVariantOf}
+          variants={VariantService.variantsOf(pickingVariantOf.id, products)}
+          onSelect={variant => { addToCart(variant); setPickingVariantOf(null); }}
+          onCancel={() => setPickingVariantOf(null)}
+        />
+      )}
+
+      {giftCardSaleOpen && (
+        <GiftCardSaleModal
+          giftCards={giftCards}
+          onConfirm={sale => { setGiftCardSale(sale); setGiftCardSaleOpen(false); }}
+          onCancel={() => setGiftCardSaleOpen(false)}
+        />
+      )}
+
+      {giftCardSale && (
+        <PaymentModal
+          total={giftCardSale.amount}
+          onComplete={handleGiftCardCheckout}
+          onCancel={() => setGiftCardSale(null)}
+        />
+      )}
+
+      {paymentModalOpen && (
+        <PaymentModal
+          total={total}
+          loyalty={customer && loyaltySettings.enabled ? { balance: pointsBalance, settings: loyaltySettings } : undefined}
+          giftCards={giftCards}
+          onComplete={handleCheckout}
+          onCancel={() => setPaymentModalOpen(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types.ts';
+import { ReturnService, ReturnLineRequest } from '../services/returnService.ts';
+import { PAYMENT_METHOD_LABELS } from '../services/tenderService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { Undo2, AlertCircle } from 'lucide-react';
+
+interface ReturnModalProps {
+  original: Transaction;
+  transactions: Transaction[];
+  onConfirm: (refund: Transaction) => void;
+  onCancel: () => void;
+}
+
+export const ReturnModal: React.FC<ReturnModalProps> = ({ original, transactions, onConfirm, onCancel }) => {
+  const [lines, setLines] = useState<ReturnLineRequest[]>(
+    original.items.map(i => ({ productId: i.id, quantity: 0, restock: true }))
+  );
+  const [toStoreCredit, setToStoreCredit] = useState(false);
+
+  const returnable = useMemo(() => {
+    const map: Record<string, number> = {};
+    original.items.forEach(i => { map[i.id] = ReturnService.getReturnableQuantity(original, i.id, transactions); });
+    return map;
+  }, [original, transactions]);
+
+  const updateLine = (productId: string, changes: Partial<ReturnLineRequest>) => {
+    setLines(prev => prev.map(l => l.productId === productId ? { ...l, ...changes } : l));
+  };
+
+  const returnAll = () => {
+    setLines(prev => prev.map(l => ({ ...l, quantity: returnable[l.productId] })));
+  };
+
+  // Build the refund live so the cashier sees exactly what will be paid back
+  let preview: Transaction | null = null;
+  let error: string | null = null;
+  if (lines.some(l => l.quantity > 0)) {
+    try {
+      preview = ReturnService.buildRefund(original, lines, transactions, toStoreCredit);
+    } catch (e) {
+      error = (e as Error).message;
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[560px] max-h-[90vh] overflow-y-auto shadow-2xl animate-fade-in-up">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Undo2 size={20} /> Return Items</h3>
+            <p className="text-sm text-slate-500">Order #{original.id.slice(0, 8)} · {new Date(original.date).toLocaleString()}</p>
+          </div>
+          <button onClick={returnAll} className="text-sm px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 font-medium">Return All</button>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="pb-2 font-medium">Item</th>
+              <th className="pb-2 font-medium text-center">Returnable</th>
+              <th className="pb-2 font-medium text-center">Return Qty</th>
+              <th className="pb-2 font-medium text-center">Restock</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700">
+            {original.items.map(item => {
+              const line = lines.find(l => l.productId === item.id)!;
+              return (
+                <tr key={item.id} className="border-t border-slate-100">
+                  <td className="py-2">
+                    <div className="font-medium">{item.name}</div>
+                    <div className="text-xs text-slate-400">${item.price.toFixed(2)} {MeasureService.isWeighed(item) ? `/ ${item.unit}` : '/ unit'}</div>
+                  </td>
+                  <td className="py-2 text-center">{MeasureService.format(returnable[item.id], item.unit)} of {MeasureService.format(item.quantity, item.unit)}</td>
+                  <td className="py-2 text-center">
+                    <input
+                      type="number"
+                      min="0"
+                      step={MeasureService.isWeighed(item) ? '0.001' : '1'}
+                      max={returnable[item.id]}
+                      disabled={returnable[item.id] === 0}
+                      className="w-16 px-2 py-1 border rounded text-center disabled:bg-slate-50"
+                      value={line.quantity}
+                      onChange={e => updateLine(item.id, { quantity: Math.min(returnable[item.id], Math.max(0, (MeasureService.isWeighed(item) ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0)) })}
+                    />
+                  </td>
+                  <td className="py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={line.restock}
+                      onChange={e => updateLine(item.id, { restock: e.target.checked })}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <label className="mt-6 flex items-center gap-3 text-sm text-slate-700">
+          <input type="checkbox" checked={toStoreCredit} onChange={e => setToStoreCredit(e.target.checked)} />
+          Refund as store credit instead of to the original payment
+        </label>
+
+        {preview && (
+          <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-100 space-y-1 text-sm">
+            <div className="flex justify-between text-slate-600"><span>Subtotal</span><span>${(-preview.subtotal).toFixed(2)}</span></div>
+            <div className="flex justify-between text-slate-600"><span>Tax</span><span>${(-preview.tax).toFixed(2)}</span></div>
+            <div className="flex justify-between font-bold text-slate-900 pt-2 border-t border-slate-200"><span>Refund Total</span><span>${(-preview.total).toFixed(2)}</span></div>
+            {preview.payments.map((p, idx) => (
+              <div key={idx} className="flex justify-between text-xs text-slate-500 uppercase font-semibold">
+                <span>{p.method === 'gift_card' && !p.giftCardCode ? 'To new store credit' : `To ${PAYMENT_METHOD_LABELS[p.method]}`}</span><span>${(-p.amount).toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {error && (
+          <p className="mt-4 text-sm text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {error}</p>
+        )}
+
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={onCancel} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+          <button
+            disabled={!preview}
+            onClick={() => preview && onConfirm(preview)}
+            className="px-6 py-2 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:bg-slate-300 disabled:cursor-not-allowed shadow-lg shadow-red-200 transition"
+          >
+            Process Refund
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Transaction } from '../types.ts';
+import { SalesExportService } from '../services/salesExportService.ts';
+import { FileService } from '../services/fileService.ts';
+import { ReturnService } from '../services/returnService.ts';
+import { FileDown } from 'lucide-react';
+
+interface SalesExportModalProps {
+  transactions: Transaction[];
+  onClose: () => void;
+}
+
+type ExportFormat = 'transactions' | 'line_items' | 'json' | 'journal';
+
+const FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'transactions', label: 'Transactions (CSV)', description: 'One row per sale or refund with totals and tenders.' },
+  { id: 'line_items', label: 'Line Items (CSV)', description: 'One row per item sold or refunded.' },
+  { id: 'json', label: 'Full Detail (JSON)', description: 'Complete transaction records, for other systems.' },
+  { id: 'journal', label: 'Daily Journal (CSV)', description: 'Balanced debit/credit entries per day: tenders, revenue by category and tax.' },
+];
+
+const toDateInput = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const SalesExportModal: React.FC<SalesExportModalProps> = ({ transactions, onClose }) => {
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+  const [format, setFormat] = useState<ExportFormat>('transactions');
+
+  const selected = from && to && from <= to ? SalesExportService.inRange(transactions, from, to) : [];
+  const refunds = selected.filter(ReturnService.isRefund).length;
+
+  const handleExport = () => {
+    if (!from || !to || from > to) {
+      alert("Choose a start date on or before the end date.");
+      return;
+    }
+    const range = `${from}_to_${to}`;
+    switch (format) {
+      case 'transactions':
+        FileService.download(`transactions-${range}.csv`, SalesExportService.transactionsCsv(selected), 'text/csv');
+        break;
+      case 'line_items':
+        FileService.download(`line-items-${range}.csv`, SalesExportService.lineItemsCsv(selected), 'text/csv');
+        break;
+      case 'json':
+        FileService.download(`transactions-${range}.json`, SalesExportService.json(selected, from, to), 'application/json');
+        break;
+      case 'journal':
+        FileService.download(`journal-${range}.csv`, SalesExportService.journalCsv(SalesExportService.journal(selected)), 'text/csv');
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[480px] shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-blue-100 text-blue-600 rounded-full mb-3"><FileDown size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Export Sales</h3>
+          <p className="text-slate-500">
+            {selected.length} transaction(s){refunds > 0 ? `, including ${refunds} refund(s)` : ''}
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">From</label>
+              <input
+                type="date"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={from}
+                onChange={e => setFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">To</label>
+              <input
+                type="date"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={to}
+                onChange={e => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {FORMATS.map(f => (
+              <label
+                key={f.id}
+                className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition ${format === f.id ? 'bg-blue-50 border-blue-300' : 'border-slate-200 hover:bg-slate-50'}`}
+              >
+                <input type="radio" name="export-format" className="mt-1" checked={format === f.id} onChange={() => setFormat(f.id)} />
+                <div>
+                  <div className="font-medium text-slate-800">{f.label}</div>
+                  <div className="text-xs text-slate-500">{f.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={onClose} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Close</button>
+          <button
+            onClick={handleExport}
+            disabled={selected.length === 0}
+            className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition flex items-center gap-2 disabled:opacity-50"
+          >
+            <FileDown size={18} /> Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
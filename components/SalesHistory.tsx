@@ -1,12 +1,71 @@
-import React from 'react';
-import { Transaction } from '../types.ts';
-import { Clock, CreditCard, Banknote, Smartphone } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Transaction, PaymentMethod, Customer } from '../types.ts';
+import { TenderService, PAYMENT_METHOD_LABELS } from '../services/tenderService.ts';
+import { ReturnService } from '../services/returnService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { TaxService } from '../services/taxService.ts';
+import { ReturnModal } from './ReturnModal.tsx';
+import { SalesExportModal } from './SalesExportModal.tsx';
+import { TransactionFilter, TransactionSearchService } from '../services/transactionSearchService.ts';
+import { Clock, CreditCard, Banknote, Smartphone, Undo2, Printer, FileDown, ChevronDown, ChevronRight, Search, X, Award, Gift } from 'lucide-react';
 
-export const SalesHistory: React.FC<{ transactions: Transaction[] }> = ({ transactions }) => {
-  const getIcon = (method: string) => {
+interface SalesHistoryProps {
+  transactions: Transaction[];
+  customers: Customer[];
+  onRefund: (refund: Transaction) => void;
+  onReprint: (transaction: Transaction) => void;
+}
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const PAGE_SIZE = 25;
+
+// Filter inputs as typed; amounts are parsed when the filter is applied
+const EMPTY_FILTERS = { from: '', to: '', method: '', minTotal: '', maxTotal: '', product: '', orderNumber: '' };
+
+export const SalesHistory: React.FC<SalesHistoryProps> = ({ transactions, customers, onRefund, onReprint }) => {
+  const [returningSale, setReturningSale] = useState<Transaction | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const filter = useMemo((): TransactionFilter => {
+    const amount = (text: string) => text === '' || isNaN(parseFloat(text)) ? undefined : parseFloat(text);
+    return {
+      from: filters.from || undefined,
+      to: filters.to || undefined,
+      method: (filters.method || undefined) as PaymentMethod | undefined,
+      minTotal: amount(filters.minTotal),
+      maxTotal: amount(filters.maxTotal),
+      product: filters.product || undefined,
+      orderNumber: filters.orderNumber || undefined,
+    };
+  }, [filters]);
+  const results = useMemo(() => TransactionSearchService.filter(transactions, filter), [transactions, filter]);
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  const visible = results.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // Back to the first page whenever the results change shape
+  useEffect(() => { setPage(0); }, [filter]);
+
+  const updateFilter = (changes: Partial<typeof EMPTY_FILTERS>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const getIcon = (method: PaymentMethod) => {
     switch (method) {
       case 'card': return <CreditCard size={16} />;
       case 'digital': return <Smartphone size={16} />;
+      case 'points': return <Award size={16} />;
+      case 'gift_card': return <Gift size={16} />;
       default: return <Banknote size={16} />;
     }
   };
@@ -18,63 +77,254 @@ export const SalesHistory: React.FC<{ transactions: Transaction[] }> = ({ transa
           <h2 className="text-2xl font-bold text-slate-800">Sales History</h2>
           <p className="text-slate-500">Recent transactions and order details.</p>
         </div>
+        <button
+          onClick={() => setExporting(true)}
+          className="px-4 py-2 rounded-lg flex items-center gap-2 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition"
+        >
+          <FileDown size={18} /> Export
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          <div className="relative col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input
+              type="text"
+              placeholder="Product name or SKU"
+              className="w-full pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={filters.product}
+              onChange={e => updateFilter({ product: e.target.value })}
+            />
+          </div>
+          <input
+            type="text"
+            placeholder="Order #"
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono"
+            value={filters.orderNumber}
+            onChange={e => updateFilter({ orderNumber: e.target.value })}
+          />
+          <input
+            type="date"
+            title="From"
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            value={filters.from}
+            onChange={e => updateFilter({ from: e.target.value })}
+          />
+          <input
+            type="date"
+            title="To"
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            value={filters.to}
+            onChange={e => updateFilter({ to: e.target.value })}
+          />
+          <select
+            className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm bg-white"
+            value={filters.method}
+            onChange={e => updateFilter({ method: e.target.value })}
+          >
+            <option value="">Any payment</option>
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+          </select>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Min $"
+              className="w-1/2 px-2 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={filters.minTotal}
+              onChange={e => updateFilter({ minTotal: e.target.value })}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Max $"
+              className="w-1/2 px-2 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+              value={filters.maxTotal}
+              onChange={e => updateFilter({ maxTotal: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex justify-between items-center mt-3 text-sm text-slate-500">
+          <span>
+            {TransactionSearchService.isEmpty(filter)
+              ? `${transactions.length} transaction(s)`
+              : `${results.length} of ${transactions.length} transaction(s) match`}
+          </span>
+          {!TransactionSearchService.isEmpty(filter) && (
+            <button onClick={() => setFilters(EMPTY_FILTERS)} className="flex items-center gap-1 text-slate-600 hover:text-slate-800">
+              <X size={14} /> Clear filters
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="divide-y divide-slate-100">
-          {transactions.length === 0 ? (
-             <div className="p-12 text-center text-slate-400">No sales records found.</div>
+          {results.length === 0 ? (
+             <div className="p-12 text-center text-slate-400">{transactions.length === 0 ? 'No sales records found.' : 'No transactions match these filters.'}</div>
           ) : (
-            transactions.map(t => (
-              <div key={t.id} className="p-6 hover:bg-slate-50 transition">
-                <div className="flex justify-between items-start mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className="p-3 bg-slate-100 rounded-full text-slate-500">
-                      <Clock size={20} />
+            visible.map(t => {
+              const isRefund = ReturnService.isRefund(t);
+              const hasReturns = !isRefund && ReturnService.getRefundsFor(t.id, transactions).length > 0;
+              const fullyReturned = hasReturns && ReturnService.isFullyReturned(t, transactions);
+              const isOpen = expanded.has(t.id);
+
+              return (
+                <div key={t.id} className={isRefund ? 'bg-red-50/30' : ''}>
+                  <button
+                    onClick={() => toggleExpanded(t.id)}
+                    className={`w-full px-6 py-4 flex items-center gap-4 text-left transition ${isRefund ? 'hover:bg-red-50/60' : 'hover:bg-slate-50'}`}
+                  >
+                    <span className="text-slate-400">{isOpen ? <ChevronDown size={18} /> : <ChevronRight size={18} />}</span>
+                    <div className={`p-2 rounded-full ${isRefund ? 'bg-red-100 text-red-500' : 'bg-slate-100 text-slate-500'}`}>
+                      {isRefund ? <Undo2 size={16} /> : <Clock size={16} />}
                     </div>
-                    <div>
-                      <h3 className="font-bold text-slate-800 text-lg">Order #{t.id.slice(0, 8)}</h3>
-                      <p className="text-sm text-slate-500">{new Date(t.date).toLocaleString()}</p>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold text-slate-800 flex items-center gap-2">
+                        {isRefund ? `Refund #${t.id.slice(0, 8)}` : `Order #${t.id.slice(0, 8)}`}
+                        {hasReturns && (
+                          <span className="text-[10px] uppercase tracking-wide bg-red-100 text-red-600 px-2 py-0.5 rounded-full">
+                            {fullyReturned ? 'Returned' : 'Partially Returned'}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-slate-500 truncate">
+                        {new Date(t.date).toLocaleString()}
+                        {isRefund && t.originalTransactionId && ` · for Order #${t.originalTransactionId.slice(0, 8)}`}
+                        {` · ${MeasureService.itemCount(t.items)} item(s)`}
+                        {t.customerId && ` · ${customers.find(c => c.id === t.customerId)?.name || 'Unknown customer'}`}
+                      </div>
                     </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-bold text-slate-800">${t.total.toFixed(2)}</div>
-                    <div className="flex items-center justify-end gap-1 text-xs text-slate-500 uppercase font-semibold mt-1">
-                      {getIcon(t.paymentMethod)} {t.paymentMethod}
+                    <div className="flex items-center gap-1 text-slate-400">
+                      {t.payments.map((p, idx) => <span key={idx} title={PAYMENT_METHOD_LABELS[p.method]}>{getIcon(p.method)}</span>)}
                     </div>
-                  </div>
-                </div>
+                    <div className={`w-28 text-right text-lg font-bold ${isRefund ? 'text-red-600' : 'text-slate-800'}`}>{formatMoney(t.total)}</div>
+                  </button>
+
+                  {isOpen && (
+                    <div className="px-6 pb-6">
+                      <div className="flex justify-between items-start mb-3">
+                        <div>
+                          {t.payments.map((p, idx) => (
+                            <div key={idx} className="flex items-center gap-1 text-xs text-slate-500 uppercase font-semibold mt-1">
+                              {getIcon(p.method)} {PAYMENT_METHOD_LABELS[p.method]} {formatMoney(p.amount)}
+                              {p.points ? ` (${p.points} pts)` : ''}
+                              {p.giftCardCode ? ` (${p.giftCardCode})` : ''}
+                            </div>
+                          ))}
+                          {t.payments.some(p => p.amountReceived !== undefined) && (
+                            <div className="text-xs text-slate-400 mt-1">
+                              Cash received ${t.payments.reduce((sum, p) => sum + (p.amountReceived ?? 0), 0).toFixed(2)} · Change ${TenderService.totalChange(t.payments).toFixed(2)}
+                            </div>
+                          )}
+                          {t.loyalty && (
+                            <div className="text-xs text-amber-600 mt-1">
+                              {[
+                                t.loyalty.earned && `${isRefund ? 'Points reversed' : 'Points earned'} ${Math.abs(t.loyalty.earned)}`,
+                                t.loyalty.redeemed && `${isRefund ? 'Points returned' : 'Points redeemed'} ${Math.abs(t.loyalty.redeemed)}`,
+                              ].filter(Boolean).join(' · ')}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => onReprint(t)}
+                            className="inline-flex items-center gap-1 text-xs font-semibold text-slate-600 hover:text-slate-800 px-2 py-1 rounded hover:bg-slate-100"
+                          >
+                            <Printer size={14} /> Receipt
+                          </button>
+                          {!isRefund && !fullyReturned && (
+                            <button
+                              onClick={() => setReturningSale(t)}
+                              className="inline-flex items-center gap-1 text-xs font-semibold text-red-600 hover:text-red-700 px-2 py-1 rounded hover:bg-red-50"
+                            >
+                              <Undo2 size={14} /> Return
+                            </button>
+                          )}
+                        </div>
+                      </div>
 
-                <div className="bg-slate-50 rounded-lg p-4 border border-slate-100">
-                  <table className="w-full text-sm">
-                    <thead>
-                      <tr className="text-slate-400 text-left">
-                        <th className="pb-2 font-medium">Item</th>
-                        <th className="pb-2 font-medium text-center">Qty</th>
-                        <th className="pb-2 font-medium text-right">Price</th>
-                      </tr>
-                    </thead>
-                    <tbody className="text-slate-600">
-                      {t.items.map((item, idx) => (
-                        <tr key={`${t.id}-${idx}`}>
-                          <td className="py-1">{item.name}</td>
-                          <td className="py-1 text-center">{item.quantity}</td>
-                          <td className="py-1 text-right">${(item.price * item.quantity).toFixed(2)}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                  <div className="border-t border-slate-200 mt-3 pt-3 flex justify-end gap-6 text-sm">
-                    <div className="text-slate-500">Subtotal: ${t.subtotal.toFixed(2)}</div>
-                    <div className="text-slate-500">Tax: ${t.tax.toFixed(2)}</div>
-                    <div className="font-bold text-slate-800">Total: ${t.total.toFixed(2)}</div>
-                  </div>
+                      <div className="bg-slate-50 rounded-lg p-4 border border-slate-100">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-slate-400 text-left">
+                              <th className="pb-2 font-medium">Item</th>
+                              <th className="pb-2 font-medium text-center">Qty</th>
+                              <th className="pb-2 font-medium text-right">{isRefund ? 'Refunded' : 'Price'}</th>
+                            </tr>
+                          </thead>
+                          <tbody className="text-slate-600">
+                            {t.items.map((item, idx) => (
+                              <tr key={`${t.id}-${idx}`}>
+                                <td className="py-1">
+                                  {item.name}
+                                  {isRefund && <span className="ml-2 text-xs text-slate-400">{item.restocked ? 'Restocked' : 'Not restocked'}</span>}
+                                </td>
+                                <td className="py-1 text-center">{MeasureService.format(item.quantity, item.unit)}</td>
+                                <td className="py-1 text-right">${(MeasureService.lineAmount(item) - (item.lineDiscount || 0)).toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="border-t border-slate-200 mt-3 pt-3 flex justify-end gap-6 text-sm">
+                          {t.discounts.map(d => (
+                            <div key={d.id} className="text-green-600">{d.label}: -${d.amount.toFixed(2)}</div>
+                          ))}
+                          <div className="text-slate-500">Subtotal: {formatMoney(t.subtotal)}</div>
+                          {t.taxBreakdown.map(line => (
+                            <div key={line.rateId} className="text-slate-500">{line.name} ({TaxService.formatRate(line.rate)}): {formatMoney(line.amount)}</div>
+                          ))}
+                          {t.taxExempt && <div className="text-amber-600">Tax exempt: {t.taxExempt.reason}</div>}
+                          <div className="font-bold text-slate-800">Total: {formatMoney(t.total)}</div>
+                        </div>
+                      </div>
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
+        {results.length > PAGE_SIZE && (
+          <div className="px-6 py-3 border-t border-slate-100 flex justify-between items-center text-sm text-slate-500">
+            <span>Showing {page * PAGE_SIZE + 1}-{Math.min(results.length, (page + 1) * PAGE_SIZE)} of {results.length}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 0}
+                className="px-3 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={page >= pageCount - 1}
+                className="px-3 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
       </div>
+
+      {exporting && <SalesExportModal transactions={transactions} onClose={() => setExporting(false)} />}
+
+      {returningSale && (
+        <ReturnModal
+          original={returningSale}
+          transactions={transactions}
+          onConfirm={(refund) => {
+            onRefund(refund);
+            setReturningSale(null);
+          }}
+          onCancel={() => setReturningSale(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,457 @@
+import React, { useState } from 'react';
+import { TaxSettings, TaxRate, TaxClass, StoreSettings, QuarantinedRecord, LoyaltySettings, ScaleBarcodeSettings } from '../types.ts';
+import { TaxService } from '../services/taxService.ts';
+import { FileService } from '../services/fileService.ts';
+import { LoyaltyService } from '../services/loyaltyService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { Plus, Trash, Save, Percent, Store, Database, Download, AlertTriangle, Lock, Award, Scale } from 'lucide-react';
+
+interface SettingsProps {
+  taxSettings: TaxSettings;
+  storeSettings: StoreSettings;
+  categories: string[];
+  onSaveTaxSettings: (settings: TaxSettings) => void;
+  onSaveStoreSettings: (settings: StoreSettings) => void;
+  loyaltySettings: LoyaltySettings;
+  onSaveLoyaltySettings: (settings: LoyaltySettings) => void;
+  scaleSettings: ScaleBarcodeSettings;
+  onSaveScaleSettings: (settings: ScaleBarcodeSettings) => void;
+  storageInfo: { backend: string; schemaVersion: number };
+  quarantine: QuarantinedRecord[];
+  onDiscardQuarantined: (id: string) => void;
+}
+
+export const Settings: React.FC<SettingsProps> = ({ taxSettings, storeSettings, categories, onSaveTaxSettings, onSaveStoreSettings, loyaltySettings, onSaveLoyaltySettings, scaleSettings, onSaveScaleSettings, storageInfo, quarantine, onDiscardQuarantined }) => {
+  const [draft, setDraft] = useState<TaxSettings>(taxSettings);
+  const [store, setStore] = useState<StoreSettings>(storeSettings);
+  const [loyalty, setLoyalty] = useState<LoyaltySettings>(loyaltySettings);
+  // Prefixes are edited as comma-separated text
+  const [weightPrefixes, setWeightPrefixes] = useState(scaleSettings.weightPrefixes.join(', '));
+  const [pricePrefixes, setPricePrefixes] = useState(scaleSettings.pricePrefixes.join(', '));
+  const [pluDigits, setPluDigits] = useState(scaleSettings.pluDigits);
+
+  const updateRate = (id: string, changes: Partial<TaxRate>) => {
+    setDraft(prev => ({ ...prev, rates: prev.rates.map(r => r.id === id ? { ...r, ...changes } : r) }));
+  };
+
+  const addRate = () => {
+    setDraft(prev => ({ ...prev, rates: [...prev.rates, { id: crypto.randomUUID(), name: 'New Rate', rate: 0 }] }));
+  };
+
+  const removeRate = (id: string) => {
+    setDraft(prev => ({
+      ...prev,
+      rates: prev.rates.filter(r => r.id !== id),
+      classes: prev.classes.map(c => ({ ...c, rateIds: c.rateIds.filter(rid => rid !== id) })),
+    }));
+  };
+
+  const updateClass = (id: string, changes: Partial<TaxClass>) => {
+    setDraft(prev => ({ ...prev, classes: prev.classes.map(c => c.id === id ? { ...c, ...changes } : c) }));
+  };
+
+  const toggleClassRate = (taxClass: TaxClass, rateId: string) => {
+    const rateIds = taxClass.rateIds.includes(rateId)
+      ? taxClass.rateIds.filter(id => id !== rateId)
+      : [...taxClass.rateIds, rateId];
+    updateClass(taxClass.id, { rateIds });
+  };
+
+  const addClass = () => {
+    setDraft(prev => ({ ...prev, classes: [...prev.classes, { id: crypto.randomUUID(), name: 'New Class', rateIds: [] }] }));
+  };
+
+  const removeClass = (id: string) => {
+    if (id === draft.defaultClassId) {
+      alert("Choose a different default class before removing this one.");
+      return;
+    }
+    const categoryClasses = { ...draft.categoryClasses };
+    Object.keys(categoryClasses).forEach(cat => { if (categoryClasses[cat] === id) delete categoryClasses[cat]; });
+    setDraft(prev => ({ ...prev, classes: prev.classes.filter(c => c.id !== id), categoryClasses }));
+  };
+
+  const setCategoryClass = (category: string, classId: string) => {
+    const categoryClasses = { ...draft.categoryClasses };
+    if (classId) categoryClasses[category] = classId;
+    else delete categoryClasses[category];
+    setDraft(prev => ({ ...prev, categoryClasses }));
+  };
+
+  const setCategoryMultiplier = (category: string, value: string) => {
+    const categoryMultipliers = { ...loyalty.categoryMultipliers };
+    if (value === '') delete categoryMultipliers[category];
+    else categoryMultipliers[category] = Math.max(0, parseFloat(value) || 0);
+    setLoyalty(prev => ({ ...prev, categoryMultipliers }));
+  };
+
+  const handleSave = () => {
+    if (draft.rates.some(r => !r.name.trim() || isNaN(r.rate) || r.rate < 0)) {
+      alert("Every tax rate needs a name and a non-negative percentage.");
+      return;
+    }
+    if (!store.name.trim()) {
+      alert("The store name is required for receipts.");
+      return;
+    }
+    const loyaltyProblem = LoyaltyService.validateSettings(loyalty);
+    if (loyaltyProblem) {
+      alert(loyaltyProblem);
+      return;
+    }
+    const splitPrefixes = (text: string) => text.split(',').map(p => p.trim()).filter(Boolean);
+    const scale = { weightPrefixes: splitPrefixes(weightPrefixes), pricePrefixes: splitPrefixes(pricePrefixes), pluDigits };
+    const scaleProblem = MeasureService.validateScaleSettings(scale);
+    if (scaleProblem) {
+      alert(scaleProblem);
+      return;
+    }
+    onSaveTaxSettings(draft);
+    onSaveStoreSettings(store);
+    onSaveLoyaltySettings(loyalty);
+    onSaveScaleSettings(scale);
+    alert("Settings saved.");
+  };
+
+  const downloadQuarantined = (entry: QuarantinedRecord) => {
+    FileService.download(`quarantined-${entry.store}-${entry.id.slice(0, 8)}.json`, JSON.stringify(entry, null, 2), 'application/json');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Settings</h2>
+          <p className="text-slate-500">Configure store details, receipts, loyalty points, scale labels, tax rates and tax classes.</p>
+        </div>
+        <button
+          onClick={handleSave}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+        >
+          <Save size={18} /> Save Settings
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><Store size={18} /> Store & Receipt</h3>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Store Name</label>
+            <input
+              type="text"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={store.name}
+              onChange={e => setStore({ ...store, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Phone</label>
+            <input
+              type="text"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={store.phone}
+              onChange={e => setStore({ ...store, phone: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Address</label>
+            <textarea
+              rows={2}
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={store.address}
+              onChange={e => setStore({ ...store, address: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Tax ID</label>
+            <input
+              type="text"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={store.taxId || ''}
+              onChange={e => setStore({ ...store, taxId: e.target.value || undefined })}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-slate-700 mb-1">Receipt Footer</label>
+            <textarea
+              rows={2}
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={store.receiptFooter}
+              onChange={e => setStore({ ...store, receiptFooter: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><Lock size={18} /> Security</h3>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Auto-lock After (minutes)</label>
+        <input
+          type="number"
+          min="0"
+          className="w-40 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          value={store.autoLockMinutes ?? 0}
+          onChange={e => setStore({ ...store, autoLockMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+        />
+        <p className="text-xs text-slate-500 mt-1">Returns to the PIN screen when nobody has touched the screen or keyboard for this long. Set to 0 to turn off.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><Percent size={18} /> Pricing</h3>
+        <label className="flex items-center gap-3 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={draft.pricesIncludeTax}
+            onChange={e => setDraft(prev => ({ ...prev, pricesIncludeTax: e.target.checked }))}
+          />
+          Shelf prices include tax (tax is backed out of the price at checkout)
+        </label>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><Award size={18} /> Loyalty Points</h3>
+        <label className="flex items-center gap-3 text-sm text-slate-700 mb-4">
+          <input
+            type="checkbox"
+            checked={loyalty.enabled}
+            onChange={e => setLoyalty(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          Customers attached to a sale earn points and can pay with them
+        </label>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Points per Dollar</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={loyalty.pointsPerDollar}
+              onChange={e => setLoyalty(prev => ({ ...prev, pointsPerDollar: parseFloat(e.target.value) }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Value per Point ($)</label>
+            <input
+              type="number"
+              step="0.001"
+              min="0"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={loyalty.pointValue}
+              onChange={e => setLoyalty(prev => ({ ...prev, pointValue: parseFloat(e.target.value) }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Minimum Redemption (points)</label>
+            <input
+              type="number"
+              min="0"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={loyalty.minRedeemPoints}
+              onChange={e => setLoyalty(prev => ({ ...prev, minRedeemPoints: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          Points are earned on the amount after discounts and before tax, but not on the part paid with points.
+        </p>
+
+        <h4 className="text-sm font-semibold text-slate-700 mt-6 mb-1">Category Multipliers</h4>
+        <p className="text-xs text-slate-500 mb-3">Leave blank to earn at 1x. Use 0 to exclude a category. Products can override their category in Inventory.</p>
+        <div className="grid grid-cols-3 gap-3">
+          {categories.map(category => (
+            <div key={category} className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-slate-100">
+              <span className="text-sm text-slate-700 truncate">{category}</span>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  placeholder="1"
+                  className="w-20 px-2 py-1 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-right text-sm"
+                  value={loyalty.categoryMultipliers[category] ?? ''}
+                  onChange={e => setCategoryMultiplier(category, e.target.value)}
+                />
+                <span className="text-slate-500 text-sm">x</span>
+              </div>
+            </div>
+          ))}
+          {categories.length === 0 && <span className="text-xs text-slate-400">No categories yet.</span>}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><Scale size={18} /> Scale Barcodes</h3>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Weight Prefixes</label>
+            <input
+              type="text"
+              placeholder="20, 21"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+              value={weightPrefixes}
+              onChange={e => setWeightPrefixes(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Price Prefixes</label>
+            <input
+              type="text"
+              placeholder="25, 26"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+              value={pricePrefixes}
+              onChange={e => setPricePrefixes(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">PLU Digits</label>
+            <input
+              type="number"
+              min="4"
+              max="6"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={pluDigits}
+              onChange={e => setPluDigits(parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          Labels from the deli scale are EAN-13 codes starting with one of these prefixes, then the product's PLU, then the weight in thousandths of its unit or the price in cents.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-700">Tax Rates</h3>
+          <button onClick={addRate} className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"><Plus size={16} /> Add Rate</button>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {draft.rates.map(rate => (
+            <div key={rate.id} className="px-6 py-3 flex items-center gap-4">
+              <input
+                type="text"
+                className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={rate.name}
+                onChange={e => updateRate(rate.id, { name: e.target.value })}
+              />
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  className="w-24 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-right"
+                  value={parseFloat((rate.rate * 100).toFixed(4))}
+                  onChange={e => updateRate(rate.id, { rate: parseFloat(e.target.value) / 100 })}
+                />
+                <span className="text-slate-500">%</span>
+              </div>
+              <button onClick={() => removeRate(rate.id)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-700">Tax Classes</h3>
+          <button onClick={addClass} className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"><Plus size={16} /> Add Class</button>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {draft.classes.map(taxClass => (
+            <div key={taxClass.id} className="px-6 py-4 space-y-3">
+              <div className="flex items-center gap-4">
+                <input
+                  type="text"
+                  className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={taxClass.name}
+                  onChange={e => updateClass(taxClass.id, { name: e.target.value })}
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="radio"
+                    name="defaultClass"
+                    checked={draft.defaultClassId === taxClass.id}
+                    onChange={() => setDraft(prev => ({ ...prev, defaultClassId: taxClass.id }))}
+                  />
+                  Default
+                </label>
+                <span className="text-sm font-semibold text-slate-700 w-16 text-right">
+                  {TaxService.formatRate(TaxService.getCombinedRate(taxClass, draft))}
+                </span>
+                <button onClick={() => removeClass(taxClass.id)} className="p-2 text-slate-400 hover:text-red-600 transition"><Trash size={18} /></button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {draft.rates.map(rate => (
+                  <label key={rate.id} className={`text-xs px-3 py-1.5 rounded-full border cursor-pointer ${taxClass.rateIds.includes(rate.id) ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-slate-200 text-slate-500'}`}>
+                    <input type="checkbox" className="hidden" checked={taxClass.rateIds.includes(rate.id)} onChange={() => toggleClassRate(taxClass, rate.id)} />
+                    {rate.name} ({TaxService.formatRate(rate.rate)})
+                  </label>
+                ))}
+                {draft.rates.length === 0 && <span className="text-xs text-slate-400">Add a tax rate first.</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-700">Category Tax Classes</h3>
+          <p className="text-xs text-slate-500 mt-1">Products can override their category's class in Inventory.</p>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {categories.map(category => (
+            <div key={category} className="px-6 py-3 flex items-center justify-between">
+              <span className="font-medium text-slate-700">{category}</span>
+              <select
+                className="px-3 py-2 rounded-lg border border-slate-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={draft.categoryClasses[category] || ''}
+                onChange={e => setCategoryClass(category, e.target.value)}
+              >
+                <option value="">Default ({draft.classes.find(c => c.id === draft.defaultClassId)?.name})</option>
+                {draft.classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          ))}
+          {categories.length === 0 && <div className="p-6 text-center text-slate-400">No categories yet.</div>}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <h3 className="font-semibold text-slate-700 flex items-center gap-2"><Database size={18} /> Data Health</h3>
+          <span className="text-xs text-slate-500">
+            {storageInfo.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage'} &middot; schema v{storageInfo.schemaVersion}
+          </span>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {quarantine.map(entry => (
+            <div key={entry.id} className="px-6 py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-700 flex items-center gap-2">
+                  <AlertTriangle size={14} className="text-amber-500" />
+                  <span className="capitalize">{entry.store}</span> record set aside {new Date(entry.quarantinedAt).toLocaleString()}
+                </div>
+                <ul className="text-xs text-slate-500 list-disc ml-6 mt-1">
+                  {entry.errors.map((error, idx) => <li key={idx}>{error}</li>)}
+                </ul>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => downloadQuarantined(entry)} className="p-2 text-slate-400 hover:text-blue-600 transition" title="Download record"><Download size={18} /></button>
+                <button
+                  onClick={() => { if (confirm("Permanently discard this record?")) onDiscardQuarantined(entry.id); }}
+                  className="p-2 text-slate-400 hover:text-red-600 transition"
+                  title="Discard record"
+                >
+                  <Trash size={18} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {quarantine.length === 0 && <div className="p-6 text-center text-slate-400">All stored records loaded cleanly.</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
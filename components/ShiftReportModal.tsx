@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { StoreSettings } from '../types.ts';
+import { ReceiptService } from '../services/receiptService.ts';
+import { ShiftReport } from '../services/shiftService.ts';
+import { Printer, Receipt, FileText } from 'lucide-react';
+
+interface ShiftReportModalProps {
+  report: ShiftReport;
+  storeSettings: StoreSettings;
+  onClose: () => void;
+}
+
+export const ShiftReportModal: React.FC<ShiftReportModalProps> = ({ report, storeSettings, onClose }) => {
+  const [printing, setPrinting] = useState(false);
+  const lines = ReceiptService.buildShiftReportLines(report, storeSettings);
+  const html = ReceiptService.renderLinesHtml(lines, `${report.kind} Report - Shift ${report.shift.number}`);
+  const variance = report.cash.variance;
+
+  const handleThermalPrint = async () => {
+    setPrinting(true);
+    try {
+      await ReceiptService.sendToThermalPrinter(
+        ReceiptService.renderLinesEscPos(lines),
+        `${report.kind.toLowerCase()}-report-shift-${report.shift.number}.bin`
+      );
+    } catch (e) {
+      alert(`Thermal printing failed: ${(e as Error).message}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[480px] max-h-[90vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-4">
+          <div className="inline-flex p-3 rounded-full mb-2 bg-blue-100 text-blue-600"><FileText size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">{report.kind} Report · Shift #{report.shift.number}</h3>
+          {variance === undefined ? (
+            <p className="text-slate-500">Mid-shift reading. The shift stays open.</p>
+          ) : (
+            <p className={variance === 0 ? 'text-green-600' : 'text-red-600'}>
+              {variance === 0 ? 'Drawer balanced' : `Drawer ${variance < 0 ? 'short' : 'over'} by $${Math.abs(variance).toFixed(2)}`}
+            </p>
+          )}
+        </div>
+
+        <iframe
+          title="Shift report preview"
+          srcDoc={html}
+          className="flex-1 min-h-[320px] w-full border border-slate-200 rounded-lg bg-white"
+        />
+
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <button
+            onClick={() => ReceiptService.printHtml(html)}
+            className="py-3 rounded-xl border border-slate-200 hover:bg-slate-50 font-semibold text-slate-700 flex items-center justify-center gap-2"
+          >
+            <Printer size={18} /> Print
+          </button>
+          <button
+            onClick={handleThermalPrint}
+            disabled={printing}
+            className="py-3 rounded-xl border border-slate-200 hover:bg-slate-50 font-semibold text-slate-700 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Receipt size={18} /> {printing ? 'Sending...' : 'Thermal Printer'}
+          </button>
+        </div>
+        <button onClick={onClose} className="mt-3 w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl transition-all">Done</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Permission, StaffRole, StaffUser } from '../types.ts';
+import { PERMISSION_LABELS, ROLE_LABELS, ROLE_PERMISSIONS, StaffService } from '../services/staffService.ts';
+import { UserPlus, KeyRound, UserX, UserCheck, Check, X } from 'lucide-react';
+
+interface StaffProps {
+  users: StaffUser[];
+  currentUser: StaffUser;
+  onSaveUser: (user: StaffUser) => void;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as StaffRole[];
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+export const Staff: React.FC<StaffProps> = ({ users, currentUser, onSaveUser }) => {
+  const [draft, setDraft] = useState({ name: '', role: 'cashier' as StaffRole, pin: '' });
+  const [resetting, setResetting] = useState<{ id: string; pin: string } | null>(null);
+
+  const handleAdd = async () => {
+    try {
+      onSaveUser(await StaffService.create(draft.name, draft.role, draft.pin, users));
+      setDraft({ name: '', role: 'cashier', pin: '' });
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleUpdate = (user: StaffUser, changes: Partial<StaffUser>) => {
+    const updated = { ...user, ...changes };
+    try {
+      StaffService.checkManagersRemain(updated, users);
+      onSaveUser(updated);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleResetPin = async (user: StaffUser) => {
+    if (!resetting) return;
+    try {
+      onSaveUser(await StaffService.withPin(user, resetting.pin, users));
+      setResetting(null);
+      alert(`PIN updated for ${user.name}.`);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Staff</h2>
+        <p className="text-slate-500">Accounts, PINs and what each role may do.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-semibold text-slate-700 mb-4 flex items-center gap-2"><UserPlus size={18} /> Add Staff Member</h3>
+        <div className="grid grid-cols-4 gap-4 items-end">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+            <input
+              type="text"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Role</label>
+            <select
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              value={draft.role}
+              onChange={e => setDraft({ ...draft, role: e.target.value as StaffRole })}
+            >
+              {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">PIN (4-8 digits)</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              value={draft.pin}
+              onChange={e => setDraft({ ...draft, pin: e.target.value.replace(/\D/g, '') })}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={handleAdd}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg shadow-blue-200 transition"
+          >
+            <UserPlus size={18} /> Add Account
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-4">Name</th>
+              <th className="px-6 py-4">Role</th>
+              <th className="px-6 py-4">Status</th>
+              <th className="px-6 py-4 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {users.map(user => (
+              <tr key={user.id} className={`hover:bg-slate-50 transition ${user.active ? '' : 'opacity-60'}`}>
+                <td className="px-6 py-4">
+                  <div className="font-medium text-slate-800">{user.name}{user.id === currentUser.id && <span className="text-xs text-slate-400"> (you)</span>}</div>
+                  <div className="text-xs text-slate-400">Added {new Date(user.createdAt).toLocaleDateString()}</div>
+                </td>
+                <td className="px-6 py-4">
+                  <select
+                    className="px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm"
+                    value={user.role}
+                    onChange={e => handleUpdate(user, { role: e.target.value as StaffRole })}
+                  >
+                    {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                </td>
+                <td className="px-6 py-4">
+                  {user.active
+                    ? <span className="text-green-600 bg-green-50 px-2 py-1 rounded-full text-xs font-bold">Active</span>
+                    : <span className="text-slate-500 bg-slate-100 px-2 py-1 rounded-full text-xs font-bold">Deactivated</span>}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  {resetting?.id === user.id ? (
+                    <div className="flex justify-end items-center gap-2">
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        autoFocus
+                        placeholder="New PIN"
+                        className="w-28 px-3 py-1.5 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                        value={resetting.pin}
+                        onChange={e => setResetting({ id: user.id, pin: e.target.value.replace(/\D/g, '') })}
+                        onKeyDown={e => e.key === 'Enter' && handleResetPin(user)}
+                      />
+                      <button onClick={() => handleResetPin(user)} className="p-2 text-slate-400 hover:text-green-600 transition" title="Save PIN"><Check size={18} /></button>
+                      <button onClick={() => setResetting(null)} className="p-2 text-slate-400 hover:text-red-600 transition" title="Cancel"><X size={18} /></button>
+                    </div>
+                  ) : (
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setResetting({ id: user.id, pin: '' })} className="p-2 text-slate-400 hover:text-blue-600 transition" title="Reset PIN"><KeyRound size={18} /></button>
+                      {user.active ? (
+                        <button
+                          onClick={() => { if (confirm(`Deactivate ${user.name}? They will no longer be able to sign in.`)) handleUpdate(user, { active: false }); }}
+                          className="p-2 text-slate-400 hover:text-red-600 transition"
+                          title="Deactivate"
+                        >
+                          <UserX size={18} />
+                        </button>
+                      ) : (
+                        <button onClick={() => handleUpdate(user, { active: true })} className="p-2 text-slate-400 hover:text-green-600 transition" title="Reactivate"><UserCheck size={18} /></button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="font-semibold text-slate-700">Role Permissions</h3>
+          <p className="text-xs text-slate-500">Staff without a permission can still go ahead when someone who has it approves with their PIN.</p>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="text-slate-500 text-xs uppercase font-semibold">
+            <tr>
+              <th className="px-6 py-3">Permission</th>
+              {ROLES.map(r => <th key={r} className="px-6 py-3 text-center">{ROLE_LABELS[r]}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {PERMISSIONS.map(p => (
+              <tr key={p}>
+                <td className="px-6 py-3 text-slate-700">{PERMISSION_LABELS[p]}</td>
+                {ROLES.map(r => (
+                  <td key={r} className="px-6 py-3 text-center">
+                    {ROLE_PERMISSIONS[r].includes(p) ? <Check size={16} className="inline text-green-600" /> : <span className="text-slate-300">-</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
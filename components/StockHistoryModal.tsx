@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { LotStock, Product, StockMovement } from '../types.ts';
+import { StorageService } from '../services/storageService.ts';
+import { InventoryService, MOVEMENT_REASON_LABELS } from '../services/inventoryService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { History } from 'lucide-react';
+
+interface StockHistoryModalProps {
+  product: Product;
+  lotStock: LotStock[];
+  onClose: () => void;
+}
+
+export const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ product, lotStock, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[] | null>(null);
+
+  useEffect(() => {
+    StorageService.getMovementsForProduct(product.id)
+      .then(setMovements)
+      .catch(e => {
+        alert(`Could not load stock history: ${(e as Error).message}`);
+        setMovements([]);
+      });
+  }, [product.id]);
+
+  // Newest first for reading, but balances are accumulated oldest first
+  const rows = movements ? InventoryService.withRunningBalance(movements).reverse() : [];
+  const lots = lotStock.filter(ls => ls.lot.productId === product.id && ls.quantity !== 0);
+  const lotCode = (lotId?: string) => {
+    if (!lotId) return 'Untracked';
+    return lotStock.find(ls => ls.lot.id === lotId)?.lot.code || lotId.slice(0, 8);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[760px] max-h-[85vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-slate-100 text-slate-600 rounded-full"><History size={24} /></div>
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">Stock History</h3>
+            <p className="text-slate-500">{product.name} ({product.sku}) &middot; {MeasureService.format(product.stock, product.unit)} on hand</p>
+          </div>
+        </div>
+
+        {lots.length > 0 && (
+          <div className="mb-4 grid grid-cols-3 gap-2">
+            {InventoryService.fefoOrder(product.id, lots).concat(lots.filter(ls => ls.quantity < 0)).map(({ lot, quantity }) => {
+              const expired = InventoryService.isExpired(lot);
+              return (
+                <div key={lot.id} className={`p-3 rounded-lg border text-sm ${expired ? 'border-red-200 bg-red-50' : 'border-slate-200 bg-slate-50'}`}>
+                  <div className="font-semibold text-slate-800 truncate">{lot.code || lot.id.slice(0, 8)}</div>
+                  <div className={`text-xs ${expired ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+                    {lot.expiryDate ? `${expired ? 'Expired' : 'Expires'} ${lot.expiryDate}` : 'No expiry'}
+                  </div>
+                  <div className={`font-medium ${quantity < 0 ? 'text-red-600' : 'text-slate-700'}`}>{MeasureService.format(quantity, product.unit)} on hand</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 text-xs uppercase font-semibold sticky top-0">
+              <tr>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Reason</th>
+                <th className="px-4 py-3">Lot</th>
+                <th className="px-4 py-3 text-right">Change</th>
+                <th className="px-4 py-3 text-right">Balance</th>
+                <th className="px-4 py-3">User</th>
+                <th className="px-4 py-3">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(({ movement, balance }) => (
+                <tr key={movement.id}>
+                  <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{new Date(movement.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-slate-700">
+                    {MOVEMENT_REASON_LABELS[movement.reason]}
+                    {movement.referenceId && <div className="text-xs text-slate-400 font-mono">#{movement.referenceId.slice(0, 8)}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-slate-500 text-xs">{lotCode(movement.lotId)}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {movement.quantity > 0 ? '+' : ''}{MeasureService.format(movement.quantity, product.unit)}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-semibold ${balance < 0 ? 'text-red-600' : 'text-slate-700'}`}>{MeasureService.format(balance, product.unit)}</td>
+                  <td className="px-4 py-2 text-slate-600">{movement.user}</td>
+                  <td className="px-4 py-2 text-slate-500">{movement.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {movements === null && <div className="p-6 text-center text-slate-400">Loading...</div>}
+          {movements?.length === 0 && <div className="p-6 text-center text-slate-400">No stock movements recorded.</div>}
+        </div>
+
+        <button onClick={onClose} className="mt-6 w-full py-3 text-slate-600 hover:bg-slate-100 rounded-xl font-semibold transition">Close</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
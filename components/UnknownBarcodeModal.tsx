@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Product } from '../types.ts';
+import { ScanLine, Save } from 'lucide-react';
+
+interface UnknownBarcodeModalProps {
+  barcode: string;
+  categories: string[];
+  onCreate: (product: Product) => void;
+  onCancel: () => void;
+}
+
+export const UnknownBarcodeModal: React.FC<UnknownBarcodeModalProps> = ({ barcode, categories, onCreate, onCancel }) => {
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState({ name: '', sku: '', price: '', stock: '1', category: categories[0] || 'General' });
+
+  const handleCreate = () => {
+    const price = parseFloat(draft.price);
+    const stock = parseInt(draft.stock);
+    if (!draft.name.trim() || !draft.sku.trim() || isNaN(price)) {
+      alert("Please fill in required fields");
+      return;
+    }
+    onCreate({
+      id: crypto.randomUUID(),
+      sku: draft.sku.trim().toUpperCase(),
+      barcode,
+      name: draft.name.trim(),
+      price,
+      category: draft.category.trim() || 'General',
+      stock: isNaN(stock) ? 0 : stock,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[440px] shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-amber-100 text-amber-600 rounded-full mb-3"><ScanLine size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">Unknown Barcode</h3>
+          <p className="font-mono text-slate-500 mt-1">{barcode}</p>
+          {!creating && <p className="text-sm text-slate-500 mt-2">No product is registered with this barcode.</p>}
+        </div>
+
+        {creating ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Product Name</label>
+              <input
+                type="text"
+                autoFocus
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">SKU</label>
+              <input
+                type="text"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase"
+                value={draft.sku}
+                onChange={e => setDraft({ ...draft, sku: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+              <input
+                type="text"
+                list="unknown-barcode-categories"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={draft.category}
+                onChange={e => setDraft({ ...draft, category: e.target.value })}
+              />
+              <datalist id="unknown-barcode-categories">
+                {categories.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Price ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={draft.price}
+                onChange={e => setDraft({ ...draft, price: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Stock on Hand</label>
+              <input
+                type="number"
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={draft.stock}
+                onChange={e => setDraft({ ...draft, stock: e.target.value })}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex justify-end gap-4 mt-8">
+          <button onClick={onCancel} className="px-6 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">Cancel</button>
+          {creating ? (
+            <button
+              onClick={handleCreate}
+              className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition flex items-center gap-2"
+            >
+              <Save size={18} /> Create & Add
+            </button>
+          ) : (
+            <button
+              onClick={() => setCreating(true)}
+              className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-200 transition"
+            >
+              Create Product
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Product } from '../types.ts';
+import { VariantService } from '../services/variantService.ts';
+import { MeasureService } from '../services/measureService.ts';
+import { Layers } from 'lucide-react';
+
+interface VariantPickerModalProps {
+  parent: Product;
+  variants: Product[];
+  onSelect: (variant: Product) => void;
+  onCancel: () => void;
+}
+
+export const VariantPickerModal: React.FC<VariantPickerModalProps> = ({ parent, variants, onSelect, onCancel }) => {
+  const options = parent.options || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-[560px] max-h-[80vh] flex flex-col shadow-2xl animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="inline-flex p-3 bg-blue-100 text-blue-600 rounded-full mb-3"><Layers size={24} /></div>
+          <h3 className="text-xl font-bold text-slate-800">{parent.name}</h3>
+          <p className="text-slate-500">Choose {options.map(o => o.name.toLowerCase()).join(' and ')}.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-2 gap-3">
+          {variants.map(variant => {
+            const isOutOfStock = variant.stock <= 0;
+            return (
+              <button
+                key={variant.id}
+                onClick={() => onSelect(variant)}
+                disabled={isOutOfStock}
+                className={`flex flex-col p-3 rounded-xl border text-left transition-all ${isOutOfStock ? 'opacity-60 cursor-not-allowed border-slate-200' : 'border-slate-200 hover:border-blue-400 hover:shadow-md'}`}
+              >
+                <span className="font-semibold text-slate-800">{VariantService.label(variant.variantValues || {}, options)}</span>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{variant.sku}</span>
+                <div className="mt-2 flex justify-between items-end">
+                  <span className="font-bold text-blue-600">${variant.price.toFixed(2)}</span>
+                  <span className="text-xs font-medium px-2 py-1 rounded bg-slate-100 text-slate-600">{MeasureService.format(variant.stock, variant.unit)} Left</span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <button onClick={onCancel} className="mt-6 w-full py-3 text-slate-600 hover:bg-slate-100 rounded-xl font-semibold transition">Cancel</button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  minLength?: number; // Shorter bursts are treated as ordinary typing
+  maxKeyInterval?: number; // Milliseconds allowed between scanner keystrokes
+  enabled?: boolean;
+}
+
+// Keyboard-wedge scanners "type" the code much faster than a person and finish with
+// Enter. Listen at the window level so scans work wherever focus happens to be.
+export const useBarcodeScanner = (
+  onScan: (code: string) => void,
+  { minLength = 6, maxKeyInterval = 50, enabled = true }: BarcodeScannerOptions = {}
+) => {
+  const buffer = useRef('');
+  const lastKeyTime = useRef(0);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const now = performance.now();
+      const isBurst = now - lastKeyTime.current <= maxKeyInterval;
+      lastKeyTime.current = now;
+
+      if (e.key === 'Enter') {
+        const code = buffer.current;
+        buffer.current = '';
+        if (isBurst && code.length >= minLength) {
+          e.preventDefault();
+          e.stopPropagation();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return;
+      buffer.current = isBurst ? buffer.current + e.key : e.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, minLength, maxKeyInterval]);
+};
\ No newline at end of file
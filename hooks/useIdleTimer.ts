@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+interface IdleTimerOptions {
+  minutes: number; // 0 or less never fires
+  enabled?: boolean;
+}
+
+// Calls onIdle once no input has been seen for the given number of minutes.
+// Any input restarts the countdown.
+export const useIdleTimer = (onIdle: () => void, { minutes, enabled = true }: IdleTimerOptions) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || !(minutes > 0)) return;
+
+    let timer = window.setTimeout(() => onIdleRef.current(), minutes * 60000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onIdleRef.current(), minutes * 60000);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [minutes, enabled]);
+};
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { AuditEntry } from '../types.ts';
+import { AuditService, GENESIS_HASH } from './auditService.ts';
+
+const buildChain = async (count: number): Promise<AuditEntry[]> => {
+  const entries: AuditEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    entries.push(await AuditService.createEntry(entries[i - 1] || null, {
+      action: 'price_changed',
+      summary: `Changed the price of item ${i + 1}`,
+      user: 'Alex',
+      before: { price: i },
+      after: { price: i + 1 },
+    }));
+  }
+  return entries;
+};
+
+describe('AuditService.verify', () => {
+  it('links each entry to the one before it', async () => {
+    const [first, second] = await buildChain(2);
+    expect(first.sequence).toBe(1);
+    expect(first.previousHash).toBe(GENESIS_HASH);
+    expect(second.sequence).toBe(2);
+    expect(second.previousHash).toBe(first.hash);
+  });
+
+  it('accepts an untouched chain in any order', async () => {
+    const entries = await buildChain(4);
+    expect(await AuditService.verify([...entries].reverse())).toEqual({ valid: true, checked: 4 });
+    expect(await AuditService.verify([])).toEqual({ valid: true, checked: 0 });
+  });
+
+  it('spots an entry changed after it was recorded', async () => {
+    const entries = await buildChain(3);
+    entries[1] = { ...entries[1], after: { price: 99 } };
+    expect(await AuditService.verify(entries)).toEqual({
+      valid: false,
+      checked: 1,
+      brokenAt: 2,
+      problem: 'Entry #2 was changed after it was recorded.',
+    });
+  });
+
+  it('spots a deleted entry', async () => {
+    const entries = await buildChain(3);
+    const result = await AuditService.verify([entries[0], entries[2]]);
+    expect(result).toMatchObject({ valid: false, brokenAt: 3, problem: 'Entry #2 is missing.' });
+  });
+
+  it('spots an entry rehashed without relinking the chain', async () => {
+    const entries = await buildChain(3);
+    const { hash, ...rest } = { ...entries[1], summary: 'Nothing to see here' };
+    entries[1] = { ...rest, hash: await AuditService.hashEntry(rest) };
+    expect(hash).not.toBe(entries[1].hash);
+    const result = await AuditService.verify(entries);
+    expect(result).toMatchObject({ valid: false, brokenAt: 3, problem: 'Entry #3 does not link to the entry before it.' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { AuditAction, AuditEntry } from '../types.ts';
+import { HashService } from './hashService.ts';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  login: 'Signed in',
+  login_failed: 'Sign-in failed',
+  logout: 'Signed out',
+  approval: 'Approval',
+  product_created: 'Product created',
+  product_updated: 'Product edited',
+  price_changed: 'Price changed',
+  product_deleted: 'Product deleted',
+  stock_adjusted: 'Stock adjusted',
+  stock_received: 'Goods received',
+  catalog_imported: 'Catalog imported',
+  catalog_import_undone: 'Catalog import undone',
+  line_voided: 'Line voided',
+  cart_voided: 'Order voided',
+  refund: 'Refund',
+  shift_opened: 'Shift opened',
+  cash_event: 'Cash drawer',
+  shift_closed: 'Shift closed',
+  staff_changed: 'Staff account',
+  promotions_changed: 'Promotions changed',
+  settings_changed: 'Settings changed',
+};
+
+// What callers supply; the chain fields are filled in when the entry is appended
+export type AuditInput = Omit<AuditEntry, 'id' | 'sequence' | 'timestamp' | 'previousHash' | 'hash'>;
+
+export interface AuditFilter {
+  from?: string; // YYYY-MM-DD, inclusive, store local time
+  to?: string;
+  action?: AuditAction;
+  user?: string;
+  text?: string; // Part of the summary or of any before/after value
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: number; // Sequence number of the first entry that fails
+  problem?: string;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const AuditService = {
+  hashEntry: (entry: Omit<AuditEntry, 'hash'>): Promise<string> => {
+    return HashService.sha256(HashService.canonicalJson(entry));
+  },
+
+  createEntry: async (previous: AuditEntry | null, input: AuditInput): Promise<AuditEntry> => {
+    const entry: Omit<AuditEntry, 'hash'> = {
+      ...input,
+      id: crypto.randomUUID(),
+      sequence: (previous?.sequence || 0) + 1,
+      timestamp: new Date().toISOString(),
+      previousHash: previous?.hash || GENESIS_HASH,
+    };
+    return { ...entry, hash: await AuditService.hashEntry(entry) };
+  },
+
+  // Walk the chain from the first entry, recomputing every hash and link
+  verify: async (entries: AuditEntry[]): Promise<AuditVerification> => {
+    const sorted = [...entries].sort((a, b) => a.sequence - b.sequence);
+    let previousHash = GENESIS_HASH;
+    for (let i = 0; i < sorted.length; i++) {
+      const { hash, ...rest } = sorted[i];
+      const fail = (problem: string): AuditVerification => ({ valid: false, checked: i, brokenAt: sorted[i].sequence, problem });
+      if (sorted[i].sequence !== i + 1) return fail(`Entry #${i + 1} is missing.`);
+      if (sorted[i].previousHash !== previousHash) return fail(`Entry #${sorted[i].sequence} does not link to the entry before it.`);
+      if (await AuditService.hashEntry(rest) !== hash) return fail(`Entry #${sorted[i].sequence} was changed after it was recorded.`);
+      previousHash = hash;
+    }
+    return { valid: true, checked: sorted.length };
+  },
+
+  // Only the fields that differ, so edits show exactly what moved
+  diff: <T extends object>(before: T, after: T, ignore: (keyof T)[] = []): { before: Record<string, unknown>; after: Record<string, unknown> } => {
+    const changed = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof T & string>;
+    keys.forEach(key => {
+      if (ignore.includes(key)) return;
+      if (HashService.canonicalJson(before[key]) === HashService.canonicalJson(after[key])) return;
+      changed.before[key] = before[key];
+      changed.after[key] = after[key];
+    });
+    return changed;
+  },
+
+  matches: (entry: AuditEntry, filter: AuditFilter): boolean => {
+    const day = new Date(entry.timestamp);
+    if (filter.from && day < new Date(`${filter.from}T00:00:00`)) return false;
+    if (filter.to && day > new Date(`${filter.to}T23:59:59.999`)) return false;
+    if (filter.action && entry.action !== filter.action) return false;
+    if (filter.user && entry.user !== filter.user && entry.approvedBy !== filter.user) return false;
+    const text = filter.text?.trim().toLowerCase();
+    if (text) {
+      const haystack = [entry.summary, entry.entityId, JSON.stringify(entry.before || {}), JSON.stringify(entry.after || {})].join(' ').toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Product } from '../types.ts';
+
+export type BarcodeFormat = 'UPC-A' | 'EAN-13' | 'EAN-8';
+
+export interface BarcodeCheck {
+  valid: boolean;
+  format: BarcodeFormat | null; // null for codes that are not UPC/EAN, which are accepted as-is
+  error?: string;
+}
+
+const FORMATS_BY_LENGTH: Record<number, BarcodeFormat> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+};
+
+export const BarcodeService = {
+  // GS1 mod-10 check digit for the payload (all digits except the check digit)
+  computeCheckDigit: (payload: string): number => {
+    const sum = payload
+      .split('')
+      .reverse()
+      .reduce((acc, digit, idx) => acc + parseInt(digit, 10) * (idx % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10;
+  },
+
+  validate: (code: string): BarcodeCheck => {
+    const trimmed = code.trim();
+    const format = /^\d+$/.test(trimmed) ? FORMATS_BY_LENGTH[trimmed.length] : undefined;
+    if (!format) return { valid: trimmed.length > 0, format: null };
+
+    const expected = BarcodeService.computeCheckDigit(trimmed.slice(0, -1));
+    if (expected !== parseInt(trimmed.slice(-1), 10)) {
+      return { valid: false, format, error: `Invalid ${format} check digit (expected ${expected}).` };
+    }
+    return { valid: true, format };
+  },
+
+  // UPC-A and EAN-13 with a leading zero are the same item, so compare them as EAN-13
+  normalize: (code: string): string => {
+    const trimmed = code.trim();
+    return /^\d{12}$/.test(trimmed) ? `0${trimmed}` : trimmed;
+  },
+
+  findProduct: (code: string, products: Product[]): Product | undefined => {
+    const normalized = BarcodeService.normalize(code);
+    return products.find(p => p.barcode && BarcodeService.normalize(p.barcode) === normalized);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { CatalogImportBatch, Product, TaxSettings, UnitOfMeasure } from '../types.ts';
+import { BarcodeService } from './barcodeService.ts';
+import { CsvService } from './csvService.ts';
+import { InventoryService, StockPosting } from './inventoryService.ts';
+import { MeasureService, UNIT_LABELS } from './measureService.ts';
+
+export type CatalogField = 'sku' | 'name' | 'price' | 'category' | 'barcode' | 'stock' | 'taxClass'
+  | 'reorderPoint' | 'reorderQuantity' | 'leadTimeDays' | 'imageUrl' | 'unit' | 'plu';
+
+export interface CatalogColumn {
+  field: CatalogField;
+  header: string; // Written on export
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Other headings recognised on import
+}
+
+export const CATALOG_COLUMNS: CatalogColumn[] = [
+  { field: 'sku', header: 'sku', label: 'SKU', required: true, aliases: ['item code', 'product code', 'code'] },
+  { field: 'name', header: 'name', label: 'Name', aliases: ['product name', 'description', 'title'] },
+  { field: 'price', header: 'price', label: 'Price', aliases: ['retail price', 'sell price', 'unit price'] },
+  { field: 'category', header: 'category', label: 'Category', aliases: ['department'] },
+  { field: 'barcode', header: 'barcode', label: 'Barcode', aliases: ['upc', 'ean', 'gtin'] },
+  { field: 'stock', header: 'stock', label: 'Opening Stock', aliases: ['quantity', 'qty', 'on hand'] },
+  { field: 'taxClass', header: 'tax_class', label: 'Tax Class', aliases: ['tax'] },
+  { field: 'reorderPoint', header: 'reorder_point', label: 'Reorder Point', aliases: ['min stock'] },
+  { field: 'reorderQuantity', header: 'reorder_quantity', label: 'Reorder Qty', aliases: ['reorder qty', 'pack size'] },
+  { field: 'leadTimeDays', header: 'lead_time_days', label: 'Lead Time (days)', aliases: ['lead time'] },
+  { field: 'imageUrl', header: 'image_url', label: 'Image URL', aliases: ['image'] },
+  { field: 'unit', header: 'unit', label: 'Sold By', aliases: ['uom', 'unit of measure'] },
+  { field: 'plu', header: 'plu', label: 'Scale PLU', aliases: ['scale plu'] },
+];
+
+// CSV column index for each imported field; unmapped fields are left as they are
+export type ColumnMapping = Partial<Record<CatalogField, number>>;
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportPreviewRow {
+  rowNumber: number; // Position in the file, counting the header as row 1
+  sku: string;
+  action: ImportAction;
+  product?: Product; // What will be saved
+  previous?: Product;
+  changes: CatalogField[];
+  errors: string[];
+}
+
+const OPTIONAL_COUNTS: (keyof Pick<Product, 'reorderPoint' | 'reorderQuantity' | 'leadTimeDays'>)[] = ['reorderPoint', 'reorderQuantity', 'leadTimeDays'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const CatalogService = {
+  // Match file headings to fields by export header, label or alias
+  autoMap: (headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    const normalized = headers.map(normalizeHeader);
+    CATALOG_COLUMNS.forEach(column => {
+      const names = [column.header, column.label, column.field, ...column.aliases].map(normalizeHeader);
+      const index = normalized.findIndex(h => names.includes(h));
+      if (index >= 0) mapping[column.field] = index;
+    });
+    return mapping;
+  },
+
+  // One text form per field, shared by export and change detection so a round trip compares equal
+  format: (product: Product, field: CatalogField, taxSettings: TaxSettings): string => {
+    switch (field) {
+      case 'price': return String(product.price);
+      case 'stock': return String(product.stock);
+      case 'taxClass':
+        if (!product.taxClassId) return '';
+        return taxSettings.classes.find(c => c.id === product.taxClassId)?.name || product.taxClassId;
+      default: {
+        const value = product[field];
+        return value === undefined || value === null ? '' : String(value);
+      }
+    }
+  },
+
+  exportCsv: (products: Product[], taxSettings: TaxSettings): string => {
+    const sorted = [...products].sort((a, b) => a.sku.localeCompare(b.sku));
+    return CsvService.stringify([
+      CATALOG_COLUMNS.map(c => c.header),
+      ...sorted.map(p => CATALOG_COLUMNS.map(c => CatalogService.format(p, c.field, taxSettings))),
+    ]);
+  },
+
+  // Read the mapped cells of one row into product fields
+  parseRow: (cells: string[], mapping: ColumnMapping, taxSettings: TaxSettings): { values: Partial<Product>; errors: string[] } => {
+    const values: Partial<Product> = {};
+    const errors: string[] = [];
+    const cell = (field: CatalogField) => (cells[mapping[field]!] ?? '').trim();
+    const mapped = (field: CatalogField) => mapping[field] !== undefined;
+
+    if (mapped('sku')) values.sku = cell('sku').toUpperCase();
+    if (!values.sku) errors.push('SKU is required.');
+
+    if (mapped('name')) {
+      values.name = cell('name');
+      if (!values.name) errors.push('Name is empty.');
+    }
+
+    if (mapped('price')) {
+      const price = Number(cell('price').replace(/^\$/, ''));
+      if (cell('price') === '' || !isFinite(price) || price < 0) errors.push(`Price "${cell('price')}" is not a valid amount.`);
+      else values.price = price;
+    }
+
+    if (mapped('category')) values.category = cell('category') || 'General';
+
+    if (mapped('barcode')) {
+      values.barcode = cell('barcode') || undefined;
+      if (values.barcode) {
+        const check = BarcodeService.validate(values.barcode);
+        if (!check.valid) errors.push(check.error || `Barcode "${values.barcode}" is not valid.`);
+      }
+    }
+
+    // Blank means sold by the unit
+    if (mapped('unit')) {
+      const unit = cell('unit').toLowerCase();
+      if (unit && !Object.keys(UNIT_LABELS).includes(unit)) errors.push(`Unit "${cell('unit')}" must be each, kg or lb.`);
+      values.unit = unit && unit !== 'each' ? unit as UnitOfMeasure : undefined;
+    }
+
+    if (mapped('plu')) {
+      values.plu = cell('plu') || undefined;
+      if (values.plu && !/^\d+$/.test(values.plu)) errors.push(`PLU "${values.plu}" must be digits only.`);
+    }
+
+    if (mapped('stock') && cell('stock') !== '') {
+      const stock = Number(cell('stock'));
+      if (!MeasureService.fitsUnit(stock, values.unit) || stock < 0) {
+        errors.push(`Stock "${cell('stock')}" must be a ${MeasureService.isWeighed(values) ? 'non-negative weight' : 'whole number'}.`);
+      } else values.stock = stock;
+    }
+
+    if (mapped('taxClass')) {
+      const text = cell('taxClass');
+      const taxClass = taxSettings.classes.find(c => c.id === text || c.name.toLowerCase() === text.toLowerCase());
+      if (text && !taxClass) errors.push(`Unknown tax class "${text}".`);
+      values.taxClassId = taxClass?.id;
+    }
+
+    OPTIONAL_COUNTS.forEach(field => {
+      if (!mapped(field)) return;
+      const text = cell(field);
+      const count = Number(text);
+      if (text !== '' && (!Number.isInteger(count) || count < 0)) {
+        errors.push(`${CATALOG_COLUMNS.find(c => c.field === field)!.label} "${text}" must be a whole number.`);
+      }
+      values[field] = text === '' ? undefined : count;
+    });
+
+    if (mapped('imageUrl')) values.imageUrl = cell('imageUrl') || undefined;
+
+    return { values, errors };
+  },
+
+  // Dry run: work out what each data row would do without changing anything.
+  // Rows upsert by SKU; stock only applies to new products, since existing stock lives in the ledger.
+  preview: (rows: string[][], mapping: ColumnMapping, products: Product[], taxSettings: TaxSettings): ImportPreviewRow[] => {
+    const bySku = new Map(products.map(p => [p.sku.toUpperCase(), p]));
+    const seenSkus = new Set<string>();
+    const seenBarcodes = new Map<string, string>(); // Normalized barcode -> SKU earlier in the file
+    const compared = CATALOG_COLUMNS.map(c => c.field).filter(f => f !== 'sku' && f !== 'stock' && mapping[f] !== undefined);
+
+    return rows.slice(1).map((cells, i) => {
+      const rowNumber = i + 2;
+      const { values, errors } = CatalogService.parseRow(cells, mapping, taxSettings);
+      const sku = values.sku || '';
+      const previous = bySku.get(sku);
+
+      if (sku && seenSkus.has(sku)) errors.push(`SKU ${sku} appears more than once in the file.`);
+      seenSkus.add(sku);
+
+      if (values.barcode) {
+        const normalized = BarcodeService.normalize(values.barcode);
+        const owner = BarcodeService.findProduct(values.barcode, products.filter(p => p.id !== previous?.id));
+        if (owner && owner.sku.toUpperCase() !== sku) errors.push(`Barcode is already assigned to ${owner.name}.`);
+        const earlier = seenBarcodes.get(normalized);
+        if (earlier && earlier !== sku) errors.push(`Barcode is also used by ${earlier} in the file.`);
+        seenBarcodes.set(normalized, sku);
+      }
+
+      if (values.plu) {
+        const owner = MeasureService.findByPlu(values.plu, products.filter(p => p.id !== previous?.id));
+        if (owner && owner.sku.toUpperCase() !== sku) errors.push(`PLU ${values.plu} is already assigned to ${owner.name}.`);
+      }
+      // Existing stock is counted in the old unit
+      if (previous && 'unit' in values && (values.unit || 'each') !== (previous.unit || 'each') && previous.stock !== 0) {
+        errors.push(`Adjust ${previous.name} to zero stock before changing its unit.`);
+      }
+
+      if (!previous) {
+        // Mapped but blank or unreadable cells are already reported above
+        if (mapping.name === undefined) errors.push('New products need a name column.');
+        if (mapping.price === undefined) errors.push('New products need a price column.');
+      }
+      if (errors.length > 0) return { rowNumber, sku, action: 'invalid', changes: [], errors };
+
+      if (!previous) {
+        const product = { category: 'General', ...values, id: crypto.randomUUID(), stock: values.stock || 0 } as Product;
+        return { rowNumber, sku, action: 'create', product, changes: compared, errors };
+      }
+
+      const { stock, ...updates } = values;
+      const product: Product = { ...previous, ...updates };
+      const changes = compared.filter(f => CatalogService.format(previous, f, taxSettings) !== CatalogService.format(product, f, taxSettings));
+      return { rowNumber, sku, action: changes.length > 0 ? 'update' : 'unchanged', product, previous, changes, errors };
+    });
+  },
+
+  // Everything the accepted rows write, plus the record needed to take it all back
+  buildImport: (rows: ImportPreviewRow[], user: string, fileName: string): { products: Product[]; posting: StockPosting; batch: CatalogImportBatch } => {
+    const created = rows.filter(r => r.action === 'create').map(r => r.product!);
+    const updated = rows.filter(r => r.action === 'update');
+    const openings = created.map(p => InventoryService.openingBalance(p, user));
+    const posting: StockPosting = {
+      lots: openings.flatMap(o => o.lots),
+      movements: openings.flatMap(o => o.movements),
+    };
+    return {
+      products: [...created, ...updated.map(r => r.product!)],
+      posting,
+      batch: {
+        id: crypto.randomUUID(),
+        importedAt: new Date().toISOString(),
+        user,
+        fileName,
+        createdProductIds: created.map(p => p.id),
+        previousProducts: updated.map(r => r.previous!),
+        lotIds: posting.lots.map(l => l.id),
+        movementIds: posting.movements.map(m => m.id),
+      },
+    };
+  }
+};
\ No newline at end of file
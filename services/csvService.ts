@@ -0,0 +1,53 @@
+// RFC 4180 style: comma separated, fields quoted when they contain commas, quotes or line breaks
+export const CsvService = {
+  parse: (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    // Spreadsheet exports often start with a byte order mark
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+      const ch = input[i];
+      if (quoted) {
+        if (ch === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (ch === '"') {
+          quoted = false;
+        } else {
+          field += ch;
+        }
+      } else if (ch === '"') {
+        quoted = true;
+      } else if (ch === ',') {
+        row.push(field);
+        field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += ch;
+      }
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    // Drop blank lines, including the one a trailing newline leaves behind
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+  },
+
+  escape: (value: string | number | undefined | null): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  },
+
+  stringify: (rows: (string | number | undefined | null)[][]): string => {
+    return rows.map(r => r.map(CsvService.escape).join(',')).join('\r\n') + '\r\n';
+  }
+};
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Customer, Transaction } from '../types.ts';
+
+export type CustomerDraft = Pick<Customer, 'name' | 'phone' | 'email' | 'notes'>;
+
+export interface CustomerSummary {
+  transactions: Transaction[]; // Newest first, refunds included
+  visits: number; // Sales only
+  lifetimeSpend: number; // Net of refunds
+  refunded: number;
+  averageSale: number;
+  firstVisit?: string;
+  lastVisit?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Blank optional fields are dropped rather than stored as empty strings
+const optional = (value?: string) => value?.trim() || undefined;
+
+export const CustomerService = {
+  // Digits only, so "(555) 010-2030" and "555 0102030" are the same number
+  normalizePhone: (phone?: string): string => (phone || '').replace(/\D/g, ''),
+
+  search: (customers: Customer[], term: string): Customer[] => {
+    const text = term.trim().toLowerCase();
+    if (!text) return customers;
+    const digits = CustomerService.normalizePhone(text);
+    return customers.filter(c =>
+      c.name.toLowerCase().includes(text)
+      || (c.email || '').toLowerCase().includes(text)
+      || (digits.length >= 3 && CustomerService.normalizePhone(c.phone).includes(digits))
+    );
+  },
+
+  // Returns a new profile, or `existing` with the draft applied
+  save: (draft: CustomerDraft, customers: Customer[], existing?: Customer): Customer => {
+    const name = draft.name.trim();
+    if (!name) throw new Error('Name is required.');
+    const email = optional(draft.email);
+    if (email && !EMAIL_PATTERN.test(email)) throw new Error(`"${email}" is not a valid email address.`);
+    const phone = optional(draft.phone);
+    const digits = CustomerService.normalizePhone(phone);
+    if (phone && digits.length < 6) throw new Error('Phone number looks too short.');
+    const others = customers.filter(c => c.id !== existing?.id);
+    const samePhone = digits && others.find(c => CustomerService.normalizePhone(c.phone) === digits);
+    if (samePhone) throw new Error(`${samePhone.name} already has that phone number.`);
+    const sameEmail = email && others.find(c => c.email?.toLowerCase() === email.toLowerCase());
+    if (sameEmail) throw new Error(`${sameEmail.name} already has that email address.`);
+    return {
+      id: existing?.id || crypto.randomUUID(),
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      name,
+      phone,
+      email,
+      notes: optional(draft.notes),
+    };
+  },
+
+  summarize: (customerId: string, transactions: Transaction[]): CustomerSummary => {
+    const history = transactions
+      .filter(t => t.customerId === customerId)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const sales = history.filter(t => t.type !== 'refund');
+    const salesTotal = sales.reduce((sum, t) => sum + t.total, 0);
+    // Refund totals are negative
+    const refunded = -history.filter(t => t.type === 'refund').reduce((sum, t) => sum + t.total, 0);
+    return {
+      transactions: history,
+      visits: sales.length,
+      lifetimeSpend: round(salesTotal - refunded),
+      refunded: round(refunded),
+      averageSale: sales.length > 0 ? round(salesTotal / sales.length) : 0,
+      firstVisit: sales[sales.length - 1]?.date,
+      lastVisit: sales[0]?.date,
+    };
+  }
+};
\ No newline at end of file
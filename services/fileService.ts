@@ -0,0 +1,11 @@
+export const FileService = {
+  // Hand a generated file to the browser as a download
+  download: (filename: string, data: BlobPart, type: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+};
\ No newline at end of file
@@ -1,10 +1,13 @@
 import { GoogleGenAI } from "@google/genai";
-import { Product, Transaction } from "../types.ts";
+import { LotStock, Product, Transaction } from "../types.ts";
+import { ReorderService } from "./reorderService.ts";
+import { InventoryService } from "./inventoryService.ts";
+import { GiftCardService } from "./giftCardService.ts";
 
 const GEMINI_API_KEY = process.env.API_KEY || '';
 
 export const GeminiService = {
-  analyzeBusiness: async (products: Product[], transactions: Transaction[]) => {
+  analyzeBusiness: async (products: Product[], transactions: Transaction[], lotStock: LotStock[]) => {
     if (!GEMINI_API_KEY) {
       throw new Error("API Key is missing.");
     }
@@ -12,10 +15,14 @@ export const GeminiService = {
     const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
     
     // Prepare context
-    const lowStock = products.filter(p => p.stock < 10).map(p => p.name);
-    const expired = products.filter(p => p.expiryDate && new Date(p.expiryDate) < new Date()).map(p => p.name);
+    const lowStock = products.filter(ReorderService.isLowStock).map(p => `${p.name} (${p.stock} left, reorder at ${ReorderService.reorderPoint(p)})`);
+    const expired = products
+      .map(p => ({ name: p.name, units: InventoryService.expiredUnits(p.id, lotStock) }))
+      .filter(p => p.units > 0)
+      .map(p => `${p.name} (${p.units} expired on hand)`);
     const recentSales = transactions.slice(0, 10);
-    const totalRevenue = transactions.reduce((sum, t) => sum + t.total, 0);
+    // Gift cards sold are money held for later sales, not revenue
+    const totalRevenue = transactions.reduce((sum, t) => sum + t.total - GiftCardService.cardsSold(t), 0);
 
     const prompt = `
       You are an expert retail analyst. Analyze the following store data and provide 3 concise, actionable bullet points for the store owner.
@@ -23,7 +30,7 @@ export const GeminiService = {
 
       Data:
       - Total Revenue (All Time): $${totalRevenue.toFixed(2)}
-      - Low Stock Items (<10 units): ${lowStock.join(', ') || 'None'}
+      - Low Stock Items (at or below their reorder point): ${lowStock.join(', ') || 'None'}
       - Expired/Expiring Items: ${expired.join(', ') || 'None'}
       - Recent Transaction Count: ${recentSales.length}
 
@@ -0,0 +1,137 @@
+import { CartItem, GiftCard, GiftCardEventType, GiftCardKind, PaymentLine, Transaction } from '../types.ts';
+import { TenderService } from './tenderService.ts';
+
+export const GIFT_CARD_KIND_LABELS: Record<GiftCardKind, string> = {
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit',
+};
+
+export const GIFT_CARD_EVENT_LABELS: Record<GiftCardEventType, string> = {
+  issue: 'Issued',
+  load: 'Topped up',
+  spend: 'Spent',
+  refund: 'Refunded to card',
+};
+
+// Gift card sales are booked against this category so reports can tell them from merchandise
+export const GIFT_CARD_CATEGORY = 'Gift Cards';
+
+// No 0/O or 1/I so codes survive being read aloud or typed from a receipt
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_GROUPS = 4;
+
+export const GiftCardService = {
+  // Typed codes may come with spaces, dashes or lower case
+  normalizeCode: (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, ''),
+
+  generateCode: (cards: GiftCard[]): string => {
+    for (;;) {
+      const bytes = crypto.getRandomValues(new Uint8Array(CODE_GROUPS * 4));
+      const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+      const code = chars.match(/.{4}/g)!.join('-');
+      if (!GiftCardService.find(code, cards)) return code;
+    }
+  },
+
+  find: (code: string, cards: GiftCard[]): GiftCard | undefined => {
+    const wanted = GiftCardService.normalizeCode(code);
+    return wanted ? cards.find(c => GiftCardService.normalizeCode(c.code) === wanted) : undefined;
+  },
+
+  // Shows only the last group on spend receipts so a lost receipt can't be used to drain the card
+  maskCode: (code: string): string => `****${code.slice(-4)}`,
+
+  // Returns the card with the movement applied; refuses to take it below zero
+  applyEvent: (card: GiftCard, type: GiftCardEventType, amount: number, user: string, transactionId?: string, timestamp = new Date().toISOString()): GiftCard => {
+    const balance = TenderService.roundCurrency(card.balance + amount);
+    if (balance < 0) throw new Error(`Card ${GiftCardService.maskCode(card.code)} only has $${card.balance.toFixed(2)} left.`);
+    return {
+      ...card,
+      balance,
+      history: [...card.history, { id: crypto.randomUUID(), timestamp, type, amount: TenderService.roundCurrency(amount), balanceAfter: balance, transactionId, user }],
+    };
+  },
+
+  issue: (kind: GiftCardKind, code: string, amount: number, user: string, options: { customerId?: string; transactionId?: string; timestamp?: string } = {}): GiftCard => {
+    const card: GiftCard = {
+      id: crypto.randomUUID(),
+      code,
+      kind,
+      balance: 0,
+      createdAt: options.timestamp || new Date().toISOString(),
+      customerId: options.customerId,
+      history: [],
+    };
+    return GiftCardService.applyEvent(card, 'issue', amount, user, options.transactionId, options.timestamp);
+  },
+
+  // The single line a gift card sale is made of: untaxed and outside promotions and stock
+  saleItem: (code: string, amount: number, isTopUp: boolean): CartItem => ({
+    id: `gift-card-${GiftCardService.normalizeCode(code)}`,
+    sku: 'GIFT-CARD',
+    name: `${isTopUp ? 'Gift card top-up' : 'Gift card'} ${code}`,
+    price: amount,
+    category: GIFT_CARD_CATEGORY,
+    stock: 0,
+    quantity: 1,
+    lineDiscount: 0,
+    lineNet: amount,
+    lineTaxes: {},
+    giftCardCode: code,
+  }),
+
+  // Spending checks the balance net of anything already charged to the card in this payment
+  redeem: (code: string, amount: number, cards: GiftCard[], payments: PaymentLine[]): PaymentLine => {
+    const card = GiftCardService.find(code, cards);
+    if (!card) throw new Error(`No gift card or store credit found for "${code}".`);
+    const pending = payments.filter(p => p.method === 'gift_card' && p.giftCardCode === card.code).reduce((sum, p) => sum + p.amount, 0);
+    const available = TenderService.roundCurrency(card.balance - pending);
+    if (TenderService.roundCurrency(amount) > available) {
+      throw new Error(`Card ${GiftCardService.maskCode(card.code)} only has $${available.toFixed(2)} available.`);
+    }
+    return { method: 'gift_card', amount: TenderService.roundCurrency(amount), giftCardCode: card.code };
+  },
+
+  // Money taken for cards sold or topped up. It is owed to the holder, not earned, until the card is spent.
+  cardsSold: (transaction: Transaction): number => {
+    return TenderService.roundCurrency(transaction.items
+      .filter(i => i.giftCardCode)
+      .reduce((sum, i) => sum + (i.lineNet ?? i.price * i.quantity), 0));
+  },
+
+  // Apply a completed sale or refund to the cards it touched. Refund credit with no card
+  // named becomes new store credit, and its code is written back onto the transaction.
+  settle: (transaction: Transaction, cards: GiftCard[], user: string): { transaction: Transaction; cards: GiftCard[] } => {
+    const changed = new Map<string, GiftCard>();
+    const current = (code: string) => GiftCardService.find(code, [...changed.values(), ...cards]);
+    const save = (card: GiftCard) => changed.set(card.id, card);
+    const at = { transactionId: transaction.id, timestamp: transaction.date };
+
+    transaction.items.filter(i => i.giftCardCode).forEach(item => {
+      const amount = item.lineNet ?? item.price * item.quantity;
+      const existing = current(item.giftCardCode!);
+      save(existing
+        ? GiftCardService.applyEvent(existing, 'load', amount, user, at.transactionId, at.timestamp)
+        : GiftCardService.issue('gift_card', item.giftCardCode!, amount, user, { ...at, customerId: transaction.customerId }));
+    });
+
+    const payments = transaction.payments.map(p => {
+      if (p.method !== 'gift_card') return p;
+      const card = p.giftCardCode ? current(p.giftCardCode) : undefined;
+      if (p.amount > 0) {
+        if (!card) throw new Error(`Gift card ${p.giftCardCode} no longer exists.`);
+        save(GiftCardService.applyEvent(card, 'spend', -p.amount, user, at.transactionId, at.timestamp));
+        return p;
+      }
+      if (card) {
+        save(GiftCardService.applyEvent(card, 'refund', -p.amount, user, at.transactionId, at.timestamp));
+        return p;
+      }
+      const credit = GiftCardService.issue('store_credit', GiftCardService.generateCode([...changed.values(), ...cards]), -p.amount, user, { ...at, customerId: transaction.customerId });
+      save(credit);
+      return { ...p, giftCardCode: credit.code };
+    });
+
+    return { transaction: { ...transaction, payments }, cards: [...changed.values()] };
+  }
+};
\ No newline at end of file
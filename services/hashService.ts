@@ -0,0 +1,19 @@
+export const HashService = {
+  // Hex-encoded SHA-256 of the UTF-8 text
+  sha256: async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  },
+
+  // JSON with object keys sorted at every level, so equal values always hash the same
+  canonicalJson: (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(v => HashService.canonicalJson(v === undefined ? null : v)).join(',')}]`;
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${HashService.canonicalJson(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+};
\ No newline at end of file
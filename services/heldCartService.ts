@@ -0,0 +1,54 @@
+import { CartState, Product, Promotion } from '../types.ts';
+import { PromotionService } from './promotionService.ts';
+import { MeasureService } from './measureService.ts';
+
+export interface CartRevalidation {
+  cart: CartState;
+  changes: string[]; // Human-readable notes for the cashier
+}
+
+export const HeldCartService = {
+  // Reconcile a parked cart with the current catalog: pick up new prices and product
+  // details, trim quantities to what is on the shelf now and drop coupons that lapsed.
+  revalidate: (cart: CartState, products: Product[], promotions: Promotion[]): CartRevalidation => {
+    const changes: string[] = [];
+    const items: CartState['items'] = [];
+
+    cart.items.forEach(item => {
+      const product = products.find(p => p.id === item.id);
+      if (!product) {
+        changes.push(`${item.name} is no longer in the catalog and was removed.`);
+        return;
+      }
+      if (product.price !== item.price) {
+        changes.push(`${product.name} price changed from $${item.price.toFixed(2)} to $${product.price.toFixed(2)}.`);
+      }
+      let quantity = item.quantity;
+      if (quantity > product.stock) {
+        quantity = Math.max(0, product.stock);
+        changes.push(quantity === 0
+          ? `${product.name} is out of stock and was removed.`
+          : `${product.name} reduced from ${MeasureService.format(item.quantity, product.unit)} to ${MeasureService.format(quantity, product.unit)} (only ${MeasureService.format(product.stock, product.unit)} in stock).`);
+      }
+      if (quantity > 0) {
+        items.push({ ...product, quantity, discount: item.discount });
+      }
+    });
+
+    const couponCodes = cart.couponCodes.filter(code => {
+      try {
+        PromotionService.findCoupon(code, promotions);
+        return true;
+      } catch (e) {
+        changes.push((e as Error).message);
+        return false;
+      }
+    });
+
+    return { cart: { ...cart, items, couponCodes }, changes };
+  },
+
+  defaultLabel: (date: Date = new Date()): string => {
+    return `Cart ${date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { KeyRange, STORE_DEFINITIONS, STORE_NAMES, StorageBackend, StoreName, StoredRecord } from './storageBackend.ts';
+
+const DB_NAME = 'retailpulse';
+// Bump whenever STORE_DEFINITIONS gains a store or an index so onupgradeneeded creates it
+const DB_VERSION = 11;
+const DERIVED_FIELD = '_index';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completed = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted.'));
+});
+
+const toKeyRange = (range: KeyRange): IDBKeyRange | undefined => {
+  if (range.equals !== undefined) return IDBKeyRange.only(range.equals);
+  if (range.from !== undefined && range.to !== undefined) return IDBKeyRange.bound(range.from, range.to);
+  if (range.from !== undefined) return IDBKeyRange.lowerBound(range.from);
+  if (range.to !== undefined) return IDBKeyRange.upperBound(range.to);
+  return undefined;
+};
+
+// Derived index values live under one nested field so they never leak into app records
+const encode = (store: StoreName, record: unknown) => {
+  const derive = STORE_DEFINITIONS[store].derive;
+  return derive ? { ...record as StoredRecord, [DERIVED_FIELD]: derive(record as StoredRecord) } : record;
+};
+
+const decode = (record: StoredRecord | undefined) => {
+  if (!record || !(DERIVED_FIELD in record)) return record;
+  const { [DERIVED_FIELD]: _, ...rest } = record;
+  return rest;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const tx = request.transaction!;
+    STORE_NAMES.forEach(store => {
+      const definition = STORE_DEFINITIONS[store];
+      const objectStore = db.objectStoreNames.contains(store)
+        ? tx.objectStore(store)
+        : db.createObjectStore(store, { keyPath: definition.keyPath });
+      definition.indexes.forEach(index => {
+        if (!objectStore.indexNames.contains(index.name)) {
+          const keyPath = index.derived ? `${DERIVED_FIELD}.${index.keyPath}` : index.keyPath;
+          objectStore.createIndex(index.name, keyPath, { multiEntry: !!index.multiEntry });
+        }
+      });
+    });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('Close other RetailPulse tabs so the database can be upgraded.'));
+});
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+
+  const read = <T>(store: StoreName, run: (objectStore: IDBObjectStore) => IDBRequest<T>) =>
+    promisify(run(db.transaction(store, 'readonly').objectStore(store)));
+
+  const write = async (store: StoreName, run: (objectStore: IDBObjectStore) => void) => {
+    const tx = db.transaction(store, 'readwrite');
+    run(tx.objectStore(store));
+    await completed(tx);
+  };
+
+  return {
+    name: 'indexeddb',
+
+    getAll: async <T>(store: StoreName) => (await read<StoredRecord[]>(store, s => s.getAll())).map(decode) as T[],
+
+    get: async <T>(store: StoreName, key: string) => decode(await read<StoredRecord | undefined>(store, s => s.get(key))) as T | undefined,
+
+    query: async <T>(store: StoreName, index: string, range: KeyRange) => {
+      const records = await read<StoredRecord[]>(store, s => s.index(index).getAll(toKeyRange(range)));
+      // multiEntry indexes return a record once per matching element
+      const keyPath = STORE_DEFINITIONS[store].keyPath;
+      const seen = new Set<unknown>();
+      return records.filter(r => !seen.has(r[keyPath]) && !!seen.add(r[keyPath])).map(decode) as T[];
+    },
+
+    put: <T>(store: StoreName, record: T) => write(store, s => { s.put(encode(store, record)); }),
+
+    putMany: <T>(store: StoreName, records: T[]) => write(store, s => { records.forEach(r => s.put(encode(store, r))); }),
+
+    remove: (store: StoreName, key: string) => write(store, s => { s.delete(key); }),
+  };
+};
\ No newline at end of file
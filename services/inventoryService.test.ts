@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { LotStock } from '../types.ts';
+import { InventoryService } from './inventoryService.ts';
+
+const now = new Date('2024-06-15T12:00:00.000Z');
+
+const lot = (id: string, quantity: number, expiryDate?: string, receivedAt = '2024-01-01T00:00:00.000Z', productId = 'p1'): LotStock => ({
+  lot: { id, productId, expiryDate, receivedAt },
+  quantity,
+});
+
+describe('InventoryService.allocate', () => {
+  it('takes the earliest expiry first', () => {
+    const lots = [lot('late', 5, '2024-09-01'), lot('soon', 3, '2024-07-01'), lot('none', 10)];
+    expect(InventoryService.allocate('p1', 6, lots, now)).toEqual([
+      { lotId: 'soon', quantity: 3 },
+      { lotId: 'late', quantity: 3 },
+    ]);
+  });
+
+  it('uses undated lots after dated ones, oldest delivery first', () => {
+    const lots = [lot('newer', 4, undefined, '2024-05-01T00:00:00.000Z'), lot('older', 4, undefined, '2024-02-01T00:00:00.000Z'), lot('dated', 1, '2024-12-31')];
+    expect(InventoryService.allocate('p1', 6, lots, now)).toEqual([
+      { lotId: 'dated', quantity: 1 },
+      { lotId: 'older', quantity: 4 },
+      { lotId: 'newer', quantity: 1 },
+    ]);
+  });
+
+  it('leaves expired lots until fresh stock runs out', () => {
+    const lots = [lot('expired', 5, '2024-06-01'), lot('fresh', 2, '2024-08-01')];
+    expect(InventoryService.allocate('p1', 4, lots, now)).toEqual([
+      { lotId: 'fresh', quantity: 2 },
+      { lotId: 'expired', quantity: 2 },
+    ]);
+  });
+
+  it('skips empty lots and other products', () => {
+    const lots = [lot('empty', 0, '2024-06-20'), lot('other', 9, '2024-06-20', undefined, 'p2'), lot('mine', 9, '2024-07-20')];
+    expect(InventoryService.allocate('p1', 2, lots, now)).toEqual([{ lotId: 'mine', quantity: 2 }]);
+  });
+
+  it('leaves whatever the lots cannot cover unassigned', () => {
+    expect(InventoryService.allocate('p1', 5, [lot('a', 2, '2024-07-01')], now)).toEqual([
+      { lotId: 'a', quantity: 2 },
+      { quantity: 3 },
+    ]);
+    expect(InventoryService.allocate('p1', 1.5, [], now)).toEqual([{ quantity: 1.5 }]);
+  });
+
+  it('splits weighed quantities without floating point leftovers', () => {
+    const lots = [lot('a', 0.1, '2024-07-01'), lot('b', 1, '2024-08-01')];
+    expect(InventoryService.allocate('p1', 0.3, lots, now)).toEqual([
+      { lotId: 'a', quantity: 0.1 },
+      { lotId: 'b', quantity: 0.2 },
+    ]);
+  });
+});
\ No newline at end of file
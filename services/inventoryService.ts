@@ -0,0 +1,211 @@
+import { Lot, LotAllocation, LotStock, Product, StockMovement, StockMovementReason, Transaction } from '../types.ts';
+import { MeasureService } from './measureService.ts';
+
+export const MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  opening_balance: 'Opening Balance',
+  sale: 'Sale',
+  return: 'Customer Return',
+  receipt: 'Stock Received',
+  shrinkage: 'Shrinkage',
+  damage: 'Damaged',
+  count_correction: 'Count Correction',
+  transfer: 'Transfer',
+};
+
+// Reasons a person can record by hand; sales, returns and opening balances are posted by the system
+export const MANUAL_MOVEMENT_REASONS: StockMovementReason[] = ['receipt', 'shrinkage', 'damage', 'count_correction', 'transfer'];
+
+export interface LotDetails {
+  code?: string;
+  expiryDate?: string;
+  purchaseOrderId?: string;
+}
+
+export interface StockPosting {
+  lots: Lot[]; // New lots to store alongside the movements
+  movements: StockMovement[];
+}
+
+const lotKey = (lotId?: string) => lotId || '';
+
+export const InventoryService = {
+  createMovement: (
+    productId: string,
+    reason: StockMovementReason,
+    quantity: number,
+    user: string,
+    extra: { note?: string; referenceId?: string; timestamp?: string; lotId?: string } = {}
+  ): StockMovement => ({
+    id: crypto.randomUUID(),
+    productId,
+    reason,
+    quantity,
+    user,
+    timestamp: extra.timestamp || new Date().toISOString(),
+    note: extra.note,
+    referenceId: extra.referenceId,
+    lotId: extra.lotId,
+  }),
+
+  createLot: (productId: string, details: LotDetails = {}): Lot => ({
+    id: crypto.randomUUID(),
+    productId,
+    code: details.code || undefined,
+    expiryDate: details.expiryDate || undefined,
+    receivedAt: new Date().toISOString(),
+    purchaseOrderId: details.purchaseOrderId,
+  }),
+
+  // The stock a new product is created with becomes its first lot
+  openingBalance: (product: Product, user: string): StockPosting => {
+    if (!product.stock || product.stock < 0) return { lots: [], movements: [] };
+    const lot = InventoryService.createLot(product.id, { expiryDate: product.expiryDate });
+    return {
+      lots: [lot],
+      movements: [InventoryService.createMovement(product.id, 'opening_balance', product.stock, user, { lotId: lot.id })],
+    };
+  },
+
+  isExpired: (lot: Lot, now: Date = new Date()): boolean => !!lot.expiryDate && new Date(lot.expiryDate) < now,
+
+  lotBalances: (lots: Lot[], movements: StockMovement[]): LotStock[] => {
+    const onHand: Record<string, number> = {};
+    movements.forEach(m => { if (m.lotId) onHand[m.lotId] = (onHand[m.lotId] || 0) + m.quantity; });
+    return lots.map(lot => ({ lot, quantity: MeasureService.roundQuantity(onHand[lot.id] || 0) }));
+  },
+
+  expiredUnits: (productId: string, lotStock: LotStock[], now: Date = new Date()): number => {
+    return lotStock
+      .filter(ls => ls.lot.productId === productId && ls.quantity > 0 && InventoryService.isExpired(ls.lot, now))
+      .reduce((sum, ls) => sum + ls.quantity, 0);
+  },
+
+  // Earliest expiry first. Expired lots come last so they stay visible for write-off
+  // instead of quietly being sold while fresher stock is on the shelf.
+  fefoOrder: (productId: string, lotStock: LotStock[], now: Date = new Date()): LotStock[] => {
+    const sortKey = (ls: LotStock) => [
+      InventoryService.isExpired(ls.lot, now) ? 1 : 0,
+      ls.lot.expiryDate || '9999-12-31',
+      ls.lot.receivedAt,
+    ].join('|');
+    return lotStock
+      .filter(ls => ls.lot.productId === productId && ls.quantity > 0)
+      .sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  },
+
+  // Split a quantity across lots; anything beyond what the lots hold is left unassigned
+  allocate: (productId: string, quantity: number, lotStock: LotStock[], now: Date = new Date()): LotAllocation[] => {
+    const allocations: LotAllocation[] = [];
+    let remaining = quantity;
+    for (const ls of InventoryService.fefoOrder(productId, lotStock, now)) {
+      if (remaining <= 0) break;
+      const take = Math.min(remaining, ls.quantity);
+      allocations.push({ lotId: ls.lot.id, quantity: take });
+      remaining = MeasureService.roundQuantity(remaining - take);
+    }
+    if (remaining > 0) allocations.push({ quantity: remaining });
+    return allocations;
+  },
+
+  // A change recorded by hand. Removals come out of the chosen lot or FEFO order;
+  // additions go into the chosen lot or a new one.
+  adjustment: (
+    productId: string,
+    reason: StockMovementReason,
+    delta: number,
+    user: string,
+    lotStock: LotStock[],
+    target: { lotId?: string; newLot?: LotDetails } = {},
+    note?: string
+  ): StockPosting => {
+    const move = (quantity: number, lotId?: string) => InventoryService.createMovement(productId, reason, quantity, user, { note, lotId });
+    if (target.lotId) return { lots: [], movements: [move(delta, target.lotId)] };
+    if (delta < 0) {
+      return { lots: [], movements: InventoryService.allocate(productId, -delta, lotStock).map(a => move(-a.quantity, a.lotId)) };
+    }
+    const lot = InventoryService.createLot(productId, target.newLot);
+    return { lots: [lot], movements: [move(delta, lot.id)] };
+  },
+
+  // Decide which lots each sold line comes out of and post the matching movements
+  depleteForSale: (transaction: Transaction, lotStock: LotStock[], user: string): { transaction: Transaction; movements: StockMovement[] } => {
+    const available = lotStock.map(ls => ({ ...ls }));
+    const items = transaction.items.map(item => {
+      // Gift cards are a liability, not stock
+      if (item.giftCardCode) return item;
+      const lotAllocations = InventoryService.allocate(item.id, item.quantity, available);
+      lotAllocations.forEach(a => {
+        const ls = available.find(entry => entry.lot.id === a.lotId);
+        if (ls) ls.quantity -= a.quantity;
+      });
+      return { ...item, lotAllocations };
+    });
+    const movements = items.flatMap(item => (item.lotAllocations || []).map(a =>
+      InventoryService.createMovement(item.id, 'sale', -a.quantity, user, { referenceId: transaction.id, timestamp: transaction.date, lotId: a.lotId })
+    ));
+    return { transaction: { ...transaction, items }, movements };
+  },
+
+  // Put restocked units back into the lots they were sold from, newest expiry first,
+  // net of what earlier refunds already returned to each lot
+  restockForRefund: (refund: Transaction, original: Transaction, priorRefunds: Transaction[], user: string): { transaction: Transaction; movements: StockMovement[] } => {
+    const items = refund.items.map(item => {
+      if (!item.restocked) return item;
+      const sold = original.items.find(i => i.id === item.id)?.lotAllocations || [];
+      const returned: Record<string, number> = {};
+      priorRefunds.forEach(r => r.items
+        .filter(i => i.id === item.id)
+        .forEach(i => (i.lotAllocations || []).forEach(a => { returned[lotKey(a.lotId)] = (returned[lotKey(a.lotId)] || 0) + a.quantity; })));
+
+      const lotAllocations: LotAllocation[] = [];
+      let remaining = item.quantity;
+      for (const allocation of [...sold].reverse()) {
+        if (remaining <= 0) break;
+        const open = MeasureService.roundQuantity(allocation.quantity - (returned[lotKey(allocation.lotId)] || 0));
+        const take = Math.min(remaining, Math.max(0, open));
+        if (take > 0) {
+          lotAllocations.push({ lotId: allocation.lotId, quantity: take });
+          remaining = MeasureService.roundQuantity(remaining - take);
+        }
+      }
+      // Sales from before lot tracking have nothing to return to
+      if (remaining > 0) lotAllocations.push({ quantity: remaining });
+      return { ...item, lotAllocations };
+    });
+    const movements = items.filter(item => item.restocked).flatMap(item => (item.lotAllocations || []).map(a =>
+      InventoryService.createMovement(item.id, 'return', a.quantity, user, { referenceId: refund.id, timestamp: refund.date, lotId: a.lotId })
+    ));
+    return { transaction: { ...refund, items }, movements };
+  },
+
+  onHandByProduct: (movements: StockMovement[]): Record<string, number> => {
+    const onHand: Record<string, number> = {};
+    movements.forEach(m => { onHand[m.productId] = MeasureService.roundQuantity((onHand[m.productId] || 0) + m.quantity); });
+    return onHand;
+  },
+
+  // Replace each product's cached stock and expiry with what the ledger and lots say
+  applyOnHand: (products: Product[], movements: StockMovement[], lots: Lot[] = []): Product[] => {
+    const onHand = InventoryService.onHandByProduct(movements);
+    const lotStock = InventoryService.lotBalances(lots, movements);
+    return products.map(p => {
+      const expiries = lotStock
+        .filter(ls => ls.lot.productId === p.id && ls.quantity > 0 && ls.lot.expiryDate)
+        .map(ls => ls.lot.expiryDate!)
+        .sort();
+      const hasLots = lots.some(l => l.productId === p.id);
+      return { ...p, stock: onHand[p.id] || 0, expiryDate: hasLots ? expiries[0] : p.expiryDate };
+    });
+  },
+
+  // Oldest first, each with the balance after it was applied
+  withRunningBalance: (movements: StockMovement[]): { movement: StockMovement; balance: number }[] => {
+    let balance = 0;
+    return [...movements]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map(movement => {
+        balance = MeasureService.roundQuantity(balance + movement.quantity);
+        return { movement, balance };
+      });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { KeyRange, STORE_DEFINITIONS, STORE_NAMES, StorageBackend, StoreName, StoredRecord, SettingRecord, createQuarantineEntry, indexValues, inRange } from './storageBackend.ts';
+
+// The original on-disk layout: one JSON array per record store and one key per setting.
+// Used where IndexedDB is unavailable, and as the source of the one-time migration.
+export const LEGACY_PREFIX = 'retailpulse_';
+
+const arrayKey = (store: StoreName) => `${LEGACY_PREFIX}${store}`;
+const settingKey = (key: string) => `${LEGACY_PREFIX}${key}`;
+const ARRAY_KEYS = STORE_NAMES.filter(s => s !== 'settings').map(arrayKey);
+
+const writeArray = (store: StoreName, records: unknown[]) => {
+  localStorage.setItem(arrayKey(store), JSON.stringify(records));
+};
+
+// Keep an unreadable payload for inspection instead of crashing on it or overwriting it
+const quarantineRaw = (store: StoreName, raw: unknown) => {
+  writeArray('quarantine', [createQuarantineEntry(store, raw, ['Stored data is not valid JSON.']), ...readArray('quarantine')]);
+};
+
+const readArray = (store: StoreName): StoredRecord[] => {
+  const data = localStorage.getItem(arrayKey(store));
+  if (data === null) return [];
+  try {
+    const parsed = JSON.parse(data);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {
+    // Fall through to quarantine
+  }
+  if (store === 'quarantine') throw new Error('The quarantine list in localStorage is unreadable.');
+  quarantineRaw(store, data);
+  writeArray(store, []);
+  return [];
+};
+
+const settingKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LEGACY_PREFIX) && !ARRAY_KEYS.includes(key)) {
+      keys.push(key.slice(LEGACY_PREFIX.length));
+    }
+  }
+  return keys;
+};
+
+const readSetting = (key: string): SettingRecord | undefined => {
+  const data = localStorage.getItem(settingKey(key));
+  if (data === null) return undefined;
+  try {
+    return { key, value: JSON.parse(data) };
+  } catch {
+    quarantineRaw('settings', { key, value: data });
+    localStorage.removeItem(settingKey(key));
+    return undefined;
+  }
+};
+
+const getAll = (store: StoreName): StoredRecord[] => {
+  if (store === 'settings') return settingKeys().flatMap(key => readSetting(key) || []).map(setting => ({ ...setting }));
+  return readArray(store);
+};
+
+const upsert = (store: StoreName, records: unknown[]) => {
+  if (store === 'settings') {
+    (records as SettingRecord[]).forEach(r => localStorage.setItem(settingKey(r.key), JSON.stringify(r.value)));
+    return;
+  }
+  const keyPath = STORE_DEFINITIONS[store].keyPath;
+  const existing = readArray(store);
+  (records as StoredRecord[]).forEach(record => {
+    const idx = existing.findIndex(e => e[keyPath] === record[keyPath]);
+    if (idx >= 0) existing[idx] = record;
+    else existing.unshift(record);
+  });
+  writeArray(store, existing);
+};
+
+export const LocalStorageBackend: StorageBackend = {
+  name: 'localstorage',
+
+  getAll: async <T>(store: StoreName) => getAll(store) as T[],
+
+  get: async <T>(store: StoreName, key: string) => {
+    if (store === 'settings') return readSetting(key) as T | undefined;
+    const keyPath = STORE_DEFINITIONS[store].keyPath;
+    return readArray(store).find(r => r[keyPath] === key) as T | undefined;
+  },
+
+  query: async <T>(store: StoreName, index: string, range: KeyRange) => {
+    const matches = getAll(store)
+      .map(record => ({ record, keys: indexValues(store, record, index).filter(v => inRange(v, range)) }))
+      .filter(m => m.keys.length > 0);
+    // Mirror IndexedDB, which returns index queries in key order
+    matches.sort((a, b) => a.keys[0] < b.keys[0] ? -1 : a.keys[0] > b.keys[0] ? 1 : 0);
+    return matches.map(m => m.record) as T[];
+  },
+
+  put: async <T>(store: StoreName, record: T) => upsert(store, [record]),
+
+  putMany: async <T>(store: StoreName, records: T[]) => upsert(store, records),
+
+  remove: async (store: StoreName, key: string) => {
+    if (store === 'settings') {
+      localStorage.removeItem(settingKey(key));
+      return;
+    }
+    const keyPath = STORE_DEFINITIONS[store].keyPath;
+    writeArray(store, readArray(store).filter(r => r[keyPath] !== key));
+  }
+};
\ No newline at end of file
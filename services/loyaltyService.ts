@@ -0,0 +1,119 @@
+import { CartItem, LoyaltyEntry, LoyaltyEntryType, LoyaltySettings, PaymentLine, Product, Transaction, TransactionLoyalty } from '../types.ts';
+import { TenderService } from './tenderService.ts';
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  pointsPerDollar: 1,
+  pointValue: 0.01,
+  minRedeemPoints: 100,
+  categoryMultipliers: {},
+};
+
+export const LOYALTY_ENTRY_LABELS: Record<LoyaltyEntryType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  earn_reversal: 'Earned points reversed',
+  redeem_reversal: 'Redeemed points returned',
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const pointsPaid = (payments: PaymentLine[]) => sum(payments.filter(p => p.method === 'points').map(p => p.points || 0));
+
+const amountPaidWithPoints = (payments: PaymentLine[]) => sum(payments.filter(p => p.method === 'points').map(p => p.amount));
+
+const orNothing = (loyalty: TransactionLoyalty): TransactionLoyalty | undefined => {
+  return loyalty.earned === 0 && loyalty.redeemed === 0 ? undefined : loyalty;
+};
+
+export const LoyaltyService = {
+  // The product's own multiplier wins over its category's; anything unset earns at 1x
+  multiplierFor: (product: Product, settings: LoyaltySettings): number => {
+    return product.loyaltyMultiplier ?? settings.categoryMultipliers[product.category] ?? 1;
+  },
+
+  balance: (customerId: string, ledger: LoyaltyEntry[]): number => {
+    return sum(ledger.filter(e => e.customerId === customerId).map(e => e.points));
+  },
+
+  valueOf: (points: number, settings: LoyaltySettings): number => {
+    return TenderService.roundCurrency(points * settings.pointValue);
+  },
+
+  // Rounded up so the points handed over always cover the amount
+  pointsFor: (amount: number, settings: LoyaltySettings): number => {
+    return Math.ceil(TenderService.roundCurrency(amount) / settings.pointValue - 1e-9);
+  },
+
+  // Points already spent on this sale count against the balance until it completes
+  redeem: (amount: number, balance: number, payments: PaymentLine[], settings: LoyaltySettings): PaymentLine => {
+    const points = LoyaltyService.pointsFor(amount, settings);
+    const available = balance - pointsPaid(payments);
+    if (points + pointsPaid(payments) < settings.minRedeemPoints) {
+      throw new Error(`At least ${settings.minRedeemPoints} points must be redeemed at a time.`);
+    }
+    if (points > available) {
+      throw new Error(`Only ${available} points ($${LoyaltyService.valueOf(available, settings).toFixed(2)}) are available.`);
+    }
+    return { method: 'points', amount: TenderService.roundCurrency(amount), points };
+  },
+
+  // Stamp each line with what it earned. Nothing is earned on the part of the sale paid with points.
+  forSale: (items: CartItem[], payments: PaymentLine[], settings: LoyaltySettings): { items: CartItem[]; loyalty?: TransactionLoyalty } => {
+    const redeemed = pointsPaid(payments);
+    if (!settings.enabled) return { items, loyalty: orNothing({ earned: 0, redeemed }) };
+    const paid = TenderService.totalPaid(payments);
+    const earningShare = paid > 0 ? (paid - amountPaidWithPoints(payments)) / paid : 0;
+    const stamped = items.map(item => {
+      const net = Math.max(0, item.lineNet ?? item.price * item.quantity);
+      const points = net * settings.pointsPerDollar * LoyaltyService.multiplierFor(item, settings) * earningShare;
+      return points > 0 ? { ...item, loyaltyPoints: points } : item;
+    });
+    const earned = Math.floor(sum(stamped.map(i => i.loyaltyPoints || 0)) + 1e-9);
+    return { items: stamped, loyalty: orNothing({ earned, redeemed }) };
+  },
+
+  // Take back what the returned lines earned and give back points refunded to the points tender.
+  // The return that completes the sale settles whatever is left so rounding never strands points.
+  forRefund: (refund: Pick<Transaction, 'items' | 'payments'>, original: Transaction, priorRefunds: Transaction[], completesSale: boolean): TransactionLoyalty | undefined => {
+    if (!original.loyalty) return undefined;
+    const earnedLeft = original.loyalty.earned + sum(priorRefunds.map(r => r.loyalty?.earned || 0));
+    const redeemedLeft = original.loyalty.redeemed + sum(priorRefunds.map(r => r.loyalty?.redeemed || 0));
+    const originalPointsAmount = amountPaidWithPoints(original.payments);
+    const refundedToPoints = -amountPaidWithPoints(refund.payments);
+    const earned = completesSale
+      ? earnedLeft
+      : Math.min(earnedLeft, Math.round(sum(refund.items.map(i => i.loyaltyPoints || 0))));
+    const redeemed = completesSale
+      ? redeemedLeft
+      : Math.min(redeemedLeft, originalPointsAmount > 0 ? Math.round(original.loyalty.redeemed * refundedToPoints / originalPointsAmount) : 0);
+    return orNothing({ earned: -earned, redeemed: -redeemed });
+  },
+
+  // Ledger movements a completed sale or refund makes on the customer's balance
+  entriesFor: (transaction: Transaction): LoyaltyEntry[] => {
+    const { customerId, loyalty } = transaction;
+    if (!customerId || !loyalty) return [];
+    const isRefund = transaction.type === 'refund';
+    const entry = (type: LoyaltyEntryType, points: number): LoyaltyEntry => ({
+      id: crypto.randomUUID(),
+      customerId,
+      timestamp: transaction.date,
+      type,
+      points,
+      transactionId: transaction.id,
+    });
+    const entries: LoyaltyEntry[] = [];
+    if (loyalty.earned !== 0) entries.push(entry(isRefund ? 'earn_reversal' : 'earn', loyalty.earned));
+    if (loyalty.redeemed !== 0) entries.push(entry(isRefund ? 'redeem_reversal' : 'redeem', -loyalty.redeemed));
+    return entries;
+  },
+
+  validateSettings: (settings: LoyaltySettings): string | null => {
+    if (!(settings.pointsPerDollar >= 0)) return 'Points per dollar must be zero or more.';
+    if (!(settings.pointValue > 0)) return 'Each point needs a redemption value above zero.';
+    if (!(settings.minRedeemPoints >= 0)) return 'The minimum redemption must be zero or more.';
+    if (Object.values(settings.categoryMultipliers).some(m => !(m >= 0))) return 'Category multipliers must be zero or more.';
+    return null;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { Product, ScaleBarcodeSettings, UnitOfMeasure } from '../types.ts';
+import { TenderService } from './tenderService.ts';
+
+export const UNIT_LABELS: Record<UnitOfMeasure, string> = {
+  each: 'Each',
+  kg: 'Per kilogram (kg)',
+  lb: 'Per pound (lb)',
+};
+
+export const DEFAULT_SCALE_SETTINGS: ScaleBarcodeSettings = {
+  weightPrefixes: ['20', '21', '22', '23', '24'],
+  pricePrefixes: ['25', '26', '27', '28', '29'],
+  pluDigits: 5,
+};
+
+// What a variable-measure label carries: the scale's item number and either a weight or a price
+export interface ScaleReading {
+  plu: string;
+  weight?: number;
+  price?: number;
+}
+
+export const MeasureService = {
+  isWeighed: (item: { unit?: UnitOfMeasure }): boolean => !!item.unit && item.unit !== 'each',
+
+  // Strips floating point noise from summed weights. Kept finer than a gram so a quantity
+  // worked back from a label price still charges exactly that price.
+  roundQuantity: (quantity: number): number => Math.round(quantity * 1e6) / 1e6,
+
+  // Counted items only move in whole units
+  fitsUnit: (quantity: number, unit?: UnitOfMeasure): boolean => {
+    return isFinite(quantity) && (MeasureService.isWeighed({ unit }) || Number.isInteger(quantity));
+  },
+
+  // Weighed lines are charged to the cent, as the scale label would be
+  lineAmount: (item: { price: number; quantity: number }): number => TenderService.roundCurrency(item.price * item.quantity),
+
+  // A weighed line is one item whatever it weighs
+  itemCount: (items: { quantity: number; unit?: UnitOfMeasure }[]): number => {
+    return items.reduce((sum, item) => sum + (MeasureService.isWeighed(item) ? 1 : item.quantity), 0);
+  },
+
+  // "3" for counted items, "0.452 kg" for weighed ones
+  format: (quantity: number, unit?: UnitOfMeasure): string => {
+    return MeasureService.isWeighed({ unit }) ? `${quantity.toFixed(3)} ${unit}` : String(MeasureService.roundQuantity(quantity));
+  },
+
+  // Follows a price, e.g. "$5.99/kg"; nothing for counted items
+  priceSuffix: (unit?: UnitOfMeasure): string => MeasureService.isWeighed({ unit }) ? `/${unit}` : '',
+
+  // Null when the code is not one of the scale's labels
+  decodeScaleBarcode: (code: string, settings: ScaleBarcodeSettings): ScaleReading | null => {
+    const trimmed = code.trim();
+    if (!/^2\d{12}$/.test(trimmed)) return null;
+    const prefix = trimmed.slice(0, 2);
+    const isWeight = settings.weightPrefixes.includes(prefix);
+    if (!isWeight && !settings.pricePrefixes.includes(prefix)) return null;
+    const plu = trimmed.slice(2, 2 + settings.pluDigits);
+    const value = parseInt(trimmed.slice(2 + settings.pluDigits, 12), 10);
+    return isWeight ? { plu, weight: value / 1000 } : { plu, price: value / 100 };
+  },
+
+  // PLUs compare as numbers so 00412 on a label finds 412 in the catalog
+  findByPlu: (plu: string, products: Product[]): Product | undefined => {
+    const wanted = parseInt(plu, 10);
+    return products.find(p => p.plu && parseInt(p.plu, 10) === wanted);
+  },
+
+  // The quantity a label stands for. Price labels are worked back into a quantity so the
+  // line charges what was printed.
+  quantityFor: (product: Product, reading: ScaleReading): number => {
+    if (reading.weight !== undefined) return reading.weight;
+    return product.price > 0 ? MeasureService.roundQuantity(reading.price! / product.price) : 0;
+  },
+
+  validateScaleSettings: (settings: ScaleBarcodeSettings): string | null => {
+    const prefixes = [...settings.weightPrefixes, ...settings.pricePrefixes];
+    if (prefixes.some(p => !/^2\d$/.test(p))) return 'Scale label prefixes are two digits from 20 to 29.';
+    if (new Set(prefixes).size < prefixes.length) return 'A prefix can carry a weight or a price, not both.';
+    if (!(settings.pluDigits >= 4 && settings.pluDigits <= 6)) return 'The PLU must take 4 to 6 digits.';
+    return null;
+  }
+};
\ No newline at end of file
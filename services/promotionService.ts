@@ -0,0 +1,206 @@
+import { AppliedDiscount, CartItem, ManualDiscount, Promotion, PromotionType } from '../types.ts';
+import { TenderService } from './tenderService.ts';
+import { MeasureService } from './measureService.ts';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Buy X Get Y',
+  multi_buy: 'Multi-buy Price',
+  category_percent: 'Category % Off',
+  cart_percent: 'Order % Off',
+  cart_fixed: 'Order $ Off',
+};
+
+export interface CartPricingOptions {
+  couponCodes?: string[];
+  cartDiscount?: ManualDiscount | null;
+  now?: Date;
+}
+
+export interface CartPricing {
+  gross: number; // Sum of shelf price x quantity
+  discountTotal: number;
+  discounts: AppliedDiscount[];
+  lineDiscounts: number[]; // Per cart line, same order as the cart
+  lineLabels: string[][]; // Line-level discounts that touched each cart line
+}
+
+const LINE_PROMOTIONS: PromotionType[] = ['buy_x_get_y', 'multi_buy', 'category_percent'];
+
+const toLocalDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// A promotion on a parent product covers every one of its variants
+const targets = (promotion: Promotion, item: CartItem): boolean => {
+  return !!promotion.productIds?.includes(item.id) || (!!item.parentId && !!promotion.productIds?.includes(item.parentId));
+};
+
+const applyManualDiscount = (discount: ManualDiscount, amount: number): number => {
+  const value = discount.type === 'percent' ? amount * discount.value / 100 : discount.value;
+  return Math.min(amount, Math.max(0, value));
+};
+
+export const PromotionService = {
+  isActiveOn: (promotion: Promotion, now: Date = new Date()): boolean => {
+    if (!promotion.active) return false;
+    const today = toLocalDate(now);
+    if (promotion.startDate && today < promotion.startDate) return false;
+    if (promotion.endDate && today > promotion.endDate) return false;
+    return true;
+  },
+
+  // Resolve an entered coupon code, or explain why it cannot be used
+  findCoupon: (code: string, promotions: Promotion[], now: Date = new Date()): Promotion => {
+    const normalized = code.trim().toUpperCase();
+    const promotion = promotions.find(p => p.couponCode?.toUpperCase() === normalized);
+    if (!promotion) throw new Error(`Coupon "${code}" was not found.`);
+    if (!PromotionService.isActiveOn(promotion, now)) throw new Error(`Coupon "${code}" is not active today.`);
+    return promotion;
+  },
+
+  // Discount a single promotion gives a cart line, before any cap is applied
+  lineDiscountFor: (promotion: Promotion, item: CartItem): number => {
+    switch (promotion.type) {
+      case 'buy_x_get_y': {
+        if (!targets(promotion, item)) return 0;
+        const buy = promotion.buyQuantity || 0;
+        const get = promotion.getQuantity || 0;
+        if (buy <= 0 || get <= 0) return 0;
+        const discountedUnits = Math.floor(item.quantity / (buy + get)) * get;
+        return discountedUnits * item.price * (promotion.getPercentOff ?? 100) / 100;
+      }
+      case 'multi_buy': {
+        if (!targets(promotion, item)) return 0;
+        const bundleQty = promotion.bundleQuantity || 0;
+        if (bundleQty <= 0 || promotion.bundlePrice === undefined) return 0;
+        const bundles = Math.floor(item.quantity / bundleQty);
+        return Math.max(0, bundles * (bundleQty * item.price - promotion.bundlePrice));
+      }
+      case 'category_percent':
+        if (promotion.category !== item.category) return 0;
+        return item.price * item.quantity * (promotion.percentOff || 0) / 100;
+      default:
+        return 0;
+    }
+  },
+
+  // Line discounts first (manual, then promotions), then order-level discounts on what remains.
+  // Order-level discounts are spread over lines pro-rata so tax is charged on discounted amounts.
+  priceCart: (cart: CartItem[], promotions: Promotion[], options: CartPricingOptions = {}): CartPricing => {
+    const now = options.now || new Date();
+    const coupons = (options.couponCodes || []).map(c => c.toUpperCase());
+    const applicable = promotions.filter(p =>
+      PromotionService.isActiveOn(p, now) && (!p.couponCode || coupons.includes(p.couponCode.toUpperCase()))
+    );
+    const discounts: AppliedDiscount[] = [];
+    const addDiscount = (discount: AppliedDiscount) => {
+      const existing = discounts.find(d => d.id === discount.id);
+      if (existing) existing.amount += discount.amount;
+      else discounts.push(discount);
+    };
+    const sourceOf = (p: Promotion): AppliedDiscount['source'] => p.couponCode ? 'coupon' : 'promotion';
+
+    const lineLabels: string[][] = cart.map(() => []);
+    const lineDiscounts = cart.map((item, idx) => {
+      const gross = MeasureService.lineAmount(item);
+      let remaining = gross;
+
+      if (item.discount) {
+        const amount = applyManualDiscount(item.discount, remaining);
+        if (amount > 0) {
+          remaining -= amount;
+          addDiscount({
+            id: `manual-${item.id}`,
+            label: item.discount.type === 'percent' ? `${item.name} ${item.discount.value}% off` : `${item.name} discount`,
+            source: 'manual',
+            productId: item.id,
+            amount,
+          });
+          lineLabels[idx].push('Discount');
+        }
+      }
+
+      applicable.filter(p => LINE_PROMOTIONS.includes(p.type)).forEach(p => {
+        const amount = Math.min(remaining, PromotionService.lineDiscountFor(p, item));
+        if (amount <= 0) return;
+        remaining -= amount;
+        addDiscount({ id: p.id, label: p.name, source: sourceOf(p), promotionId: p.id, couponCode: p.couponCode, amount });
+        lineLabels[idx].push(p.name);
+      });
+
+      return gross - remaining;
+    });
+
+    const gross = cart.reduce((sum, item) => sum + MeasureService.lineAmount(item), 0);
+    let afterLines = gross - lineDiscounts.reduce((sum, d) => sum + d, 0);
+    let cartLevel = 0;
+    // Minimum spends count what is left after item discounts, whichever order promotions run in
+    const spend = TenderService.roundCurrency(afterLines);
+
+    applicable.filter(p => p.type === 'cart_percent' || p.type === 'cart_fixed').forEach(p => {
+      if (p.minimumSpend && spend < p.minimumSpend) return;
+      const value = p.type === 'cart_percent' ? afterLines * (p.percentOff || 0) / 100 : p.amountOff || 0;
+      const amount = Math.min(afterLines, Math.max(0, value));
+      if (amount <= 0) return;
+      afterLines -= amount;
+      cartLevel += amount;
+      addDiscount({ id: p.id, label: p.name, source: sourceOf(p), promotionId: p.id, couponCode: p.couponCode, amount });
+    });
+
+    if (options.cartDiscount) {
+      const amount = applyManualDiscount(options.cartDiscount, afterLines);
+      if (amount > 0) {
+        afterLines -= amount;
+        cartLevel += amount;
+        addDiscount({
+          id: 'manual-cart',
+          label: options.cartDiscount.type === 'percent' ? `Order ${options.cartDiscount.value}% off` : 'Order discount',
+          source: 'manual',
+          amount,
+        });
+      }
+    }
+
+    const discountableBase = gross - lineDiscounts.reduce((sum, d) => sum + d, 0);
+    const allocated = lineDiscounts.map((lineDiscount, idx) => {
+      const lineRemaining = MeasureService.lineAmount(cart[idx]) - lineDiscount;
+      const share = discountableBase > 0 ? cartLevel * lineRemaining / discountableBase : 0;
+      return lineDiscount + share;
+    });
+
+    return {
+      gross: TenderService.roundCurrency(gross),
+      discountTotal: TenderService.roundCurrency(cartLevel + lineDiscounts.reduce((sum, d) => sum + d, 0)),
+      discounts: discounts.map(d => ({ ...d, amount: TenderService.roundCurrency(d.amount) })),
+      lineDiscounts: allocated,
+      lineLabels,
+    };
+  },
+
+  // Accepts "10%" for a percentage or "2.50" for a dollar amount; blank or zero clears it
+  parseManualDiscount: (input: string): ManualDiscount | null => {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+    const isPercent = trimmed.endsWith('%');
+    const value = parseFloat(trimmed.replace(/[%$]/g, ''));
+    if (isNaN(value) || value < 0) throw new Error(`"${input}" is not a valid discount.`);
+    if (isPercent && value > 100) throw new Error('A percentage discount cannot exceed 100%.');
+    return value === 0 ? null : { type: isPercent ? 'percent' : 'fixed', value };
+  },
+
+  describe: (promotion: Promotion): string => {
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${promotion.getPercentOff === 100 || promotion.getPercentOff === undefined ? 'free' : `${promotion.getPercentOff}% off`}`;
+      case 'multi_buy':
+        return `${promotion.bundleQuantity} for $${(promotion.bundlePrice || 0).toFixed(2)}`;
+      case 'category_percent':
+        return `${promotion.percentOff}% off ${promotion.category}`;
+      case 'cart_percent':
+        return `${promotion.percentOff}% off the order${promotion.minimumSpend ? ` over $${promotion.minimumSpend.toFixed(2)}` : ''}`;
+      case 'cart_fixed':
+        return `$${(promotion.amountOff || 0).toFixed(2)} off the order${promotion.minimumSpend ? ` over $${promotion.minimumSpend.toFixed(2)}` : ''}`;
+    }
+  }
+};
\ No newline at end of file
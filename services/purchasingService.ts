@@ -0,0 +1,118 @@
+import { GoodsReceipt, Lot, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, StockMovement } from '../types.ts';
+import { InventoryService, LotDetails } from './inventoryService.ts';
+import { TenderService } from './tenderService.ts';
+import { MeasureService } from './measureService.ts';
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  closed: 'Closed',
+};
+
+export interface ReceiveResult {
+  order: PurchaseOrder;
+  receipt: GoodsReceipt;
+  lots: Lot[];
+  movements: StockMovement[];
+}
+
+export const PurchasingService = {
+  nextNumber: (orders: PurchaseOrder[]): string => {
+    const highest = orders.reduce((max, o) => Math.max(max, parseInt(o.number.replace(/\D/g, '')) || 0), 0);
+    return `PO-${String(highest + 1).padStart(4, '0')}`;
+  },
+
+  createOrder: (supplierId: string, orders: PurchaseOrder[]): PurchaseOrder => ({
+    id: crypto.randomUUID(),
+    number: PurchasingService.nextNumber(orders),
+    supplierId,
+    status: 'draft',
+    createdAt: new Date().toISOString(),
+    lines: [],
+    receipts: [],
+  }),
+
+  // Cost on the most recent order for the product, to prefill new lines
+  lastUnitCost: (productId: string, orders: PurchaseOrder[]): number => {
+    const latest = [...orders]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .find(o => o.lines.some(l => l.productId === productId));
+    return latest?.lines.find(l => l.productId === productId)?.unitCost || 0;
+  },
+
+  outstanding: (line: PurchaseOrderLine): number => Math.max(0, MeasureService.roundQuantity(line.quantityOrdered - line.quantityReceived)),
+
+  orderTotal: (order: PurchaseOrder): number => {
+    return TenderService.roundCurrency(order.lines.reduce((sum, l) => sum + l.quantityOrdered * l.unitCost, 0));
+  },
+
+  receivedValue: (order: PurchaseOrder): number => {
+    return TenderService.roundCurrency(order.lines.reduce((sum, l) => sum + l.quantityReceived * l.unitCost, 0));
+  },
+
+  markSent: (order: PurchaseOrder): PurchaseOrder => {
+    if (order.status !== 'draft') throw new Error(`${order.number} has already been sent.`);
+    if (order.lines.length === 0) throw new Error('Add at least one line before sending the order.');
+    if (order.lines.some(l => l.quantityOrdered <= 0 || l.unitCost < 0 || isNaN(l.unitCost))) {
+      throw new Error('Every line needs a positive quantity and a cost.');
+    }
+    return { ...order, status: 'sent', sentAt: new Date().toISOString() };
+  },
+
+  // Stop waiting for the rest of a short delivery
+  close: (order: PurchaseOrder): PurchaseOrder => {
+    if (order.status === 'draft') throw new Error('Draft orders can be deleted rather than closed.');
+    return { ...order, status: 'closed', closedAt: order.closedAt || new Date().toISOString() };
+  },
+
+  // Book in exactly what arrived; stock moves only for those units, each line into a lot of its own
+  receive: (order: PurchaseOrder, quantities: Record<string, number>, user: string, lotDetails: Record<string, LotDetails> = {}, note?: string): ReceiveResult => {
+    if (order.status !== 'sent' && order.status !== 'partially_received') {
+      throw new Error(`Goods can only be received against a sent order (${order.number} is ${PO_STATUS_LABELS[order.status].toLowerCase()}).`);
+    }
+    const receiptLines = order.lines
+      .map(line => ({ line, quantity: quantities[line.productId] || 0 }))
+      .filter(r => r.quantity !== 0);
+    if (receiptLines.length === 0) throw new Error('Enter the quantity received for at least one line.');
+    receiptLines.forEach(({ line, quantity }) => {
+      if (!MeasureService.fitsUnit(quantity, line.unit) || quantity < 0) throw new Error(`Received quantity for ${line.name} must be a ${MeasureService.isWeighed(line) ? 'non-negative weight' : 'whole number'}.`);
+      if (quantity > PurchasingService.outstanding(line)) {
+        throw new Error(`Only ${PurchasingService.outstanding(line)} of ${line.name} are still outstanding.`);
+      }
+    });
+
+    const lots = receiptLines.map(r => InventoryService.createLot(r.line.productId, { ...lotDetails[r.line.productId], purchaseOrderId: order.id }));
+    const receipt: GoodsReceipt = {
+      id: crypto.randomUUID(),
+      receivedAt: new Date().toISOString(),
+      user,
+      lines: receiptLines.map((r, i) => ({ productId: r.line.productId, quantity: r.quantity, lotId: lots[i].id })),
+      note,
+    };
+    const lines = order.lines.map(line => ({ ...line, quantityReceived: MeasureService.roundQuantity(line.quantityReceived + (quantities[line.productId] || 0)) }));
+    const complete = lines.every(l => PurchasingService.outstanding(l) === 0);
+    const movements = receipt.lines.map(l => ({
+      ...InventoryService.createMovement(l.productId, 'receipt', l.quantity, user, {
+        note: `${order.number}${note ? ` - ${note}` : ''}`,
+        referenceId: receipt.id,
+        timestamp: receipt.receivedAt,
+        lotId: l.lotId,
+      }),
+      purchaseOrderId: order.id,
+    }));
+
+    return {
+      order: {
+        ...order,
+        lines,
+        receipts: [...order.receipts, receipt],
+        status: complete ? 'closed' : 'partially_received',
+        closedAt: complete ? receipt.receivedAt : order.closedAt,
+      },
+      receipt,
+      lots,
+      movements,
+    };
+  }
+};
\ No newline at end of file
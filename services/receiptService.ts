@@ -0,0 +1,274 @@
+import { StoreSettings, Transaction } from '../types.ts';
+import { PAYMENT_METHOD_LABELS, TenderService } from './tenderService.ts';
+import { ReturnService } from './returnService.ts';
+import { TaxService } from './taxService.ts';
+import { FileService } from './fileService.ts';
+import { CASH_EVENT_LABELS, ShiftReport } from './shiftService.ts';
+import { GiftCardService } from './giftCardService.ts';
+import { MeasureService } from './measureService.ts';
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  name: 'RetailPulse',
+  address: '',
+  phone: '',
+  receiptFooter: 'Thank you for shopping with us!',
+  autoLockMinutes: 5,
+};
+
+// Characters per line for Font A on 80mm paper (576 dots / 12 dots per character)
+const RECEIPT_WIDTH = 48;
+
+export interface ReceiptLine {
+  text: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+  large?: boolean; // Double width and height; fits half as many characters
+}
+
+// The parts of the Web Serial API used to reach a USB or serial receipt printer; not yet in TypeScript's DOM types
+interface SerialPort {
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+  writable: WritableStream<Uint8Array>;
+}
+
+interface Serial {
+  requestPort: () => Promise<SerialPort>;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const money = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const columns = (left: string, right: string, width = RECEIPT_WIDTH) => {
+  const room = Math.max(1, width - right.length - 1);
+  const clipped = left.length > room ? left.slice(0, room) : left;
+  return clipped + ' '.repeat(width - clipped.length - right.length) + right;
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Thermal printers use single-byte code pages, so fold accents and drop anything else
+const toPrinterBytes = (text: string): number[] => {
+  return Array.from(text.normalize('NFD').replace(/[\u0300-\u036f]/g, ''))
+    .map(ch => ch.charCodeAt(0) < 128 ? ch.charCodeAt(0) : 0x3f);
+};
+
+export const ReceiptService = {
+  // One layout shared by every output format so HTML and thermal receipts always match
+  buildLines: (transaction: Transaction, store: StoreSettings): ReceiptLine[] => {
+    const isRefund = ReturnService.isRefund(transaction);
+    const divider: ReceiptLine = { text: '-'.repeat(RECEIPT_WIDTH) };
+    const lines: ReceiptLine[] = [];
+
+    lines.push({ text: store.name, align: 'center', bold: true, large: true });
+    if (store.address) store.address.split('\n').forEach(l => lines.push({ text: l, align: 'center' }));
+    if (store.phone) lines.push({ text: store.phone, align: 'center' });
+    if (store.taxId) lines.push({ text: `Tax ID: ${store.taxId}`, align: 'center' });
+    lines.push(divider);
+
+    if (isRefund) {
+      lines.push({ text: 'REFUND', align: 'center', bold: true, large: true });
+      if (transaction.originalTransactionId) {
+        lines.push({ text: `Original order #${transaction.originalTransactionId.slice(0, 8)}`, align: 'center' });
+      }
+    }
+    lines.push({ text: columns(`${isRefund ? 'Refund' : 'Order'} #${transaction.id.slice(0, 8)}`, new Date(transaction.date).toLocaleDateString()) });
+    lines.push({ text: columns('', new Date(transaction.date).toLocaleTimeString()) });
+    lines.push(divider);
+
+    transaction.items.forEach(item => {
+      const gross = MeasureService.lineAmount(item);
+      lines.push({ text: columns(item.name, money(isRefund ? -gross : gross)) });
+      if (item.quantity !== 1 || MeasureService.isWeighed(item)) {
+        lines.push({ text: `  ${MeasureService.format(item.quantity, item.unit)} @ ${money(item.price)}${MeasureService.priceSuffix(item.unit)}` });
+      }
+      if (item.lineDiscount) lines.push({ text: columns('  Discount', money(isRefund ? item.lineDiscount : -item.lineDiscount)) });
+    });
+    lines.push(divider);
+
+    transaction.discounts.forEach(d => lines.push({ text: columns(d.label, money(-d.amount)) }));
+    lines.push({ text: columns('Subtotal', money(transaction.subtotal)) });
+    transaction.taxBreakdown.forEach(t => lines.push({ text: columns(`${t.name} ${TaxService.formatRate(t.rate)}`, money(t.amount)) }));
+    if (transaction.taxExempt) lines.push({ text: `Tax exempt: ${transaction.taxExempt.reason}` });
+    lines.push({ text: columns('TOTAL', money(transaction.total), RECEIPT_WIDTH / 2), bold: true, large: true });
+    lines.push(divider);
+
+    transaction.payments.forEach(p => {
+      lines.push({ text: columns(isRefund ? `Refund to ${PAYMENT_METHOD_LABELS[p.method]}` : PAYMENT_METHOD_LABELS[p.method], money(p.amount)) });
+      if (p.amountReceived !== undefined) lines.push({ text: columns('  Cash received', money(p.amountReceived)) });
+      if (p.points) lines.push({ text: `  ${p.points} points` });
+      // Credit handed back is spent with this code, so only spends are masked
+      if (p.giftCardCode) lines.push({ text: `  ${p.amount < 0 ? p.giftCardCode : GiftCardService.maskCode(p.giftCardCode)}` });
+    });
+    const change = TenderService.totalChange(transaction.payments);
+    if (change > 0) lines.push({ text: columns('Change', money(change)), bold: true });
+
+    // Shown as the change to the customer's balance
+    const { loyalty } = transaction;
+    if (loyalty) {
+      const signed = (points: number) => `${points > 0 ? '+' : ''}${points}`;
+      lines.push(divider);
+      if (loyalty.earned) lines.push({ text: columns(isRefund ? 'Points reversed' : 'Points earned', signed(loyalty.earned)) });
+      if (loyalty.redeemed) lines.push({ text: columns(isRefund ? 'Points returned' : 'Points redeemed', signed(-loyalty.redeemed)) });
+    }
+
+    if (store.receiptFooter) {
+      lines.push({ text: '' });
+      store.receiptFooter.split('\n').forEach(l => lines.push({ text: l, align: 'center' }));
+    }
+    return lines;
+  },
+
+  // X and Z shift reports, printed on the same paper as receipts
+  buildShiftReportLines: (report: ShiftReport, store: StoreSettings): ReceiptLine[] => {
+    const divider: ReceiptLine = { text: '-'.repeat(RECEIPT_WIDTH) };
+    const { shift, cash } = report;
+    const lines: ReceiptLine[] = [];
+
+    lines.push({ text: store.name, align: 'center', bold: true, large: true });
+    lines.push({ text: `${report.kind} REPORT`, align: 'center', bold: true, large: true });
+    lines.push({ text: report.kind === 'X' ? 'Mid-shift reading - shift stays open' : 'End of shift', align: 'center' });
+    lines.push({ text: columns(`Shift #${shift.number}`, new Date(report.generatedAt).toLocaleString()) });
+    lines.push({ text: columns('Opened', `${new Date(shift.openedAt).toLocaleString()} ${shift.openedBy}`) });
+    if (shift.closedAt) lines.push({ text: columns('Closed', `${new Date(shift.closedAt).toLocaleString()} ${shift.closedBy || ''}`.trim()) });
+    lines.push(divider);
+
+    lines.push({ text: 'SALES', bold: true });
+    lines.push({ text: columns(`Sales (${report.salesCount})`, money(report.grossSales)) });
+    lines.push({ text: columns(`Refunds (${report.refundCount})`, money(report.refunds)) });
+    lines.push({ text: columns('Net sales', money(report.netSales)), bold: true });
+    lines.push({ text: columns('Discounts given', money(report.discounts)) });
+    lines.push(divider);
+
+    lines.push({ text: 'TAX', bold: true });
+    if (report.taxes.length === 0) lines.push({ text: 'No tax collected' });
+    report.taxes.forEach(t => lines.push({ text: columns(`${t.name} ${TaxService.formatRate(t.rate)}`, money(t.amount)) }));
+    lines.push(divider);
+
+    lines.push({ text: 'TENDERS', bold: true });
+    (Object.keys(report.tenders) as (keyof typeof report.tenders)[]).forEach(method => {
+      lines.push({ text: columns(PAYMENT_METHOD_LABELS[method], money(report.tenders[method])) });
+    });
+    lines.push(divider);
+
+    lines.push({ text: 'CATEGORIES (EXCL. TAX)', bold: true });
+    if (report.categories.length === 0) lines.push({ text: 'No sales' });
+    report.categories.forEach(c => lines.push({ text: columns(c.category, money(c.amount)) }));
+    lines.push(divider);
+
+    lines.push({ text: 'CASH DRAWER', bold: true });
+    lines.push({ text: columns('Opening float', money(cash.openingFloat)) });
+    lines.push({ text: columns('Cash sales', money(cash.cashSales)) });
+    lines.push({ text: columns('Cash refunds', money(cash.cashRefunds)) });
+    lines.push({ text: columns('Paid in', money(cash.paidIn)) });
+    lines.push({ text: columns('Paid out', money(-cash.paidOut)) });
+    lines.push({ text: columns('Cash drops', money(-cash.drops)) });
+    lines.push({ text: columns('Expected in drawer', money(cash.expected)), bold: true });
+    if (cash.counted !== undefined) {
+      lines.push({ text: columns('Counted', money(cash.counted)) });
+      lines.push({ text: columns(cash.variance! < 0 ? 'Short' : cash.variance! > 0 ? 'Over' : 'Variance', money(cash.variance!)), bold: true });
+    }
+
+    if (shift.cashEvents.length > 0) {
+      lines.push(divider);
+      lines.push({ text: 'DRAWER EVENTS', bold: true });
+      shift.cashEvents.forEach(e => {
+        lines.push({ text: columns(`${new Date(e.timestamp).toLocaleTimeString()} ${CASH_EVENT_LABELS[e.type]}`, money(e.type === 'paid_in' ? e.amount : -e.amount)) });
+        lines.push({ text: `  ${e.reason} (${e.user})` });
+      });
+    }
+    return lines;
+  },
+
+  renderHtml: (transaction: Transaction, store: StoreSettings): string => {
+    return ReceiptService.renderLinesHtml(ReceiptService.buildLines(transaction, store), `Receipt ${transaction.id.slice(0, 8)}`);
+  },
+
+  // Any receipt-width document, such as shift reports, laid out like a receipt
+  renderLinesHtml: (lines: ReceiptLine[], title: string): string => {
+    const body = lines.map(line => {
+      const classes = [line.align || 'left', line.bold ? 'bold' : '', line.large ? 'large' : ''].join(' ').trim();
+      return `<div class="${classes}">${escapeHtml(line.text) || '&nbsp;'}</div>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: 80mm auto; margin: 0; }
+  body { width: 72mm; margin: 4mm; font-family: 'Courier New', monospace; font-size: 10px; color: #000; }
+  div { white-space: pre; overflow: hidden; line-height: 1.35; }
+  .center { text-align: center; }
+  .right { text-align: right; }
+  .bold { font-weight: bold; }
+  .large { font-size: 16px; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  },
+
+  renderEscPos: (transaction: Transaction, store: StoreSettings): Uint8Array => {
+    return ReceiptService.renderLinesEscPos(ReceiptService.buildLines(transaction, store));
+  },
+
+  renderLinesEscPos: (lines: ReceiptLine[]): Uint8Array => {
+    const bytes: number[] = [ESC, 0x40]; // Initialize printer
+    lines.forEach(line => {
+      bytes.push(ESC, 0x61, line.align === 'center' ? 1 : line.align === 'right' ? 2 : 0);
+      bytes.push(ESC, 0x45, line.bold ? 1 : 0);
+      bytes.push(GS, 0x21, line.large ? 0x11 : 0x00);
+      bytes.push(...toPrinterBytes(line.text), LF);
+    });
+    bytes.push(GS, 0x21, 0x00, ESC, 0x45, 0, ESC, 0x61, 0);
+    bytes.push(ESC, 0x64, 4); // Feed past the cutter
+    bytes.push(GS, 0x56, 0x42, 0x00); // Partial cut
+    return new Uint8Array(bytes);
+  },
+
+  printHtml: (html: string) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+    const doc = frame.contentWindow?.document;
+    if (!doc) return;
+    doc.open();
+    doc.write(html);
+    doc.close();
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  },
+
+  // Sends raw bytes over Web Serial where the browser supports it; otherwise downloads
+  // them so they can be sent with the printer vendor's utility.
+  sendToThermalPrinter: async (data: Uint8Array, filename: string) => {
+    if ('serial' in navigator) {
+      const port = await (navigator.serial as Serial).requestPort();
+      await port.open({ baudRate: 9600 });
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(data);
+      } finally {
+        writer.releaseLock();
+        await port.close();
+      }
+      return;
+    }
+    FileService.download(filename, data, 'application/octet-stream');
+  }
+};
\ No newline at end of file
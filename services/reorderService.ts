@@ -0,0 +1,77 @@
+import { Product, PurchaseOrder, Transaction } from '../types.ts';
+import { PurchasingService } from './purchasingService.ts';
+import { ReturnService } from './returnService.ts';
+import { VariantService } from './variantService.ts';
+
+export const DEFAULT_REORDER_POINT = 10;
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+// Sales history used to measure velocity, and how far past the reorder level a suggestion tops up
+export const VELOCITY_WINDOW_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReorderSuggestion {
+  product: Product;
+  dailyVelocity: number; // Net units sold per day over the window
+  onOrder: number; // Outstanding on sent purchase orders
+  reorderLevel: number; // Reorder point, raised to cover expected sales during the lead time
+  daysOfCover: number | null; // Null when stock is on hand but nothing has sold in the window
+  suggestedQuantity: number;
+}
+
+export const ReorderService = {
+  reorderPoint: (product: Product): number => product.reorderPoint ?? DEFAULT_REORDER_POINT,
+
+  leadTimeDays: (product: Product): number => product.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS,
+
+  isLowStock: (product: Product): boolean => product.stock <= ReorderService.reorderPoint(product),
+
+  // Units sold since a date, net of refunded units
+  unitsSold: (transactions: Transaction[], since: Date): Record<string, number> => {
+    const sold: Record<string, number> = {};
+    transactions
+      .filter(t => new Date(t.date) >= since)
+      .forEach(t => {
+        const sign = ReturnService.isRefund(t) ? -1 : 1;
+        t.items.forEach(item => { sold[item.id] = (sold[item.id] || 0) + sign * item.quantity; });
+      });
+    return sold;
+  },
+
+  onOrder: (orders: PurchaseOrder[]): Record<string, number> => {
+    const outstanding: Record<string, number> = {};
+    orders
+      .filter(o => o.status === 'sent' || o.status === 'partially_received')
+      .forEach(o => o.lines.forEach(line => {
+        outstanding[line.productId] = (outstanding[line.productId] || 0) + PurchasingService.outstanding(line);
+      }));
+    return outstanding;
+  },
+
+  // Products whose stock plus what is already on order has fallen to the reorder level,
+  // most urgent first
+  suggestions: (products: Product[], transactions: Transaction[], orders: PurchaseOrder[], now: Date = new Date()): ReorderSuggestion[] => {
+    const sold = ReorderService.unitsSold(transactions, new Date(now.getTime() - VELOCITY_WINDOW_DAYS * DAY_MS));
+    const onOrder = ReorderService.onOrder(orders);
+
+    return VariantService.sellable(products)
+      .map(product => {
+        const dailyVelocity = Math.max(0, sold[product.id] || 0) / VELOCITY_WINDOW_DAYS;
+        const reorderLevel = Math.max(ReorderService.reorderPoint(product), Math.ceil(dailyVelocity * ReorderService.leadTimeDays(product)));
+        const position = product.stock + (onOrder[product.id] || 0);
+        const orderUpTo = reorderLevel + Math.ceil(dailyVelocity * VELOCITY_WINDOW_DAYS);
+        return {
+          product,
+          dailyVelocity,
+          onOrder: onOrder[product.id] || 0,
+          reorderLevel,
+          daysOfCover: product.stock <= 0 ? 0 : dailyVelocity > 0 ? product.stock / dailyVelocity : null,
+          suggestedQuantity: Math.max(product.reorderQuantity || 0, orderUpTo - position, 1),
+          position,
+        };
+      })
+      .filter(s => s.position <= s.reorderLevel)
+      .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || a.position - b.position)
+      .map(({ position, ...suggestion }) => suggestion);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Transaction } from '../types.ts';
+import { ReturnLineRequest, ReturnService } from './returnService.ts';
+
+const item = (id: string, price: number, quantity: number): CartItem => ({
+  id,
+  sku: id.toUpperCase(),
+  name: id,
+  category: 'General',
+  price,
+  stock: 10,
+  quantity,
+  lineNet: price * quantity,
+  lineTaxes: { state: price * quantity * 0.06, city: price * quantity * 0.02 },
+});
+
+// $50 of goods plus $4 tax, paid with two gift cards and then cash
+const sale: Transaction = {
+  id: 'sale-1',
+  date: '2024-03-01T10:00:00.000Z',
+  type: 'sale',
+  items: [item('mug', 10, 3), item('lamp', 20, 1)],
+  discounts: [],
+  discountTotal: 0,
+  subtotal: 50,
+  tax: 4,
+  taxBreakdown: [
+    { rateId: 'state', name: 'State Tax', rate: 0.06, taxableAmount: 50, amount: 3 },
+    { rateId: 'city', name: 'City Tax', rate: 0.02, taxableAmount: 50, amount: 1 },
+  ],
+  total: 54,
+  payments: [
+    { method: 'gift_card', amount: 30, giftCardCode: 'GC-A' },
+    { method: 'gift_card', amount: 20, giftCardCode: 'GC-B' },
+    { method: 'cash', amount: 4 },
+  ],
+};
+
+// Builds each refund against the sale and every refund recorded before it
+const refundInTurn = (requests: { lines: ReturnLineRequest[]; toStoreCredit?: boolean; creditCode?: string }[]): Transaction[] => {
+  const transactions: Transaction[] = [sale];
+  return requests.map(({ lines, toStoreCredit, creditCode }) => {
+    const refund = ReturnService.buildRefund(sale, lines, transactions, toStoreCredit);
+    // The new store credit card is created when the refund is saved
+    const saved = { ...refund, payments: refund.payments.map(p => p.method === 'gift_card' && !p.giftCardCode ? { ...p, giftCardCode: creditCode } : p) };
+    transactions.push(saved);
+    return saved;
+  });
+};
+
+const returnLine = (productId: string, quantity: number): ReturnLineRequest => ({ productId, quantity, restock: true });
+
+describe('ReturnService.buildRefund', () => {
+  it('refunds a partial return to the most recent tenders first', () => {
+    const [refund] = refundInTurn([{ lines: [returnLine('mug', 1)] }]);
+    expect(refund).toMatchObject({ type: 'refund', originalTransactionId: 'sale-1', subtotal: -10, tax: -0.8, total: -10.8 });
+    expect(refund.payments).toEqual([
+      { method: 'cash', amount: -4 },
+      { method: 'gift_card', amount: -6.8, giftCardCode: 'GC-B' },
+    ]);
+  });
+
+  it('carries on from where an earlier partial refund left each card', () => {
+    const [, second, third] = refundInTurn([
+      { lines: [returnLine('mug', 1)] },
+      { lines: [returnLine('lamp', 1)] },
+      { lines: [returnLine('mug', 2)] },
+    ]);
+    expect(second.payments).toEqual([
+      { method: 'gift_card', amount: -13.2, giftCardCode: 'GC-B' },
+      { method: 'gift_card', amount: -8.4, giftCardCode: 'GC-A' },
+    ]);
+    expect(third.payments).toEqual([{ method: 'gift_card', amount: -21.6, giftCardCode: 'GC-A' }]);
+  });
+
+  it('never credits a card more than was charged to it', () => {
+    const refunds = refundInTurn([
+      { lines: [returnLine('mug', 1)] },
+      { lines: [returnLine('lamp', 1)] },
+      { lines: [returnLine('mug', 2)] },
+    ]);
+    const creditedTo = (code: string) => -refunds.flatMap(r => r.payments).filter(p => p.giftCardCode === code).reduce((sum, p) => sum + p.amount, 0);
+    expect(creditedTo('GC-A')).toBeCloseTo(30, 10);
+    expect(creditedTo('GC-B')).toBeCloseTo(20, 10);
+  });
+
+  it('takes store credit out of the tenders it stands in for', () => {
+    const [credit, second] = refundInTurn([
+      { lines: [returnLine('mug', 1)], toStoreCredit: true, creditCode: 'SC-1' },
+      { lines: [returnLine('lamp', 1)] },
+    ]);
+    expect(credit.payments).toEqual([{ method: 'gift_card', amount: -10.8, giftCardCode: 'SC-1' }]);
+    expect(second.payments).toEqual([
+      { method: 'gift_card', amount: -13.2, giftCardCode: 'GC-B' },
+      { method: 'gift_card', amount: -8.4, giftCardCode: 'GC-A' },
+    ]);
+  });
+
+  it('settles the remaining money and tax exactly on the final return', () => {
+    const refunds = refundInTurn([
+      { lines: [returnLine('mug', 1)] },
+      { lines: [returnLine('mug', 2), returnLine('lamp', 1)] },
+    ]);
+    const total = (pick: (t: Transaction) => number) => refunds.reduce((sum, r) => sum + pick(r), 0);
+    expect(total(r => r.subtotal)).toBeCloseTo(-50, 10);
+    expect(total(r => r.tax)).toBeCloseTo(-4, 10);
+    expect(total(r => r.total)).toBeCloseTo(-54, 10);
+    expect(ReturnService.isFullyReturned(sale, [sale, ...refunds])).toBe(true);
+  });
+
+  it('refuses to return more than remains on the sale', () => {
+    const [first] = refundInTurn([{ lines: [returnLine('lamp', 1)] }]);
+    expect(() => ReturnService.buildRefund(sale, [returnLine('lamp', 1)], [sale, first])).toThrow('Cannot return more lamp than remain on the original sale.');
+    expect(() => ReturnService.buildRefund(sale, [returnLine('mug', 0)], [sale])).toThrow('Select at least one item to return.');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { CartItem, PaymentLine, PaymentMethod, TaxLine, Transaction } from '../types.ts';
+import { TenderService } from './tenderService.ts';
+import { LoyaltyService } from './loyaltyService.ts';
+import { MeasureService } from './measureService.ts';
+
+export interface ReturnLineRequest {
+  productId: string;
+  quantity: number;
+  restock: boolean;
+}
+
+// Refunds are stored with negative money amounts so that summing any set of
+// transactions (revenue, tender totals) nets sales and refunds automatically.
+export const ReturnService = {
+  isRefund: (transaction: Transaction): boolean => transaction.type === 'refund',
+
+  getRefundsFor: (originalId: string, transactions: Transaction[]): Transaction[] => {
+    return transactions.filter(t => t.type === 'refund' && t.originalTransactionId === originalId);
+  },
+
+  // Units already returned per product for a given sale
+  getReturnedQuantities: (original: Transaction, transactions: Transaction[]): Record<string, number> => {
+    const returned: Record<string, number> = {};
+    ReturnService.getRefundsFor(original.id, transactions).forEach(r => r.items.forEach(item => {
+      returned[item.id] = (returned[item.id] || 0) + item.quantity;
+    }));
+    return returned;
+  },
+
+  // Gift cards are not taken back; their value is already on the card
+  getReturnableQuantity: (original: Transaction, productId: string, transactions: Transaction[]): number => {
+    const line = original.items.find(i => i.id === productId);
+    if (line?.giftCardCode) return 0;
+    const sold = line?.quantity || 0;
+    return Math.max(0, MeasureService.roundQuantity(sold - (ReturnService.getReturnedQuantities(original, transactions)[productId] || 0)));
+  },
+
+  isFullyReturned: (original: Transaction, transactions: Transaction[]): boolean => {
+    return original.items.every(i => ReturnService.getReturnableQuantity(original, i.id, transactions) === 0);
+  },
+
+  // Money still refundable on each payment line of the sale, in the order the tenders were taken.
+  // Earlier refunds are taken off the lines the same way buildRefund hands them out, most recent
+  // line first, so each gift card only ever gets back what was charged to it.
+  getRefundableByPayment: (original: Transaction, transactions: Transaction[]): { method: PaymentMethod; amount: number; giftCardCode?: string }[] => {
+    const remaining = original.payments.map(p => p.amount);
+    const consume = (lineIndexes: number[], amount: number) => {
+      let left = amount;
+      [...lineIndexes].reverse().forEach(i => {
+        const portion = Math.min(Math.max(0, remaining[i]), left);
+        remaining[i] -= portion;
+        left -= portion;
+      });
+    };
+    const indexes = (match: (p: PaymentLine) => boolean) => original.payments.flatMap((p, i) => match(p) ? [i] : []);
+
+    ReturnService.getRefundsFor(original.id, transactions).forEach(r => r.payments.forEach(p => {
+      const cardLines = p.giftCardCode ? indexes(line => line.giftCardCode === p.giftCardCode) : [];
+      if (cardLines.length > 0) {
+        consume(cardLines, -p.amount);
+      } else if (p.method === 'gift_card') {
+        // New store credit stands in for whichever tenders the refund would otherwise have gone back to
+        consume(indexes(line => line.method !== 'points'), -p.amount);
+      } else {
+        consume(indexes(line => line.method === p.method && !line.giftCardCode), -p.amount);
+      }
+    }));
+    return original.payments.map((p, i) => ({ method: p.method, amount: TenderService.roundCurrency(Math.max(0, remaining[i])), giftCardCode: p.giftCardCode }));
+  },
+
+  // Net and per-rate tax for a whole sold line. Sales recorded before line amounts
+  // were stored share the transaction tax by line value instead.
+  getLineAmounts: (original: Transaction, item: CartItem): { net: number; taxes: Record<string, number> } => {
+    if (item.lineNet !== undefined) return { net: item.lineNet, taxes: item.lineTaxes || {} };
+    const net = item.price * item.quantity;
+    const share = original.subtotal ? net / original.subtotal : 0;
+    const taxes: Record<string, number> = {};
+    original.taxBreakdown.forEach(l => { taxes[l.rateId] = l.amount * share; });
+    return { net, taxes };
+  },
+
+  // With `toStoreCredit` the money goes onto new store credit instead of back to the original
+  // tenders; points spent on the sale still go back as points.
+  buildRefund: (original: Transaction, lines: ReturnLineRequest[], transactions: Transaction[], toStoreCredit = false): Transaction => {
+    const items: CartItem[] = lines
+      .filter(l => l.quantity > 0)
+      .map(l => {
+        const sold = original.items.find(i => i.id === l.productId);
+        if (!sold) throw new Error(`Product ${l.productId} was not part of this sale.`);
+        if (l.quantity > ReturnService.getReturnableQuantity(original, l.productId, transactions)) {
+          throw new Error(`Cannot return more ${sold.name} than remain on the original sale.`);
+        }
+        const amounts = ReturnService.getLineAmounts(original, sold);
+        const fraction = l.quantity / sold.quantity;
+        const lineTaxes: Record<string, number> = {};
+        Object.entries(amounts.taxes).forEach(([rateId, amount]) => { lineTaxes[rateId] = amount * fraction; });
+        return {
+          ...sold,
+          quantity: l.quantity,
+          restocked: l.restock,
+          lineDiscount: (sold.lineDiscount || 0) * fraction,
+          lineNet: amounts.net * fraction,
+          lineTaxes,
+          loyaltyPoints: sold.loyaltyPoints !== undefined ? sold.loyaltyPoints * fraction : undefined,
+        };
+      });
+    if (items.length === 0) throw new Error('Select at least one item to return.');
+
+    const priorRefunds = ReturnService.getRefundsFor(original.id, transactions);
+    const returnedAfter = { ...ReturnService.getReturnedQuantities(original, transactions) };
+    items.forEach(i => { returnedAfter[i.id] = (returnedAfter[i.id] || 0) + i.quantity; });
+    const completesSale = original.items.every(i => (returnedAfter[i.id] || 0) >= i.quantity);
+
+    // The final return takes whatever is left so rounding never leaves pennies behind
+    const taxBreakdown: TaxLine[] = original.taxBreakdown.map(line => {
+      const lineItems = items.filter(i => i.lineTaxes?.[line.rateId] !== undefined);
+      const amount = completesSale
+        ? line.amount + priorRefunds.reduce((sum, r) => sum + (r.taxBreakdown.find(b => b.rateId === line.rateId)?.amount || 0), 0)
+        : lineItems.reduce((sum, i) => sum + (i.lineTaxes?.[line.rateId] || 0), 0);
+      return {
+        ...line,
+        taxableAmount: -TenderService.roundCurrency(lineItems.reduce((sum, i) => sum + (i.lineNet || 0), 0)),
+        amount: -TenderService.roundCurrency(amount),
+      };
+    }).filter(line => line.amount !== 0);
+
+    const subtotal = completesSale
+      ? TenderService.roundCurrency(original.subtotal + priorRefunds.reduce((sum, r) => sum + r.subtotal, 0))
+      : TenderService.roundCurrency(items.reduce((sum, i) => sum + (i.lineNet || 0), 0));
+    const tax = -TenderService.roundCurrency(taxBreakdown.reduce((sum, l) => sum + l.amount, 0));
+    const total = TenderService.roundCurrency(subtotal + tax);
+
+    // Refund to the original tenders, most recent tender first
+    let outstanding = total;
+    let payments: PaymentLine[] = [];
+    [...ReturnService.getRefundableByPayment(original, transactions)].reverse().forEach(({ method, amount, giftCardCode }) => {
+      if (outstanding <= 0 || amount <= 0) return;
+      const portion = TenderService.roundCurrency(Math.min(amount, outstanding));
+      payments.push(giftCardCode ? { method, amount: -portion, giftCardCode } : { method, amount: -portion });
+      outstanding = TenderService.roundCurrency(outstanding - portion);
+    });
+    if (outstanding > 0) throw new Error('Refund exceeds the amount remaining on the original tenders.');
+    if (toStoreCredit) {
+      const credit = TenderService.roundCurrency(payments.filter(p => p.method !== 'points').reduce((sum, p) => sum + p.amount, 0));
+      payments = [...payments.filter(p => p.method === 'points'), ...(credit < 0 ? [{ method: 'gift_card' as const, amount: credit }] : [])];
+    }
+    const loyalty = LoyaltyService.forRefund({ items, payments }, original, priorRefunds, completesSale);
+
+    return {
+      id: crypto.randomUUID(),
+      date: new Date().toISOString(),
+      type: 'refund',
+      originalTransactionId: original.id,
+      items,
+      discounts: [],
+      discountTotal: -TenderService.roundCurrency(items.reduce((sum, i) => sum + (i.lineDiscount || 0), 0)),
+      subtotal: -subtotal,
+      tax: -tax,
+      taxBreakdown,
+      taxExempt: original.taxExempt,
+      total: -total,
+      payments,
+      customerId: original.customerId,
+      loyalty,
+    };
+  }
+};
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { PaymentMethod, Transaction } from '../types.ts';
+import { CsvService } from './csvService.ts';
+import { ReturnService } from './returnService.ts';
+import { TenderService } from './tenderService.ts';
+import { GIFT_CARD_CATEGORY } from './giftCardService.ts';
+import { MeasureService } from './measureService.ts';
+
+// Chart of accounts used by the journal export; rename to match the bookkeeper's ledger
+export const JOURNAL_ACCOUNTS = {
+  tenders: {
+    cash: '1000 Cash on Hand',
+    card: '1100 Card Clearing',
+    digital: '1110 Digital Wallet Clearing',
+    points: '2300 Loyalty Points Liability',
+    gift_card: '2400 Gift Card Liability',
+  } as Record<PaymentMethod, string>,
+  revenue: (category: string) => `4000 Sales - ${category}`,
+  tax: (name: string) => `2200 Sales Tax Payable - ${name}`,
+  rounding: '4900 Rounding',
+};
+
+export interface JournalLine {
+  date: string; // YYYY-MM-DD, store local time
+  journal: string;
+  account: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+const localDate = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const money = (amount: number) => TenderService.roundCurrency(amount).toFixed(2);
+
+const add = (totals: Record<string, number>, key: string, amount: number) => {
+  totals[key] = (totals[key] || 0) + amount;
+};
+
+export const SalesExportService = {
+  // Net revenue per category, signed like the transaction. Lines recorded before line
+  // amounts were stored share the subtotal in proportion to their gross price.
+  revenueByCategory: (t: Transaction): Record<string, number> => {
+    const sign = ReturnService.isRefund(t) ? -1 : 1;
+    const totals: Record<string, number> = {};
+    if (t.items.every(i => i.lineNet !== undefined)) {
+      t.items.forEach(i => add(totals, i.category, sign * i.lineNet!));
+      return totals;
+    }
+    const gross = t.items.reduce((sum, i) => sum + i.price * i.quantity, 0);
+    t.items.forEach(i => add(totals, i.category, gross ? t.subtotal * (i.price * i.quantity) / gross : 0));
+    return totals;
+  },
+
+  // Both dates are YYYY-MM-DD in store local time and inclusive
+  inRange: (transactions: Transaction[], from: string, to: string): Transaction[] => {
+    return transactions
+      .filter(t => { const day = localDate(t.date); return day >= from && day <= to; })
+      .sort((a, b) => a.date.localeCompare(b.date));
+  },
+
+  transactionsCsv: (transactions: Transaction[]): string => {
+    return CsvService.stringify([
+      ['id', 'type', 'date', 'original_id', 'items', 'subtotal', 'discount_total', 'tax', 'total', 'payments', 'tax_exempt_reason', 'points_earned', 'points_redeemed'],
+      ...transactions.map(t => [
+        t.id,
+        t.type || 'sale',
+        t.date,
+        t.originalTransactionId,
+        MeasureService.itemCount(t.items),
+        money(t.subtotal),
+        money(t.discountTotal),
+        money(t.tax),
+        money(t.total),
+        t.payments.map(p => `${p.method}:${money(p.amount)}`).join(';'),
+        t.taxExempt?.reason,
+        t.loyalty?.earned,
+        t.loyalty?.redeemed,
+      ]),
+    ]);
+  },
+
+  // One row per line; refund rows carry negative quantities and amounts. Variants name their parent so they can be rolled up
+  lineItemsCsv: (transactions: Transaction[]): string => {
+    return CsvService.stringify([
+      ['transaction_id', 'type', 'date', 'sku', 'name', 'parent_product_id', 'variant', 'category', 'quantity', 'unit', 'unit_price', 'discount', 'net', 'tax'],
+      ...transactions.flatMap(t => {
+        const sign = ReturnService.isRefund(t) ? -1 : 1;
+        return t.items.map(i => [
+          t.id,
+          t.type || 'sale',
+          t.date,
+          i.sku,
+          i.name,
+          i.parentId,
+          i.variantValues && Object.values(i.variantValues).join(' / '),
+          i.category,
+          sign * i.quantity,
+          i.unit || 'each',
+          money(i.price),
+          money(sign * (i.lineDiscount || 0)),
+          i.lineNet === undefined ? '' : money(sign * i.lineNet),
+          i.lineTaxes ? money(sign * Object.values(i.lineTaxes).reduce((sum, a) => sum + a, 0)) : '',
+        ]);
+      }),
+    ]);
+  },
+
+  json: (transactions: Transaction[], from: string, to: string): string => {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), from, to, transactions }, null, 2);
+  },
+
+  // One balanced journal per day: tenders received on the debit side, revenue by category,
+  // gift cards sold and tax collected on the credit side. Refunds net off within the day.
+  journal: (transactions: Transaction[]): JournalLine[] => {
+    const days = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+      const day = localDate(t.date);
+      days.set(day, [...(days.get(day) || []), t]);
+    });
+
+    return [...days.keys()].sort().flatMap(date => {
+      const journal = `SALES-${date}`;
+      const tenders: Record<string, number> = {};
+      const revenue: Record<string, number> = {};
+      const giftCardsSold: Record<string, number> = {};
+      const tax: Record<string, number> = {};
+      days.get(date)!.forEach(t => {
+        t.payments.forEach(p => add(tenders, JOURNAL_ACCOUNTS.tenders[p.method], p.amount));
+        Object.entries(SalesExportService.revenueByCategory(t)).forEach(([category, amount]) => {
+          // Selling a gift card takes on a liability; the revenue comes when the card is spent
+          if (category === GIFT_CARD_CATEGORY) add(giftCardsSold, JOURNAL_ACCOUNTS.tenders.gift_card, amount);
+          else add(revenue, JOURNAL_ACCOUNTS.revenue(category), amount);
+        });
+        t.taxBreakdown.forEach(line => add(tax, JOURNAL_ACCOUNTS.tax(line.name), line.amount));
+      });
+
+      const lines: JournalLine[] = [];
+      const post = (account: string, amount: number, description: string) => {
+        const rounded = TenderService.roundCurrency(amount);
+        if (rounded === 0) return;
+        // A negative balance on either side (e.g. a day of net refunds) moves to the other side
+        lines.push({ date, journal, account, description, debit: rounded > 0 ? rounded : 0, credit: rounded < 0 ? -rounded : 0 });
+      };
+      Object.entries(tenders).forEach(([account, amount]) => post(account, amount, 'Tenders received'));
+      Object.entries(revenue).forEach(([account, amount]) => post(account, -amount, 'Net sales'));
+      Object.entries(giftCardsSold).forEach(([account, amount]) => post(account, -amount, 'Gift cards sold'));
+      Object.entries(tax).forEach(([account, amount]) => post(account, -amount, 'Tax collected'));
+
+      const imbalance = TenderService.roundCurrency(lines.reduce((sum, l) => sum + l.debit - l.credit, 0));
+      if (imbalance !== 0) post(JOURNAL_ACCOUNTS.rounding, -imbalance, 'Rounding');
+      return lines;
+    });
+  },
+
+  journalCsv: (lines: JournalLine[]): string => {
+    return CsvService.stringify([
+      ['date', 'journal', 'account', 'description', 'debit', 'credit'],
+      ...lines.map(l => [l.date, l.journal, l.account, l.description, l.debit ? money(l.debit) : '', l.credit ? money(l.credit) : '']),
+    ]);
+  }
+};
\ No newline at end of file
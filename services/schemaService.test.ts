@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, SchemaService } from './schemaService.ts';
+
+const product = {
+  id: 'p1',
+  sku: 'SKU-1',
+  name: 'Apples',
+  category: 'Produce',
+  price: 2.5,
+  stock: 10,
+};
+
+const transaction = {
+  id: 't1',
+  date: '2024-03-01T10:00:00.000Z',
+  items: [{ ...product, quantity: 2 }],
+  discounts: [],
+  discountTotal: 0,
+  subtotal: 5,
+  tax: 0.4,
+  taxBreakdown: [],
+  total: 5.4,
+  payments: [{ method: 'cash', amount: 5.4 }],
+};
+
+describe('SchemaService.migrate', () => {
+  it('brings an original transaction up to the current shape', () => {
+    const original = { id: 't1', date: transaction.date, items: transaction.items, subtotal: 5, tax: 0.4, total: 5.4, paymentMethod: 'card', amountReceived: 5.4 };
+    const migrated = SchemaService.migrate('transactions', original, 1);
+    expect(migrated).toEqual({
+      id: 't1',
+      date: transaction.date,
+      items: transaction.items,
+      subtotal: 5,
+      tax: 0.4,
+      total: 5.4,
+      payments: [{ method: 'card', amount: 5.4, amountReceived: 5.4, changeGiven: undefined }],
+      taxBreakdown: [{ rateId: 'legacy', name: 'Sales Tax', rate: 0.08, taxableAmount: 5, amount: 0.4 }],
+      discounts: [],
+      discountTotal: 0,
+    });
+    expect(SchemaService.validate('transactions', migrated)).toEqual([]);
+  });
+
+  it('leaves records already in the current shape untouched', () => {
+    expect(SchemaService.migrate('transactions', transaction, 1)).toEqual(transaction);
+    expect(SchemaService.migrate('transactions', transaction, SCHEMA_VERSION)).toBe(transaction);
+  });
+
+  it('passes anything that is not an object through for validation', () => {
+    expect(SchemaService.migrate('transactions', 'corrupt', 1)).toBe('corrupt');
+    expect(SchemaService.migrate('transactions', null, 1)).toBeNull();
+  });
+});
+
+describe('SchemaService.validate', () => {
+  it('accepts well-formed records', () => {
+    expect(SchemaService.validate('products', product)).toEqual([]);
+    expect(SchemaService.validate('transactions', transaction)).toEqual([]);
+  });
+
+  it('rejects anything that is not an object', () => {
+    ['text', 42, null, undefined, [product]].forEach(record => {
+      expect(SchemaService.validate('products', record)).toEqual(['Record is not an object.']);
+    });
+  });
+
+  it('lists each problem with a product', () => {
+    const errors = SchemaService.validate('products', { ...product, sku: ' ', price: -1, reorderPoint: 'five', unit: 'toString' });
+    expect(errors).toEqual([
+      'Missing SKU.',
+      'Price must be a non-negative number.',
+      'reorderPoint must be a non-negative number.',
+      'Unknown unit "toString".',
+    ]);
+  });
+
+  it('only accepts known movement reasons', () => {
+    const movement = { id: 'm1', productId: 'p1', reason: 'sale', quantity: -1, timestamp: transaction.date };
+    expect(SchemaService.validate('stock_movements', movement)).toEqual([]);
+    expect(SchemaService.validate('stock_movements', { ...movement, reason: 'constructor' })).toEqual(['Unknown movement reason "constructor".']);
+  });
+
+  it('rejects transactions with bad items or payment lines', () => {
+    const errors = SchemaService.validate('transactions', { ...transaction, items: [null], payments: [{ method: 'cheque', amount: 5.4 }] });
+    expect(errors).toEqual(['Item 1 is not an object.', 'A payment line has an unknown method or invalid amount.']);
+  });
+
+  it('checks a gift card balance against its history', () => {
+    const card = {
+      id: 'g1',
+      code: 'GC-1',
+      kind: 'gift_card',
+      balance: 30,
+      history: [{ type: 'issue', amount: 50 }, { type: 'spend', amount: -20 }],
+    };
+    expect(SchemaService.validate('gift_cards', card)).toEqual([]);
+    expect(SchemaService.validate('gift_cards', { ...card, balance: 50 })).toEqual(['Balance does not match the card history.']);
+    expect(SchemaService.validate('gift_cards', { ...card, history: [...card.history, 'bad'] })).toEqual(['A history entry has an unknown type or amount.']);
+  });
+});
\ No newline at end of file
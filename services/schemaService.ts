@@ -0,0 +1,255 @@
+import { Lot, StockMovement } from '../types.ts';
+import { StorageBackend, StoreName, StoredRecord } from './storageBackend.ts';
+import { InventoryService, MOVEMENT_REASON_LABELS } from './inventoryService.ts';
+import { UNIT_LABELS } from './measureService.ts';
+
+type RecordMigration = (record: StoredRecord) => StoredRecord;
+
+// Products as older versions stored them, before stock moved into the ledger and expiry onto lots
+interface LegacyProduct {
+  id: string;
+  stock: number;
+  expiryDate?: string;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  stores: Partial<Record<StoreName, RecordMigration>>;
+  // Cross-store work, run after every record has been brought up to date
+  run?: (target: StorageBackend) => Promise<void>;
+}
+
+// Ordered upgrades from the original record shapes (version 1). Each step must leave
+// records that are already in the newer shape untouched.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Split tender: payment lines replace a single paymentMethod',
+    stores: {
+      transactions: (t) => {
+        if (Array.isArray(t.payments)) return t;
+        const { paymentMethod, amountReceived, changeGiven, ...rest } = t;
+        return { ...rest, payments: [{ method: paymentMethod || 'cash', amount: t.total, amountReceived, changeGiven }] };
+      },
+    },
+  },
+  {
+    version: 3,
+    description: 'Tax engine: per-rate tax breakdown replaces the flat 8% sales tax',
+    stores: {
+      transactions: (t) => {
+        if (Array.isArray(t.taxBreakdown)) return t;
+        return {
+          ...t,
+          taxBreakdown: t.tax
+            ? [{ rateId: 'legacy', name: 'Sales Tax', rate: 0.08, taxableAmount: t.subtotal, amount: t.tax }]
+            : [],
+        };
+      },
+    },
+  },
+  {
+    version: 4,
+    description: 'Discounts and promotions recorded on each transaction',
+    stores: {
+      transactions: (t) => Array.isArray(t.discounts) ? t : { ...t, discounts: [], discountTotal: 0 },
+    },
+  },
+  {
+    version: 5,
+    description: 'Stock ledger: carry each product\'s stock over as an opening balance movement',
+    stores: {},
+    run: async (target) => {
+      const tracked = new Set((await target.getAll<StockMovement>('stock_movements')).map(m => m.productId));
+      const products = await target.getAll<LegacyProduct>('products');
+      const openings = products
+        .filter(p => !tracked.has(p.id) && typeof p.stock === 'number' && p.stock !== 0)
+        .map(p => InventoryService.createMovement(p.id, 'opening_balance', p.stock, 'System', { note: 'Stock on hand when the ledger was introduced' }));
+      await target.putMany('stock_movements', openings);
+    },
+  },
+  {
+    version: 6,
+    description: 'Lot tracking: move each product\'s stock into a lot carrying its expiry date',
+    stores: {},
+    run: async (target) => {
+      const products = await target.getAll<LegacyProduct>('products');
+      const movements = await target.getAll<StockMovement>('stock_movements');
+      const lotted = new Set((await target.getAll<Lot>('lots')).map(l => l.productId));
+      const onHand = InventoryService.onHandByProduct(movements.filter(m => !m.lotId));
+      const lots: Lot[] = [];
+      const transfers: StockMovement[] = [];
+      products.filter(p => !lotted.has(p.id) && (onHand[p.id] || 0) > 0).forEach(p => {
+        const lot = InventoryService.createLot(p.id, { expiryDate: p.expiryDate });
+        const note = 'Moved into lot tracking';
+        lots.push(lot);
+        transfers.push(
+          InventoryService.createMovement(p.id, 'transfer', -onHand[p.id], 'System', { note }),
+          InventoryService.createMovement(p.id, 'transfer', onHand[p.id], 'System', { note, lotId: lot.id }),
+        );
+      });
+      await target.putMany('lots', lots);
+      await target.putMany('stock_movements', transfers);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const PAYMENT_METHODS = ['cash', 'card', 'digital', 'points', 'gift_card'];
+const PO_STATUSES = ['draft', 'sent', 'partially_received', 'closed'];
+const CASH_EVENT_TYPES = ['paid_in', 'paid_out', 'drop'];
+const STAFF_ROLES = ['cashier', 'supervisor', 'manager'];
+const GIFT_CARD_EVENT_TYPES = ['issue', 'load', 'spend', 'refund'];
+
+const isRecord = (value: unknown): value is StoredRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(new Date(value).getTime());
+const isOneOf = (values: string[], value: unknown) => typeof value === 'string' && values.includes(value);
+
+export const SchemaService = {
+  // Apply every migration newer than `fromVersion` to one record. Anything that isn't an
+  // object is passed through for validation to set aside.
+  migrate: (store: StoreName, record: unknown, fromVersion: number): unknown => {
+    if (!isRecord(record)) return record;
+    return MIGRATIONS
+      .filter(m => m.version > fromVersion && m.stores[store])
+      .reduce((current, m) => m.stores[store]!(current), record);
+  },
+
+  // Returns a list of problems; an empty list means the record is safe to load
+  validate: (store: StoreName, record: unknown): string[] => {
+    if (!isRecord(record)) return ['Record is not an object.'];
+    switch (store) {
+      case 'products': return SchemaService.validateProduct(record);
+      case 'transactions': return SchemaService.validateTransaction(record);
+      case 'stock_movements': return SchemaService.validateMovement(record);
+      case 'lots': return isText(record.id) && isText(record.productId) && isDate(record.receivedAt)
+        && (record.expiryDate === undefined || isDate(record.expiryDate)) ? [] : ['Lot needs an id, product, received date and a valid expiry.'];
+      case 'suppliers': return isText(record.id) && isText(record.name) ? [] : ['Supplier needs an id and a name.'];
+      case 'purchase_orders': return SchemaService.validatePurchaseOrder(record);
+      case 'shifts': return SchemaService.validateShift(record);
+      case 'users': return isText(record.id) && isText(record.name) && isOneOf(STAFF_ROLES, record.role)
+        && isText(record.pinSalt) && isText(record.pinHash) ? [] : ['Staff account needs an id, name, known role and PIN.'];
+      case 'customers': return isText(record.id) && isText(record.name) ? [] : ['Customer needs an id and a name.'];
+      case 'loyalty_ledger': return isText(record.id) && isText(record.customerId) && isNumber(record.points)
+        && isText(record.transactionId) ? [] : ['Loyalty entry needs an id, customer, transaction and points.'];
+      case 'gift_cards': return SchemaService.validateGiftCard(record);
+      case 'audit_log': return isText(record.id) && isNumber(record.sequence) && isText(record.action)
+        && isText(record.previousHash) && isText(record.hash) ? [] : ['Audit entry needs an id, sequence, action and hashes.'];
+      default: return [];
+    }
+  },
+
+  validateProduct: (p: StoredRecord): string[] => {
+    const errors: string[] = [];
+    if (!isText(p.id)) errors.push('Missing id.');
+    if (!isText(p.sku)) errors.push('Missing SKU.');
+    if (!isText(p.name)) errors.push('Missing name.');
+    if (typeof p.category !== 'string') errors.push('Missing category.');
+    if (!isNumber(p.price) || p.price < 0) errors.push('Price must be a non-negative number.');
+    if (!isNumber(p.stock)) errors.push('Stock must be a number.');
+    if (p.barcode !== undefined && typeof p.barcode !== 'string') errors.push('Barcode must be text.');
+    if (p.expiryDate && !isDate(p.expiryDate)) errors.push('Expiry date is not a valid date.');
+    ['reorderPoint', 'reorderQuantity', 'leadTimeDays'].forEach(field => {
+      const value = p[field];
+      if (value !== undefined && (!isNumber(value) || value < 0)) errors.push(`${field} must be a non-negative number.`);
+    });
+    if (p.options !== undefined && (!Array.isArray(p.options) || !p.options.every((o: unknown) => isRecord(o) && isText(o.name) && Array.isArray(o.values)))) {
+      errors.push('Options must each have a name and a list of values.');
+    }
+    if (p.parentId !== undefined && !isText(p.parentId)) errors.push('Parent id must be text.');
+    if (p.priceOverride !== undefined && (!isNumber(p.priceOverride) || p.priceOverride < 0)) errors.push('Price override must be a non-negative number.');
+    if (p.unit !== undefined && !isOneOf(Object.keys(UNIT_LABELS), p.unit)) errors.push(`Unknown unit "${p.unit}".`);
+    if (p.plu !== undefined && !isText(p.plu)) errors.push('PLU must be text.');
+    return errors;
+  },
+
+  validateMovement: (m: StoredRecord): string[] => {
+    const errors: string[] = [];
+    if (!isText(m.id)) errors.push('Missing id.');
+    if (!isText(m.productId)) errors.push('Missing product id.');
+    if (!isOneOf(Object.keys(MOVEMENT_REASON_LABELS), m.reason)) errors.push(`Unknown movement reason "${m.reason}".`);
+    if (!isNumber(m.quantity)) errors.push('Quantity must be a number.');
+    if (!isDate(m.timestamp)) errors.push('Timestamp is missing or invalid.');
+    return errors;
+  },
+
+  validatePurchaseOrder: (o: StoredRecord): string[] => {
+    const errors: string[] = [];
+    if (!isText(o.id)) errors.push('Missing id.');
+    if (!isText(o.number)) errors.push('Missing PO number.');
+    if (!isText(o.supplierId)) errors.push('Missing supplier.');
+    if (!isOneOf(PO_STATUSES, o.status)) errors.push(`Unknown status "${o.status}".`);
+    if (!Array.isArray(o.receipts)) errors.push('Receipt list is missing.');
+    if (!Array.isArray(o.lines)) {
+      errors.push('Line list is missing.');
+    } else if (o.lines.some((l: unknown) => !isRecord(l) || !isText(l.productId) || !isNumber(l.quantityOrdered) || !isNumber(l.quantityReceived) || !isNumber(l.unitCost))) {
+      errors.push('A line is missing its product, quantities or cost.');
+    }
+    return errors;
+  },
+
+  validateShift: (s: StoredRecord): string[] => {
+    const errors: string[] = [];
+    if (!isText(s.id)) errors.push('Missing id.');
+    if (s.status !== 'open' && s.status !== 'closed') errors.push(`Unknown status "${s.status}".`);
+    if (!isDate(s.openedAt)) errors.push('Opening time is missing or invalid.');
+    if (!isNumber(s.openingFloat)) errors.push('Opening float must be a number.');
+    if (!Array.isArray(s.cashEvents)) {
+      errors.push('Cash event list is missing.');
+    } else if (s.cashEvents.some((e: unknown) => !isRecord(e) || !isOneOf(CASH_EVENT_TYPES, e.type) || !isNumber(e.amount))) {
+      errors.push('A cash event has an unknown type or amount.');
+    }
+    if (s.status === 'closed' && (!isNumber(s.countedCash) || !isNumber(s.expectedCash))) errors.push('Closed shift is missing its cash count.');
+    return errors;
+  },
+
+  validateGiftCard: (g: StoredRecord): string[] => {
+    const errors: string[] = [];
+    if (!isText(g.id)) errors.push('Missing id.');
+    if (!isText(g.code)) errors.push('Missing code.');
+    if (g.kind !== 'gift_card' && g.kind !== 'store_credit') errors.push(`Unknown card kind "${g.kind}".`);
+    if (!Array.isArray(g.history)) {
+      errors.push('Card history is missing.');
+    } else if (g.history.some((e: unknown) => !isRecord(e) || !isOneOf(GIFT_CARD_EVENT_TYPES, e.type) || !isNumber(e.amount))) {
+      errors.push('A history entry has an unknown type or amount.');
+    } else if (!isNumber(g.balance) || Math.abs(g.history.reduce((sum: number, e: unknown) => sum + (isRecord(e) && isNumber(e.amount) ? e.amount : 0), 0) - g.balance) > 0.005) {
+      errors.push('Balance does not match the card history.');
+    }
+    return errors;
+  },
+
+  validateTransaction: (t: StoredRecord): string[] => {
+    const errors: string[] = [];
+    if (!isText(t.id)) errors.push('Missing id.');
+    if (!isDate(t.date)) errors.push('Date is missing or invalid.');
+    if (t.type !== undefined && t.type !== 'sale' && t.type !== 'refund') errors.push(`Unknown transaction type "${t.type}".`);
+    if (!Array.isArray(t.items) || t.items.length === 0) {
+      errors.push('Transaction has no items.');
+    } else {
+      t.items.forEach((item: unknown, idx: number) => {
+        if (!isRecord(item)) {
+          errors.push(`Item ${idx + 1} is not an object.`);
+          return;
+        }
+        if (!isText(item.id)) errors.push(`Item ${idx + 1} is missing a product id.`);
+        if (!isNumber(item.price)) errors.push(`Item ${idx + 1} has an invalid price.`);
+        if (!isNumber(item.quantity) || item.quantity <= 0) errors.push(`Item ${idx + 1} has an invalid quantity.`);
+      });
+    }
+    ['subtotal', 'tax', 'total', 'discountTotal'].forEach(field => {
+      if (!isNumber(t[field])) errors.push(`${field} must be a number.`);
+    });
+    if (!Array.isArray(t.taxBreakdown)) errors.push('Tax breakdown is missing.');
+    if (!Array.isArray(t.discounts)) errors.push('Discount list is missing.');
+    if (!Array.isArray(t.payments)) {
+      errors.push('Payment lines are missing.');
+    } else if (t.payments.some((p: unknown) => !isRecord(p) || !isOneOf(PAYMENT_METHODS, p.method) || !isNumber(p.amount))) {
+      errors.push('A payment line has an unknown method or invalid amount.');
+    }
+    return errors;
+  }
+};
\ No newline at end of file
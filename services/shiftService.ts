@@ -0,0 +1,151 @@
+import { CashEvent, CashEventType, PaymentMethod, Shift, Transaction } from '../types.ts';
+import { ReturnService } from './returnService.ts';
+import { SalesExportService } from './salesExportService.ts';
+import { TenderService } from './tenderService.ts';
+
+export const CASH_EVENT_LABELS: Record<CashEventType, string> = {
+  paid_in: 'Paid In',
+  paid_out: 'Paid Out',
+  drop: 'Cash Drop',
+};
+
+export type ShiftReportKind = 'X' | 'Z';
+
+export interface ShiftCashSummary {
+  openingFloat: number;
+  cashSales: number;
+  cashRefunds: number; // Negative, like the refund payments
+  paidIn: number;
+  paidOut: number;
+  drops: number;
+  expected: number;
+  counted?: number; // Z reports only
+  variance?: number; // Counted minus expected; negative means the drawer is short
+}
+
+// X reports read a shift mid-way without closing it; the Z report is the final one at close
+export interface ShiftReport {
+  kind: ShiftReportKind;
+  shift: Shift;
+  generatedAt: string;
+  salesCount: number;
+  refundCount: number;
+  grossSales: number; // Totals of sales, tax included
+  refunds: number; // Totals of refunds, negative
+  netSales: number;
+  discounts: number; // Net of discounts reversed by refunds
+  taxes: { name: string; rate: number; amount: number }[];
+  tenders: Record<PaymentMethod, number>;
+  categories: { category: string; amount: number }[]; // Net of tax
+  cash: ShiftCashSummary;
+}
+
+const sumEvents = (shift: Shift, type: CashEventType) => {
+  return TenderService.roundCurrency(shift.cashEvents.filter(e => e.type === type).reduce((sum, e) => sum + e.amount, 0));
+};
+
+const cashPayments = (transactions: Transaction[], refunds: boolean) => {
+  return TenderService.roundCurrency(transactions
+    .filter(t => ReturnService.isRefund(t) === refunds)
+    .reduce((sum, t) => sum + t.payments.filter(p => p.method === 'cash').reduce((s, p) => s + p.amount, 0), 0));
+};
+
+export const ShiftService = {
+  open: (openingFloat: number, user: string, shifts: Shift[]): Shift => {
+    if (!isFinite(openingFloat) || openingFloat < 0) throw new Error('Opening float must be zero or more.');
+    if (shifts.some(s => s.status === 'open')) throw new Error('A shift is already open. Close it before opening another.');
+    return {
+      id: crypto.randomUUID(),
+      number: shifts.reduce((max, s) => Math.max(max, s.number), 0) + 1,
+      status: 'open',
+      openedAt: new Date().toISOString(),
+      openedBy: user,
+      openingFloat: TenderService.roundCurrency(openingFloat),
+      cashEvents: [],
+    };
+  },
+
+  recordCashEvent: (shift: Shift, type: CashEventType, amount: number, reason: string, user: string): Shift => {
+    if (shift.status !== 'open') throw new Error('This shift is already closed.');
+    if (!isFinite(amount) || amount <= 0) throw new Error('Amount must be greater than zero.');
+    if (!reason.trim()) throw new Error(`${CASH_EVENT_LABELS[type]} needs a reason.`);
+    const event: CashEvent = {
+      id: crypto.randomUUID(),
+      type,
+      amount: TenderService.roundCurrency(amount),
+      reason: reason.trim(),
+      user,
+      timestamp: new Date().toISOString(),
+    };
+    return { ...shift, cashEvents: [...shift.cashEvents, event] };
+  },
+
+  // Only transactions tagged with this shift count; any others in the list are ignored
+  cashSummary: (shift: Shift, transactions: Transaction[]): ShiftCashSummary => {
+    const own = transactions.filter(t => t.shiftId === shift.id);
+    const cashSales = cashPayments(own, false);
+    const cashRefunds = cashPayments(own, true);
+    const paidIn = sumEvents(shift, 'paid_in');
+    const paidOut = sumEvents(shift, 'paid_out');
+    const drops = sumEvents(shift, 'drop');
+    const expected = shift.expectedCash ?? TenderService.roundCurrency(shift.openingFloat + cashSales + cashRefunds + paidIn - paidOut - drops);
+    const summary: ShiftCashSummary = { openingFloat: shift.openingFloat, cashSales, cashRefunds, paidIn, paidOut, drops, expected };
+    if (shift.countedCash !== undefined) {
+      summary.counted = shift.countedCash;
+      summary.variance = TenderService.roundCurrency(shift.countedCash - expected);
+    }
+    return summary;
+  },
+
+  // The count is taken blind: expected cash is only worked out once it has been entered
+  close: (shift: Shift, countedCash: number, user: string, transactions: Transaction[]): Shift => {
+    if (shift.status !== 'open') throw new Error('This shift is already closed.');
+    if (!isFinite(countedCash) || countedCash < 0) throw new Error('Counted cash must be zero or more.');
+    return {
+      ...shift,
+      status: 'closed',
+      closedAt: new Date().toISOString(),
+      closedBy: user,
+      expectedCash: ShiftService.cashSummary(shift, transactions).expected,
+      countedCash: TenderService.roundCurrency(countedCash),
+    };
+  },
+
+  report: (kind: ShiftReportKind, shift: Shift, transactions: Transaction[]): ShiftReport => {
+    const own = transactions.filter(t => t.shiftId === shift.id);
+    const sales = own.filter(t => !ReturnService.isRefund(t));
+    const refunds = own.filter(ReturnService.isRefund);
+    const total = (list: Transaction[]) => TenderService.roundCurrency(list.reduce((sum, t) => sum + t.total, 0));
+
+    const taxes = new Map<string, { name: string; rate: number; amount: number }>();
+    const categories: Record<string, number> = {};
+    own.forEach(t => {
+      t.taxBreakdown.forEach(line => {
+        const key = `${line.name}|${line.rate}`;
+        const entry = taxes.get(key) || { name: line.name, rate: line.rate, amount: 0 };
+        taxes.set(key, { ...entry, amount: TenderService.roundCurrency(entry.amount + line.amount) });
+      });
+      Object.entries(SalesExportService.revenueByCategory(t)).forEach(([category, amount]) => {
+        categories[category] = TenderService.roundCurrency((categories[category] || 0) + amount);
+      });
+    });
+
+    return {
+      kind,
+      shift,
+      generatedAt: new Date().toISOString(),
+      salesCount: sales.length,
+      refundCount: refunds.length,
+      grossSales: total(sales),
+      refunds: total(refunds),
+      netSales: total(own),
+      discounts: TenderService.roundCurrency(own.reduce((sum, t) => sum + t.discountTotal, 0)),
+      taxes: [...taxes.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      tenders: TenderService.summarizeByMethod(own),
+      categories: Object.entries(categories)
+        .map(([category, amount]) => ({ category, amount }))
+        .sort((a, b) => b.amount - a.amount),
+      cash: ShiftService.cashSummary(shift, own),
+    };
+  }
+};
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { Permission, StaffRole, StaffUser } from '../types.ts';
+import { HashService } from './hashService.ts';
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  cashier: 'Cashier',
+  supervisor: 'Supervisor',
+  manager: 'Manager',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  view_dashboard: 'View the dashboard',
+  edit_prices: 'Change product prices',
+  delete_products: 'Delete products',
+  give_discounts: 'Give manual discounts',
+  give_refunds: 'Give refunds',
+  manage_staff: 'Manage staff accounts',
+  view_audit_log: 'View the audit log',
+  manage_promotions: 'Manage promotions and coupons',
+  manage_settings: 'Change store, tax and security settings',
+};
+
+// Anything a role lacks can still be done with approval from someone whose role has it
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  cashier: [],
+  supervisor: ['view_dashboard', 'give_discounts', 'give_refunds'],
+  manager: ['view_dashboard', 'edit_prices', 'delete_products', 'give_discounts', 'give_refunds', 'manage_staff', 'view_audit_log', 'manage_promotions', 'manage_settings'],
+};
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// Slow down guessing: after this many wrong PINs a pad locks for a while
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_SECONDS = 30;
+
+// Kept outside the components so closing and reopening a PIN pad doesn't reset its count
+const pinLockouts: Record<string, { failures: number; lockedUntil: number }> = {};
+
+export const StaffService = {
+  can: (user: StaffUser | null, permission: Permission): boolean => {
+    return !!user && user.active && ROLE_PERMISSIONS[user.role].includes(permission);
+  },
+
+  initials: (name: string): string => {
+    return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+  },
+
+  hashPin: async (pin: string, salt: string): Promise<string> => {
+    return HashService.sha256(`${salt}:${pin}`);
+  },
+
+  verifyPin: async (user: StaffUser, pin: string): Promise<boolean> => {
+    return await StaffService.hashPin(pin, user.pinSalt) === user.pinHash;
+  },
+
+  // Sign-in is by PIN alone, which is why PINs have to be unique
+  findByPin: async (pin: string, users: StaffUser[]): Promise<StaffUser | null> => {
+    for (const user of users.filter(u => u.active)) {
+      if (await StaffService.verifyPin(user, pin)) return user;
+    }
+    return null;
+  },
+
+  // Returns a new account, or the given one with its PIN replaced
+  withPin: async (user: Omit<StaffUser, 'pinSalt' | 'pinHash'>, pin: string, users: StaffUser[]): Promise<StaffUser> => {
+    if (!PIN_PATTERN.test(pin)) throw new Error('PIN must be 4 to 8 digits.');
+    const owner = await StaffService.findByPin(pin, users.filter(u => u.id !== user.id));
+    if (owner) throw new Error('That PIN is already in use. Choose a different one.');
+    const pinSalt = crypto.randomUUID();
+    return { ...user, pinSalt, pinHash: await StaffService.hashPin(pin, pinSalt) };
+  },
+
+  create: async (name: string, role: StaffRole, pin: string, users: StaffUser[]): Promise<StaffUser> => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Name is required.');
+    if (users.some(u => u.name.toLowerCase() === trimmed.toLowerCase())) throw new Error(`There is already an account named ${trimmed}.`);
+    return StaffService.withPin({ id: crypto.randomUUID(), name: trimmed, role, active: true, createdAt: new Date().toISOString() }, pin, users);
+  },
+
+  // Refuse changes that would leave nobody able to manage staff
+  checkManagersRemain: (updated: StaffUser, users: StaffUser[]) => {
+    const remaining = users.map(u => u.id === updated.id ? updated : u).filter(u => StaffService.can(u, 'manage_staff'));
+    if (remaining.length === 0) throw new Error('At least one active manager account is required.');
+  },
+
+  // Seconds until the named PIN pad accepts another attempt, 0 when it is open
+  pinLockoutRemaining: (pad: string): number => {
+    const lockedUntil = pinLockouts[pad]?.lockedUntil ?? 0;
+    return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+  },
+
+  // Counts a wrong PIN on the named pad; true when this attempt locks it
+  recordPinFailure: (pad: string): boolean => {
+    const state = pinLockouts[pad] ?? { failures: 0, lockedUntil: 0 };
+    const failures = state.failures + 1;
+    const locked = failures >= MAX_PIN_ATTEMPTS;
+    pinLockouts[pad] = locked ? { failures: 0, lockedUntil: Date.now() + PIN_LOCKOUT_SECONDS * 1000 } : { ...state, failures };
+    return locked;
+  },
+
+  clearPinFailures: (pad: string) => {
+    delete pinLockouts[pad];
+  }
+};
\ No newline at end of file
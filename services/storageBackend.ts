@@ -0,0 +1,168 @@
+import { QuarantinedRecord } from '../types.ts';
+
+// Storage is split into a handful of record stores. Each backend keeps records keyed by
+// `keyPath` and can look them up through the listed indexes.
+export type StoreName =
+  | 'products'
+  | 'transactions'
+  | 'stock_movements'
+  | 'lots'
+  | 'suppliers'
+  | 'purchase_orders'
+  | 'shifts'
+  | 'users'
+  | 'customers'
+  | 'loyalty_ledger'
+  | 'gift_cards'
+  | 'audit_log'
+  | 'settings'
+  | 'quarantine';
+
+// A record as the backends see it. They only read the key and indexed fields; schemaService
+// checks the rest before the app relies on it.
+export type StoredRecord = Record<string, unknown>;
+
+export interface IndexDefinition {
+  name: string;
+  keyPath: string;
+  multiEntry?: boolean; // Array values index every element
+  derived?: boolean; // keyPath names a value produced by the store's derive()
+}
+
+export interface StoreDefinition {
+  keyPath: string;
+  indexes: IndexDefinition[];
+  // Values computed from a record purely so they can be indexed; kept out of the record itself
+  derive?: (record: StoredRecord) => Record<string, unknown>;
+}
+
+export const STORE_DEFINITIONS: Record<StoreName, StoreDefinition> = {
+  products: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'sku', keyPath: 'sku' },
+      { name: 'barcode', keyPath: 'barcode' },
+    ],
+  },
+  transactions: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'date', keyPath: 'date' },
+      { name: 'sku', keyPath: 'skus', multiEntry: true, derived: true },
+      { name: 'shiftId', keyPath: 'shiftId' },
+      { name: 'customerId', keyPath: 'customerId' },
+    ],
+    derive: (transaction) => ({ skus: Array.from(new Set((transaction.items as { sku: string }[]).map(i => i.sku))) }),
+  },
+  stock_movements: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'productId', keyPath: 'productId' },
+      { name: 'timestamp', keyPath: 'timestamp' },
+    ],
+  },
+  lots: {
+    keyPath: 'id',
+    indexes: [{ name: 'productId', keyPath: 'productId' }],
+  },
+  suppliers: {
+    keyPath: 'id',
+    indexes: [],
+  },
+  purchase_orders: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'status', keyPath: 'status' },
+      { name: 'supplierId', keyPath: 'supplierId' },
+    ],
+  },
+  shifts: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'status', keyPath: 'status' },
+      { name: 'openedAt', keyPath: 'openedAt' },
+    ],
+  },
+  users: {
+    keyPath: 'id',
+    indexes: [],
+  },
+  customers: {
+    keyPath: 'id',
+    indexes: [],
+  },
+  loyalty_ledger: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'customerId', keyPath: 'customerId' },
+      { name: 'transactionId', keyPath: 'transactionId' },
+    ],
+  },
+  gift_cards: {
+    keyPath: 'id',
+    indexes: [{ name: 'code', keyPath: 'code' }],
+  },
+  audit_log: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'sequence', keyPath: 'sequence' },
+    ],
+  },
+  settings: {
+    keyPath: 'key',
+    indexes: [],
+  },
+  quarantine: {
+    keyPath: 'id',
+    indexes: [{ name: 'store', keyPath: 'store' }],
+  },
+};
+
+export const STORE_NAMES = Object.keys(STORE_DEFINITIONS) as StoreName[];
+
+// Inclusive bounds; `equals` wins when given. An empty range matches everything, in index order.
+export interface KeyRange {
+  equals?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface SettingRecord<T = unknown> {
+  key: string;
+  value: T;
+}
+
+export interface StorageBackend {
+  name: 'indexeddb' | 'localstorage';
+  getAll: <T>(store: StoreName) => Promise<T[]>;
+  get: <T>(store: StoreName, key: string) => Promise<T | undefined>;
+  query: <T>(store: StoreName, index: string, range: KeyRange) => Promise<T[]>;
+  put: <T>(store: StoreName, record: T) => Promise<void>;
+  putMany: <T>(store: StoreName, records: T[]) => Promise<void>;
+  remove: (store: StoreName, key: string) => Promise<void>;
+}
+
+export const indexValues = (store: StoreName, record: StoredRecord, index: string): string[] => {
+  const definition = STORE_DEFINITIONS[store];
+  const indexDef = definition.indexes.find(i => i.name === index);
+  if (!indexDef) throw new Error(`Store "${store}" has no index "${index}".`);
+  const source = indexDef.derived && definition.derive ? definition.derive(record) : record;
+  const value = source[indexDef.keyPath];
+  if (value === undefined || value === null) return [];
+  return indexDef.multiEntry && Array.isArray(value) ? value : [value as string];
+};
+
+export const inRange = (value: string, range: KeyRange): boolean => {
+  if (range.equals !== undefined) return value === range.equals;
+  if (range.from !== undefined && value < range.from) return false;
+  if (range.to !== undefined && value > range.to) return false;
+  return true;
+};
+
+export const createQuarantineEntry = (store: StoreName, record: unknown, errors: string[]): QuarantinedRecord => ({
+  id: crypto.randomUUID(),
+  store,
+  record,
+  errors,
+  quarantinedAt: new Date().toISOString(),
+});
\ No newline at end of file
@@ -1,10 +1,31 @@
-import { Product, Transaction } from '../types.ts';
+import { AuditEntry, CartState, CatalogImportBatch, Customer, GiftCard, HeldCart, Lot, LotStock, LoyaltyEntry, LoyaltySettings, Product, Promotion, ScaleBarcodeSettings, PurchaseOrder, QuarantinedRecord, Shift, StaffUser, StockMovement, StoreSettings, Supplier, TaxSettings, Transaction } from '../types.ts';
+import { DEFAULT_TAX_SETTINGS } from './taxService.ts';
+import { DEFAULT_STORE_SETTINGS } from './receiptService.ts';
+import { DEFAULT_LOYALTY_SETTINGS } from './loyaltyService.ts';
+import { DEFAULT_SCALE_SETTINGS } from './measureService.ts';
+import { AuditInput, AuditService } from './auditService.ts';
+import { STORE_DEFINITIONS, STORE_NAMES, SettingRecord, StorageBackend, StoreName, StoredRecord, createQuarantineEntry } from './storageBackend.ts';
+import { LEGACY_PREFIX, LocalStorageBackend } from './localStorageBackend.ts';
+import { createIndexedDbBackend } from './indexedDbBackend.ts';
+import { MIGRATIONS, SCHEMA_VERSION, SchemaService } from './schemaService.ts';
+import { InventoryService, StockPosting } from './inventoryService.ts';
 
-const STORAGE_KEYS = {
-  PRODUCTS: 'retailpulse_products',
-  TRANSACTIONS: 'retailpulse_transactions',
+const SETTING_KEYS = {
+  TAX_SETTINGS: 'tax_settings',
+  PROMOTIONS: 'promotions',
+  STORE_SETTINGS: 'store_settings',
+  LOYALTY_SETTINGS: 'loyalty_settings',
+  SCALE_SETTINGS: 'scale_settings',
+  HELD_CARTS: 'held_carts',
+  ACTIVE_CART: 'active_cart',
+  LAST_CATALOG_IMPORT: 'last_catalog_import',
+  INITIALIZED: 'initialized',
+  SCHEMA_VERSION: 'schema_version',
 };
 
+// Stores whose records are migrated and validated on load
+const RECORD_STORES: StoreName[] = ['products', 'transactions', 'stock_movements', 'lots', 'suppliers', 'purchase_orders', 'shifts', 'users', 'customers', 'loyalty_ledger', 'gift_cards', 'audit_log'];
+
 // Dummy Initial Data
 const INITIAL_PRODUCTS: Product[] = [
   { id: '1', sku: 'BV-001', name: 'Organic Almond Milk', price: 4.50, category: 'Dairy', stock: 24, expiryDate: '2024-12-31' },
@@ -14,38 +35,350 @@ const INITIAL_PRODUCTS: Product[] = [
   { id: '5', sku: 'BV-005', name: 'Sparkling Water Lemon', price: 1.50, category: 'Beverages', stock: 45, expiryDate: '2025-01-01' },
 ];
 
+let backend: StorageBackend | null = null;
+// Last audit entry written, once known; see appendAudit
+let auditTail: Promise<AuditEntry | null> | null = null;
+
+const db = (): StorageBackend => {
+  if (!backend) throw new Error('Storage is not ready yet; await StorageService.init() first.');
+  return backend;
+};
+
+const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const record = await db().get<SettingRecord<T>>('settings', key);
+  return record ? record.value : fallback;
+};
+
+const putSetting = <T>(key: string, value: T) => db().put<SettingRecord<T>>('settings', { key, value });
+
+const legacyKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LEGACY_PREFIX)) keys.push(key);
+  }
+  return keys;
+};
+
+// Copy everything the localStorage layout holds into IndexedDB, then free the quota. The copy is marked
+// done before the old keys go, so a reload in between can't mistake it for a new install and reseed the demo catalog.
+const migrateFromLocalStorage = async (target: StorageBackend) => {
+  for (const store of STORE_NAMES) {
+    const records = await LocalStorageBackend.getAll(store);
+    if (records.length > 0) await target.putMany(store, records);
+  }
+  await target.put<SettingRecord>('settings', { key: SETTING_KEYS.INITIALIZED, value: new Date().toISOString() });
+  legacyKeys().forEach(k => localStorage.removeItem(k));
+};
+
+const quarantine = async (target: StorageBackend, store: StoreName, record: unknown, errors: string[]) => {
+  await target.put('quarantine', createQuarantineEntry(store, record, errors));
+  const key = record && typeof record === 'object' ? (record as StoredRecord)[STORE_DEFINITIONS[store].keyPath] : undefined;
+  if (typeof key === 'string') await target.remove(store, key);
+};
+
+// Bring records written by older versions up to the current shape
+const runMigrations = async (target: StorageBackend) => {
+  const stored = await target.get<SettingRecord<number>>('settings', SETTING_KEYS.SCHEMA_VERSION);
+  const fromVersion = stored ? stored.value : 1; // Data from before versioning is the original shape
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Stored data uses schema version ${fromVersion}, but this app only understands up to ${SCHEMA_VERSION}. Update the app before continuing.`);
+  }
+  if (fromVersion === SCHEMA_VERSION) return;
+
+  for (const store of RECORD_STORES) {
+    const migrated: unknown[] = [];
+    for (const record of await target.getAll<unknown>(store)) {
+      try {
+        migrated.push(SchemaService.migrate(store, record, fromVersion));
+      } catch (e) {
+        await quarantine(target, store, record, [`Migration from version ${fromVersion} failed: ${(e as Error).message}`]);
+      }
+    }
+    await target.putMany(store, migrated);
+  }
+  for (const migration of MIGRATIONS.filter(m => m.version > fromVersion && m.run)) {
+    await migration.run!(target);
+  }
+  await target.put<SettingRecord<number>>('settings', { key: SETTING_KEYS.SCHEMA_VERSION, value: SCHEMA_VERSION });
+};
+
+// Set aside anything that would break the app instead of trusting it
+const validateRecords = async (target: StorageBackend) => {
+  for (const store of RECORD_STORES) {
+    for (const record of await target.getAll<unknown>(store)) {
+      const errors = SchemaService.validate(store, record);
+      if (errors.length > 0) await quarantine(target, store, record, errors);
+    }
+  }
+};
+
 export const StorageService = {
-  getProducts: (): Product[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.PRODUCTS);
-    return data ? JSON.parse(data) : INITIAL_PRODUCTS;
+  // Pick the best available backend and prepare it; everything else awaits this first
+  init: async () => {
+    if (backend) return;
+    let selected: StorageBackend = LocalStorageBackend;
+    if (typeof indexedDB !== 'undefined') {
+      try {
+        selected = await createIndexedDbBackend();
+      } catch (e) {
+        console.warn('IndexedDB unavailable, falling back to localStorage', e);
+      }
+    }
+
+    const initialized = await selected.get<SettingRecord>('settings', SETTING_KEYS.INITIALIZED);
+    if (!initialized) {
+      const legacy = legacyKeys().length > 0;
+      if (legacy && selected !== LocalStorageBackend) {
+        await migrateFromLocalStorage(selected);
+      } else if (!legacy) {
+        // A brand new install: seed the demo catalog, already in the current shape
+        await selected.putMany('products', INITIAL_PRODUCTS);
+        const openings = INITIAL_PRODUCTS.map(p => InventoryService.openingBalance(p, 'System'));
+        await selected.putMany('lots', openings.flatMap(o => o.lots));
+        await selected.putMany('stock_movements', openings.flatMap(o => o.movements));
+        await selected.put<SettingRecord<number>>('settings', { key: SETTING_KEYS.SCHEMA_VERSION, value: SCHEMA_VERSION });
+      }
+      await selected.put<SettingRecord>('settings', { key: SETTING_KEYS.INITIALIZED, value: new Date().toISOString() });
+    }
+    await runMigrations(selected);
+    await validateRecords(selected);
+    backend = selected;
   },
 
-  saveProducts: (products: Product[]) => {
-    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
+  getBackendName: () => db().name,
+
+  getSchemaVersion: () => SCHEMA_VERSION,
+
+  getQuarantine: async (): Promise<QuarantinedRecord[]> => {
+    const records = await db().getAll<QuarantinedRecord>('quarantine');
+    return records.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
   },
 
-  getTransactions: (): Transaction[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-    return data ? JSON.parse(data) : [];
+  discardQuarantined: (id: string) => db().remove('quarantine', id),
+
+  // Stock on the stored product is only a cache; the ledger is the source of truth
+  getProducts: async (): Promise<Product[]> => {
+    const [products, movements, lots] = await Promise.all([
+      db().getAll<Product>('products'),
+      db().getAll<StockMovement>('stock_movements'),
+      db().getAll<Lot>('lots'),
+    ]);
+    return InventoryService.applyOnHand(products, movements, lots);
   },
 
-  saveTransaction: (transaction: Transaction) => {
-    const transactions = StorageService.getTransactions();
-    transactions.unshift(transaction); // Add to top
-    localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
+  findProductsBySku: (sku: string): Promise<Product[]> => db().query<Product>('products', 'sku', { equals: sku }),
+
+  saveProduct: (product: Product) => db().put('products', product),
+
+  saveProducts: (products: Product[]) => db().putMany('products', products),
+
+  deleteProduct: (id: string) => db().remove('products', id),
+
+  // Only the most recent import can be undone
+  getLastCatalogImport: (): Promise<CatalogImportBatch | null> => getSetting<CatalogImportBatch | null>(SETTING_KEYS.LAST_CATALOG_IMPORT, null),
+
+  commitCatalogImport: async (products: Product[], posting: StockPosting, batch: CatalogImportBatch): Promise<Product[]> => {
+    await db().putMany('products', products);
+    await putSetting(SETTING_KEYS.LAST_CATALOG_IMPORT, batch);
+    return StorageService.postMovements(posting.movements, posting.lots);
   },
-  
-  // Helper to update stock after sale
-  processSaleStockUpdate: (items: {id: string, quantity: number}[]) => {
-    const products = StorageService.getProducts();
-    const updatedProducts = products.map(p => {
-      const soldItem = items.find(i => i.id === p.id);
-      if (soldItem) {
-        return { ...p, stock: Math.max(0, p.stock - soldItem.quantity) };
+
+  // Remove what the import created and put updated products back as they were. Products that
+  // have moved stock since the import are left alone so no ledger history is lost.
+  undoCatalogImport: async (batch: CatalogImportBatch): Promise<Product[]> => {
+    const imported = new Set(batch.movementIds);
+    for (const productId of batch.createdProductIds) {
+      const movements = await StorageService.getMovementsForProduct(productId);
+      if (movements.some(m => !imported.has(m.id))) {
+        const product = await db().get<Product>('products', productId);
+        throw new Error(`${product?.name || 'An imported product'} has had stock movements since the import, so the import can no longer be undone.`);
       }
-      return p;
+    }
+    for (const id of batch.movementIds) await db().remove('stock_movements', id);
+    for (const id of batch.lotIds) await db().remove('lots', id);
+    for (const id of batch.createdProductIds) await db().remove('products', id);
+    const restored: Product[] = [];
+    for (const previous of batch.previousProducts) {
+      const current = await db().get<Product>('products', previous.id);
+      // Deleted since the import; leave it deleted
+      if (current) restored.push({ ...previous, stock: current.stock });
+    }
+    await db().putMany('products', restored);
+    await putSetting(SETTING_KEYS.LAST_CATALOG_IMPORT, null);
+    return StorageService.getProducts();
+  },
+
+  getTaxSettings: (): Promise<TaxSettings> => getSetting(SETTING_KEYS.TAX_SETTINGS, DEFAULT_TAX_SETTINGS),
+
+  saveTaxSettings: (settings: TaxSettings) => putSetting(SETTING_KEYS.TAX_SETTINGS, settings),
+
+  getStoreSettings: async (): Promise<StoreSettings> => {
+    return { ...DEFAULT_STORE_SETTINGS, ...await getSetting<Partial<StoreSettings>>(SETTING_KEYS.STORE_SETTINGS, {}) };
+  },
+
+  saveStoreSettings: (settings: StoreSettings) => putSetting(SETTING_KEYS.STORE_SETTINGS, settings),
+
+  getLoyaltySettings: async (): Promise<LoyaltySettings> => {
+    return { ...DEFAULT_LOYALTY_SETTINGS, ...await getSetting<Partial<LoyaltySettings>>(SETTING_KEYS.LOYALTY_SETTINGS, {}) };
+  },
+
+  saveLoyaltySettings: (settings: LoyaltySettings) => putSetting(SETTING_KEYS.LOYALTY_SETTINGS, settings),
+
+  getScaleSettings: async (): Promise<ScaleBarcodeSettings> => {
+    return { ...DEFAULT_SCALE_SETTINGS, ...await getSetting<Partial<ScaleBarcodeSettings>>(SETTING_KEYS.SCALE_SETTINGS, {}) };
+  },
+
+  saveScaleSettings: (settings: ScaleBarcodeSettings) => putSetting(SETTING_KEYS.SCALE_SETTINGS, settings),
+
+  getPromotions: (): Promise<Promotion[]> => getSetting<Promotion[]>(SETTING_KEYS.PROMOTIONS, []),
+
+  savePromotions: (promotions: Promotion[]) => putSetting(SETTING_KEYS.PROMOTIONS, promotions),
+
+  getHeldCarts: (): Promise<HeldCart[]> => getSetting<HeldCart[]>(SETTING_KEYS.HELD_CARTS, []),
+
+  saveHeldCarts: (carts: HeldCart[]) => putSetting(SETTING_KEYS.HELD_CARTS, carts),
+
+  // The in-progress order, so it survives navigating away from the register or a reload
+  getActiveCart: (): Promise<CartState | null> => getSetting<CartState | null>(SETTING_KEYS.ACTIVE_CART, null),
+
+  saveActiveCart: (cart: CartState) => putSetting(SETTING_KEYS.ACTIVE_CART, cart),
+
+  // Newest first
+  getTransactions: async (): Promise<Transaction[]> => {
+    const records = await db().query<Transaction>('transactions', 'date', {});
+    return records.reverse();
+  },
+
+  // Inclusive of both ends, newest first
+  getTransactionsBetween: async (from: Date, to: Date): Promise<Transaction[]> => {
+    const records = await db().query<Transaction>('transactions', 'date', { from: from.toISOString(), to: to.toISOString() });
+    return records.reverse();
+  },
+
+  getTransactionsForSku: async (sku: string): Promise<Transaction[]> => {
+    const records = await db().query<Transaction>('transactions', 'sku', { equals: sku });
+    return records.sort((a, b) => b.date.localeCompare(a.date));
+  },
+
+  saveTransaction: (transaction: Transaction) => db().put('transactions', transaction),
+
+  getTransactionsForShift: async (shiftId: string): Promise<Transaction[]> => {
+    const records = await db().query<Transaction>('transactions', 'shiftId', { equals: shiftId });
+    return records.sort((a, b) => b.date.localeCompare(a.date));
+  },
+
+  // The register runs one shift at a time
+  getOpenShift: async (): Promise<Shift | null> => {
+    const open = await db().query<Shift>('shifts', 'status', { equals: 'open' });
+    return open[0] || null;
+  },
+
+  // Newest first
+  getShifts: async (): Promise<Shift[]> => {
+    const shifts = await db().query<Shift>('shifts', 'openedAt', {});
+    return shifts.reverse();
+  },
+
+  saveShift: (shift: Shift) => db().put('shifts', shift),
+
+  getUsers: async (): Promise<StaffUser[]> => {
+    const users = await db().getAll<StaffUser>('users');
+    return users.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  saveUser: (user: StaffUser) => db().put('users', user),
+
+  getCustomers: async (): Promise<Customer[]> => {
+    const customers = await db().getAll<Customer>('customers');
+    return customers.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  saveCustomer: (customer: Customer) => db().put('customers', customer),
+
+  // Newest first
+  getTransactionsForCustomer: async (customerId: string): Promise<Transaction[]> => {
+    const records = await db().query<Transaction>('transactions', 'customerId', { equals: customerId });
+    return records.sort((a, b) => b.date.localeCompare(a.date));
+  },
+
+  // Oldest first; balances are summed from these, so entries are only ever added
+  getLoyaltyLedger: async (): Promise<LoyaltyEntry[]> => {
+    const entries = await db().getAll<LoyaltyEntry>('loyalty_ledger');
+    return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  },
+
+  addLoyaltyEntries: (entries: LoyaltyEntry[]) => db().putMany('loyalty_ledger', entries),
+
+  // Newest first
+  getGiftCards: async (): Promise<GiftCard[]> => {
+    const cards = await db().getAll<GiftCard>('gift_cards');
+    return cards.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  saveGiftCards: (cards: GiftCard[]) => db().putMany('gift_cards', cards),
+
+  // Oldest first, in chain order
+  getAuditLog: (): Promise<AuditEntry[]> => db().query<AuditEntry>('audit_log', 'sequence', {}),
+
+  // The log is append-only: there is deliberately no way to change or remove an entry.
+  // Appends are queued so each one links to the entry written just before it.
+  appendAudit: (input: AuditInput): Promise<AuditEntry> => {
+    const tail = auditTail || StorageService.getAuditLog().then(log => log[log.length - 1] || null);
+    const appended = tail.then(async previous => {
+      const entry = await AuditService.createEntry(previous, input);
+      await db().put('audit_log', entry);
+      return entry;
     });
-    StorageService.saveProducts(updatedProducts);
-    return updatedProducts;
+    // A failed write leaves the chain where it was
+    auditTail = appended.catch(() => tail);
+    return appended;
+  },
+
+  getSuppliers: async (): Promise<Supplier[]> => {
+    const suppliers = await db().getAll<Supplier>('suppliers');
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  saveSupplier: (supplier: Supplier) => db().put('suppliers', supplier),
+
+  deleteSupplier: (id: string) => db().remove('suppliers', id),
+
+  // Newest first
+  getPurchaseOrders: async (): Promise<PurchaseOrder[]> => {
+    const orders = await db().getAll<PurchaseOrder>('purchase_orders');
+    return orders.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  savePurchaseOrder: (order: PurchaseOrder) => db().put('purchase_orders', order),
+
+  deletePurchaseOrder: (id: string) => db().remove('purchase_orders', id),
+
+  getMovementsForProduct: (productId: string): Promise<StockMovement[]> => {
+    return db().query<StockMovement>('stock_movements', 'productId', { equals: productId });
+  },
+
+  getLotStock: async (): Promise<LotStock[]> => {
+    const [lots, movements] = await Promise.all([
+      db().getAll<Lot>('lots'),
+      db().getAll<StockMovement>('stock_movements'),
+    ]);
+    return InventoryService.lotBalances(lots, movements);
+  },
+
+  // Append to the ledger (creating any new lots first), refresh the cached stock of the
+  // products involved and return the catalog
+  postMovements: async (movements: StockMovement[], newLots: Lot[] = []): Promise<Product[]> => {
+    await db().putMany('lots', newLots);
+    await db().putMany('stock_movements', movements);
+    const touched: Product[] = [];
+    for (const productId of new Set(movements.map(m => m.productId))) {
+      const product = await db().get<Product>('products', productId);
+      if (!product) continue;
+      const ledger = await StorageService.getMovementsForProduct(productId);
+      touched.push({ ...product, stock: InventoryService.onHandByProduct(ledger)[productId] || 0 });
+    }
+    await db().putMany('products', touched);
+    return StorageService.getProducts();
   }
 };
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Product, TaxSettings } from '../types.ts';
+import { DEFAULT_TAX_SETTINGS, TaxService } from './taxService.ts';
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  id: 'p1',
+  sku: 'SKU-1',
+  name: 'Notebook',
+  category: 'Stationery',
+  price: 10,
+  stock: 5,
+  ...overrides,
+});
+
+const inclusive: TaxSettings = { ...DEFAULT_TAX_SETTINGS, pricesIncludeTax: true };
+
+describe('TaxService.calculate', () => {
+  it('adds each rate of the class on top of exclusive prices', () => {
+    const result = TaxService.calculate([{ product: product(), amount: 10 }], DEFAULT_TAX_SETTINGS);
+    expect(result.subtotal).toBe(10);
+    expect(result.tax).toBe(0.8);
+    expect(result.total).toBe(10.8);
+    expect(result.taxBreakdown).toEqual([
+      { rateId: 'state', name: 'State Tax', rate: 0.06, taxableAmount: 10, amount: 0.6 },
+      { rateId: 'city', name: 'City Tax', rate: 0.02, taxableAmount: 10, amount: 0.2 },
+    ]);
+    expect(result.lines[0].net).toBe(10);
+  });
+
+  it('uses the product class over the category class over the default', () => {
+    const settings: TaxSettings = { ...DEFAULT_TAX_SETTINGS, categoryClasses: { Produce: 'reduced' } };
+    const result = TaxService.calculate([
+      { product: product({ id: 'apples', category: 'Produce' }), amount: 10 },
+      { product: product({ id: 'water', category: 'Produce', taxClassId: 'zero' }), amount: 10 },
+      { product: product({ id: 'pen' }), amount: 10 },
+    ], settings);
+    expect(result.lines.map(l => l.taxes)).toEqual([{ grocery: 0.1 }, {}, { state: 0.6, city: 0.2 }]);
+    expect(result.tax).toBe(0.9);
+  });
+
+  it('charges no tax on exempt sales', () => {
+    const result = TaxService.calculate([{ product: product(), amount: 10 }], DEFAULT_TAX_SETTINGS, true);
+    expect(result).toMatchObject({ subtotal: 10, tax: 0, total: 10, taxBreakdown: [] });
+  });
+
+  it('backs tax out of inclusive prices so the total is the shelf price', () => {
+    const result = TaxService.calculate([{ product: product(), amount: 10.8 }], inclusive);
+    expect(result).toMatchObject({ subtotal: 10, tax: 0.8, total: 10.8 });
+  });
+
+  it('keeps inclusive totals at the shelf price when the split does not round evenly', () => {
+    const result = TaxService.calculate([{ product: product(), amount: 1 }], inclusive);
+    expect(result.subtotal).toBe(0.93);
+    expect(result.total).toBe(1);
+    expect(result.taxBreakdown.reduce((sum, l) => sum + l.amount, 0)).toBeCloseTo(result.tax, 10);
+  });
+
+  it('charges only the net amount on exempt inclusive sales', () => {
+    const result = TaxService.calculate([{ product: product(), amount: 10.8 }], inclusive, true);
+    expect(result).toMatchObject({ subtotal: 10, tax: 0, total: 10 });
+  });
+});
\ No newline at end of file
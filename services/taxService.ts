@@ -0,0 +1,114 @@
+import { CartItem, Product, TaxClass, TaxLine, TaxSettings } from '../types.ts';
+import { TenderService } from './tenderService.ts';
+
+// Equivalent to the original flat 8% rate, split into state and city portions
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  rates: [
+    { id: 'state', name: 'State Tax', rate: 0.06 },
+    { id: 'city', name: 'City Tax', rate: 0.02 },
+    { id: 'grocery', name: 'Grocery Tax', rate: 0.01 },
+  ],
+  classes: [
+    { id: 'standard', name: 'Standard', rateIds: ['state', 'city'] },
+    { id: 'reduced', name: 'Reduced (Grocery)', rateIds: ['grocery'] },
+    { id: 'zero', name: 'Zero Rated', rateIds: [] },
+  ],
+  defaultClassId: 'standard',
+  categoryClasses: {},
+  pricesIncludeTax: false,
+};
+
+export interface TaxableLine {
+  product: Product;
+  amount: number; // What the customer is charged for the line, after discounts
+}
+
+export interface TaxCalculation {
+  subtotal: number; // Net of tax
+  tax: number;
+  total: number;
+  taxBreakdown: TaxLine[];
+  lines: { net: number; taxes: Record<string, number> }[];
+}
+
+export const TaxService = {
+  resolveClass: (product: Product, settings: TaxSettings): TaxClass | undefined => {
+    const classId = product.taxClassId || settings.categoryClasses[product.category] || settings.defaultClassId;
+    return settings.classes.find(c => c.id === classId);
+  },
+
+  getCombinedRate: (taxClass: TaxClass | undefined, settings: TaxSettings): number => {
+    if (!taxClass) return 0;
+    return settings.rates
+      .filter(r => taxClass.rateIds.includes(r.id))
+      .reduce((sum, r) => sum + r.rate, 0);
+  },
+
+  // Per-line net and tax amounts plus a per-rate summary. Tax-inclusive prices are
+  // backed out to a net amount first; exempt sales then pay only that net amount.
+  calculate: (lines: TaxableLine[], settings: TaxSettings, exempt = false): TaxCalculation => {
+    const breakdown = new Map<string, TaxLine>();
+
+    const lineResults = lines.map(({ product, amount }) => {
+      const taxClass = TaxService.resolveClass(product, settings);
+      const rates = settings.rates.filter(r => taxClass?.rateIds.includes(r.id));
+      const net = settings.pricesIncludeTax
+        ? amount / (1 + TaxService.getCombinedRate(taxClass, settings))
+        : amount;
+
+      const taxes: Record<string, number> = {};
+      if (!exempt) {
+        rates.forEach(r => {
+          taxes[r.id] = net * r.rate;
+          const entry = breakdown.get(r.id) || { rateId: r.id, name: r.name, rate: r.rate, taxableAmount: 0, amount: 0 };
+          entry.taxableAmount += net;
+          entry.amount += taxes[r.id];
+          breakdown.set(r.id, entry);
+        });
+      }
+      return { net, taxes };
+    });
+
+    const taxBreakdown = Array.from(breakdown.values()).map(line => ({
+      ...line,
+      taxableAmount: TenderService.roundCurrency(line.taxableAmount),
+      amount: TenderService.roundCurrency(line.amount),
+    }));
+    const subtotal = TenderService.roundCurrency(lineResults.reduce((sum, l) => sum + l.net, 0));
+    let tax = TenderService.roundCurrency(taxBreakdown.reduce((sum, l) => sum + l.amount, 0));
+
+    // Tax-inclusive shelf prices are what the customer pays, so the tax is whatever the
+    // rounded net leaves of them. The largest rate line absorbs the rounding remainder.
+    if (settings.pricesIncludeTax && !exempt) {
+      const gross = TenderService.roundCurrency(lines.reduce((sum, l) => sum + l.amount, 0));
+      tax = TenderService.roundCurrency(gross - subtotal);
+      const remainder = TenderService.roundCurrency(tax - taxBreakdown.reduce((sum, l) => sum + l.amount, 0));
+      if (remainder !== 0 && taxBreakdown.length > 0) {
+        const largest = taxBreakdown.reduce((max, l) => l.amount > max.amount ? l : max);
+        largest.amount = TenderService.roundCurrency(largest.amount + remainder);
+      }
+    }
+
+    return {
+      subtotal,
+      tax,
+      total: TenderService.roundCurrency(subtotal + tax),
+      taxBreakdown,
+      lines: lineResults,
+    };
+  },
+
+  // Stamp each cart line with its share of the calculation before the sale is saved
+  applyToItems: (items: CartItem[], calculation: TaxCalculation, lineDiscounts: number[] = []): CartItem[] => {
+    return items.map((item, idx) => ({
+      ...item,
+      lineDiscount: lineDiscounts[idx] || 0,
+      lineNet: calculation.lines[idx].net,
+      lineTaxes: calculation.lines[idx].taxes,
+    }));
+  },
+
+  formatRate: (rate: number): string => {
+    return `${parseFloat((rate * 100).toFixed(3))}%`;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { PaymentLine, PaymentMethod, Transaction } from '../types.ts';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  digital: 'Digital Wallet',
+  points: 'Loyalty Points',
+  gift_card: 'Gift Card / Credit',
+};
+
+// Common bill values used to suggest quick cash amounts at the register
+const BILL_DENOMINATIONS = [1, 5, 10, 20, 50, 100];
+
+export const TenderService = {
+  // Round to whole cents to avoid floating point drift in money math
+  roundCurrency: (amount: number): number => {
+    return Math.round((amount + Number.EPSILON) * 100) / 100;
+  },
+
+  // Exact amount followed by the next bill values a customer is likely to hand over
+  suggestCashAmounts: (amountDue: number, limit = 5): number[] => {
+    const due = TenderService.roundCurrency(amountDue);
+    const suggestions = new Set<number>([due]);
+    for (const bill of BILL_DENOMINATIONS) {
+      const rounded = Math.ceil(due / bill) * bill;
+      if (rounded > due) suggestions.add(rounded);
+    }
+    return Array.from(suggestions).sort((a, b) => a - b).slice(0, limit);
+  },
+
+  calculateChange: (amountDue: number, amountReceived: number): number => {
+    return TenderService.roundCurrency(amountReceived - TenderService.roundCurrency(amountDue));
+  },
+
+  isSufficient: (amountDue: number, amountReceived: number): boolean => {
+    return TenderService.calculateChange(amountDue, amountReceived) >= 0;
+  },
+
+  totalPaid: (payments: PaymentLine[]): number => {
+    return TenderService.roundCurrency(payments.reduce((sum, p) => sum + p.amount, 0));
+  },
+
+  remainingBalance: (amountDue: number, payments: PaymentLine[]): number => {
+    return Math.max(0, TenderService.roundCurrency(amountDue - TenderService.totalPaid(payments)));
+  },
+
+  totalChange: (payments: PaymentLine[]): number => {
+    return TenderService.roundCurrency(payments.reduce((sum, p) => sum + (p.changeGiven ?? 0), 0));
+  },
+
+  // Net amount collected per tender across a set of transactions
+  summarizeByMethod: (transactions: Transaction[]): Record<PaymentMethod, number> => {
+    const totals: Record<PaymentMethod, number> = { cash: 0, card: 0, digital: 0, points: 0, gift_card: 0 };
+    transactions.forEach(t => t.payments.forEach(p => {
+      totals[p.method] = TenderService.roundCurrency(totals[p.method] + p.amount);
+    }));
+    return totals;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { PaymentMethod, Transaction } from '../types.ts';
+
+export interface TransactionFilter {
+  from?: string; // YYYY-MM-DD, inclusive, store local time
+  to?: string; // YYYY-MM-DD, inclusive, store local time
+  method?: PaymentMethod; // Any tender line paid with this method
+  minTotal?: number; // Compared with the size of the total, so refunds match like sales
+  maxTotal?: number;
+  product?: string; // Part of an item name or SKU
+  orderNumber?: string; // Start of the order id as printed on receipts; also finds that order's refunds
+}
+
+export const TransactionSearchService = {
+  matches: (t: Transaction, filter: TransactionFilter): boolean => {
+    if (filter.from && new Date(t.date) < new Date(`${filter.from}T00:00:00`)) return false;
+    if (filter.to && new Date(t.date) > new Date(`${filter.to}T23:59:59.999`)) return false;
+    if (filter.method && !t.payments.some(p => p.method === filter.method)) return false;
+
+    const size = Math.abs(t.total);
+    if (filter.minTotal !== undefined && size < filter.minTotal) return false;
+    if (filter.maxTotal !== undefined && size > filter.maxTotal) return false;
+
+    const product = filter.product?.trim().toLowerCase();
+    if (product && !t.items.some(i => i.name.toLowerCase().includes(product) || i.sku.toLowerCase().includes(product))) return false;
+
+    const order = filter.orderNumber?.trim().replace(/^#/, '').toLowerCase();
+    if (order && !t.id.toLowerCase().startsWith(order) && !t.originalTransactionId?.toLowerCase().startsWith(order)) return false;
+
+    return true;
+  },
+
+  filter: (transactions: Transaction[], filter: TransactionFilter): Transaction[] => {
+    return transactions.filter(t => TransactionSearchService.matches(t, filter));
+  },
+
+  isEmpty: (filter: TransactionFilter): boolean => {
+    return Object.values(filter).every(v => v === undefined || v === '');
+  }
+};
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { Product, ProductOption, Transaction } from '../types.ts';
+import { BarcodeService } from './barcodeService.ts';
+import { ReturnService } from './returnService.ts';
+import { TenderService } from './tenderService.ts';
+
+export interface ProductSales {
+  productId: string; // The parent when the units sold were variants
+  name: string;
+  quantity: number;
+  revenue: number; // Net of discounts and refunds, excluding tax
+}
+
+const skuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const VariantService = {
+  isParent: (product: Product): boolean => !!product.options?.length,
+
+  variantsOf: (parentId: string, products: Product[]): Product[] => products.filter(p => p.parentId === parentId),
+
+  // Parents only group their variants; everything else can be sold, stocked and ordered
+  sellable: (products: Product[]): Product[] => products.filter(p => !VariantService.isParent(p)),
+
+  // A parent has no stock of its own, so it shows what its variants hold between them
+  stockOf: (product: Product, products: Product[]): number => {
+    if (!VariantService.isParent(product)) return product.stock;
+    return VariantService.variantsOf(product.id, products).reduce((sum, v) => sum + v.stock, 0);
+  },
+
+  // Every combination of option values, in option order
+  combinations: (options: ProductOption[]): Record<string, string>[] => {
+    return options.reduce<Record<string, string>[]>(
+      (combos, option) => combos.flatMap(combo => option.values.map(value => ({ ...combo, [option.name]: value }))),
+      [{}]
+    );
+  },
+
+  label: (values: Record<string, string>, options: ProductOption[]): string => options.map(o => values[o.name]).join(' / '),
+
+  // One variant per combination of the parent's options. Variants that already exist keep their
+  // id, SKU, barcode, stock and price override; name, category, unit, tax and reorder settings follow the parent.
+  generate: (parent: Product, existing: Product[]): Product[] => {
+    const options = parent.options || [];
+    const keyOf = (values: Record<string, string>) => VariantService.label(values, options);
+    return VariantService.combinations(options).map(values => {
+      const match = existing.find(v => v.variantValues && keyOf(v.variantValues) === keyOf(values));
+      const variant: Pick<Product, 'id' | 'sku' | 'stock'> & Partial<Product> = match || {
+        id: crypto.randomUUID(),
+        sku: [parent.sku, ...options.map(o => skuPart(values[o.name]))].join('-'),
+        stock: 0,
+      };
+      return {
+        ...variant,
+        name: `${parent.name} - ${keyOf(values)}`,
+        price: variant.priceOverride ?? parent.price,
+        category: parent.category,
+        taxClassId: parent.taxClassId,
+        loyaltyMultiplier: parent.loyaltyMultiplier,
+        unit: parent.unit,
+        imageUrl: parent.imageUrl,
+        reorderPoint: parent.reorderPoint,
+        reorderQuantity: parent.reorderQuantity,
+        leadTimeDays: parent.leadTimeDays,
+        parentId: parent.id,
+        variantValues: values,
+      };
+    });
+  },
+
+  // Null when the parent and its variants can be saved, otherwise the reason they can't
+  validate: (parent: Product, variants: Product[], removed: Product[], products: Product[]): string | null => {
+    const options = parent.options || [];
+    if (options.some(o => !o.name || o.values.length === 0)) return 'Every option needs a name and at least one value.';
+    if (new Set(options.map(o => o.name.toLowerCase())).size < options.length) return 'Each option needs a different name.';
+    if (options.some(o => new Set(o.values.map(v => v.toLowerCase())).size < o.values.length)) return 'An option lists the same value twice.';
+
+    // Dropping a combination deletes its variant, which would strand any stock it holds
+    const stocked = removed.find(v => v.stock !== 0);
+    if (stocked) return `${stocked.name} still has ${stocked.stock} in stock. Adjust it to zero before removing that option value.`;
+
+    const others = products.filter(p => p.id !== parent.id && p.parentId !== parent.id);
+    for (const variant of variants) {
+      if (!variant.sku) return `${variant.name} needs a SKU.`;
+      if ([parent, ...variants, ...others].filter(p => p.sku === variant.sku).length > 1) return `SKU ${variant.sku} is already in use.`;
+      if (variant.priceOverride !== undefined && !(variant.priceOverride >= 0)) return `${variant.name} needs a valid price.`;
+      if (variant.barcode) {
+        const check = BarcodeService.validate(variant.barcode);
+        if (!check.valid) return `${variant.name}: ${check.error}`;
+        const duplicate = BarcodeService.findProduct(variant.barcode, [...others, ...variants.filter(v => v.id !== variant.id)]);
+        if (duplicate) return `Barcode ${variant.barcode} is already assigned to ${duplicate.name}.`;
+      }
+    }
+    return null;
+  },
+
+  // Units and net revenue per product with variants counted under their parent, best sellers first
+  salesByProduct: (transactions: Transaction[], products: Product[]): ProductSales[] => {
+    const totals = new Map<string, ProductSales>();
+    transactions.forEach(t => {
+      const sign = ReturnService.isRefund(t) ? -1 : 1;
+      t.items.filter(item => !item.giftCardCode).forEach(item => {
+        const productId = item.parentId ?? item.id;
+        const entry = totals.get(productId) || { productId, name: products.find(p => p.id === productId)?.name ?? item.name, quantity: 0, revenue: 0 };
+        entry.quantity += sign * item.quantity;
+        entry.revenue = TenderService.roundCurrency(entry.revenue + sign * (item.lineNet ?? item.price * item.quantity));
+        totals.set(productId, entry);
+      });
+    });
+    return [...totals.values()].sort((a, b) => b.revenue - a.revenue);
+  }
+};
\ No newline at end of file
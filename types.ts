@@ -1,26 +1,432 @@
+// Counted items are sold in whole units; weighed items are priced, sold and stocked per kg or lb
+export type UnitOfMeasure = 'each' | 'kg' | 'lb';
+
+// A dimension a product comes in, e.g. Size with values 500ml and 1L
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
 export interface Product {
   id: string;
   sku: string;
+  barcode?: string; // UPC-A, EAN-13 or EAN-8 printed on the package; separate from the internal SKU
   name: string;
   price: number;
   category: string;
   stock: number;
-  expiryDate?: string; // ISO date string YYYY-MM-DD
+  expiryDate?: string; // ISO date string YYYY-MM-DD; earliest expiry among lots still on hand
   imageUrl?: string;
+  taxClassId?: string; // Overrides the tax class mapped to the product's category
+  loyaltyMultiplier?: number; // Overrides the category multiplier; 0 excludes the product from earning points
+  reorderPoint?: number; // Flag as low stock at or below this; falls back to DEFAULT_REORDER_POINT
+  reorderQuantity?: number; // Smallest quantity worth ordering at once (case or pack size)
+  leadTimeDays?: number; // Days from ordering to delivery
+  options?: ProductOption[]; // Parent products only: one variant is generated per combination of values
+  parentId?: string; // Variants only: the parent product they are sold and reported under
+  variantValues?: Record<string, string>; // Variants only: option name to value
+  priceOverride?: number; // Variants only: replaces the parent price
+  unit?: UnitOfMeasure; // Unset means each; price and stock are per this unit
+  plu?: string; // Item number the deli scale prints inside its variable-measure barcodes
+}
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface ManualDiscount {
+  type: DiscountType;
+  value: number; // Percentage (0-100) or dollar amount
 }
 
 export interface CartItem extends Product {
   quantity: number;
+  discount?: ManualDiscount; // Cashier-entered discount on this line
+  restocked?: boolean; // Refund lines only: returned units went back on the shelf
+  // Recorded on completed transactions so refunds reverse exactly what was charged
+  lineDiscount?: number; // Every discount allocated to this line, including its share of cart discounts
+  lineNet?: number; // Line amount after discounts, excluding tax
+  lineTaxes?: Record<string, number>; // Tax charged on this line, keyed by tax rate id
+  lotAllocations?: LotAllocation[]; // Lots the units were taken from (sales) or returned to (refunds)
+  loyaltyPoints?: number; // Points the line earned, unrounded; the transaction total is rounded down
+  giftCardCode?: string; // Gift card sales only: the card this line issued or topped up
+}
+
+// One delivery's worth of a product, tracked separately so each can carry its own expiry
+export interface Lot {
+  id: string;
+  productId: string;
+  code?: string; // Supplier's lot or batch number
+  expiryDate?: string; // YYYY-MM-DD
+  receivedAt: string; // ISO timestamp
+  purchaseOrderId?: string;
+}
+
+export interface LotStock {
+  lot: Lot;
+  quantity: number; // On hand, from the lot's ledger movements
+}
+
+export interface LotAllocation {
+  lotId?: string; // Missing when no lot had stock left (an oversell)
+  quantity: number;
 }
 
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number; // Fraction, e.g. 0.0625 for 6.25%
+}
+
+export interface TaxClass {
+  id: string;
+  name: string;
+  rateIds: string[]; // Stacked rates, each applied to the net line amount
+}
+
+export interface TaxSettings {
+  rates: TaxRate[];
+  classes: TaxClass[];
+  defaultClassId: string;
+  categoryClasses: Record<string, string>; // Category name -> tax class id
+  pricesIncludeTax: boolean;
+}
+
+export interface TaxLine {
+  rateId: string;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'digital' | 'points' | 'gift_card';
+
+export interface PaymentLine {
+  method: PaymentMethod;
+  amount: number; // Portion of the transaction total settled by this line
+  amountReceived?: number; // Cash handed over by the customer
+  changeGiven?: number;
+  points?: number; // Loyalty points spent, for the 'points' tender
+  giftCardCode?: string; // Card charged, or credited on a refund, for the 'gift_card' tender
+}
+
+// Everything needed to resume an in-progress order at the register
+export interface CartState {
+  items: CartItem[];
+  cartDiscount: ManualDiscount | null;
+  couponCodes: string[];
+  taxExempt: { reason: string } | null;
+  customerId?: string;
+}
+
+export interface HeldCart extends CartState {
+  id: string;
+  label: string;
+  heldAt: string; // ISO timestamp
+}
+
+export type PromotionType = 'buy_x_get_y' | 'multi_buy' | 'category_percent' | 'cart_percent' | 'cart_fixed';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  couponCode?: string; // When set, the promotion only applies once this code is entered
+  productIds?: string[]; // buy_x_get_y, multi_buy
+  category?: string; // category_percent
+  buyQuantity?: number; // buy_x_get_y
+  getQuantity?: number; // buy_x_get_y
+  getPercentOff?: number; // buy_x_get_y, 100 means the "get" units are free
+  bundleQuantity?: number; // multi_buy, e.g. 3 for $5
+  bundlePrice?: number; // multi_buy
+  percentOff?: number; // category_percent, cart_percent
+  amountOff?: number; // cart_fixed
+  minimumSpend?: number; // cart_percent, cart_fixed
+}
+
+export interface AppliedDiscount {
+  id: string;
+  label: string;
+  source: 'manual' | 'promotion' | 'coupon';
+  promotionId?: string;
+  couponCode?: string;
+  productId?: string; // Set for line-level discounts
+  amount: number;
+}
+
+export type TransactionType = 'sale' | 'refund';
+
 export interface Transaction {
   id: string;
   date: string; // ISO timestamp
+  type?: TransactionType; // Missing on records saved before refunds existed, treated as 'sale'
+  originalTransactionId?: string; // Refunds only: the sale being reversed
   items: CartItem[];
-  subtotal: number;
-  tax: number;
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  subtotal: number; // After discounts and excluding tax, even when shelf prices include it
+  tax: number; // Sum of taxBreakdown
+  taxBreakdown: TaxLine[];
+  taxExempt?: { reason: string };
   total: number;
-  paymentMethod: 'cash' | 'card' | 'digital';
+  payments: PaymentLine[];
+  shiftId?: string; // The register shift the sale or refund was rung up in
+  customerId?: string; // Set when a customer profile was attached at the register
+  loyalty?: TransactionLoyalty;
+}
+
+// Signed like the money: a refund carries the points it took back and gave back as negatives
+export interface TransactionLoyalty {
+  earned: number;
+  redeemed: number;
+}
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  pointsPerDollar: number; // Earned per dollar spent, after discounts and before tax
+  pointValue: number; // Dollars one point is worth when redeemed
+  minRedeemPoints: number; // Smallest redemption accepted at the register
+  categoryMultipliers: Record<string, number>; // Category name -> multiplier; 0 excludes the category
+}
+
+// How the deli scale lays out its variable-measure EAN-13 labels: a two-digit prefix from 20-29,
+// the item's PLU, then the weight or price, then the check digit
+export interface ScaleBarcodeSettings {
+  weightPrefixes: string[]; // Value is the weight in thousandths of the product's unit
+  pricePrefixes: string[]; // Value is the label price in cents
+  pluDigits: number; // The value takes the remaining digits before the check digit
+}
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'earn_reversal' | 'redeem_reversal';
+
+// One movement on a customer's points balance; the balance is the sum of their entries
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  timestamp: string; // ISO timestamp
+  type: LoyaltyEntryType;
+  points: number; // Positive adds to the balance, negative takes away
+  transactionId: string;
+}
+
+export type StockMovementReason =
+  | 'opening_balance'
+  | 'sale'
+  | 'return'
+  | 'receipt'
+  | 'shrinkage'
+  | 'damage'
+  | 'count_correction'
+  | 'transfer';
+
+// One append-only entry in the stock ledger; on-hand stock is the sum of a product's movements
+export interface StockMovement {
+  id: string;
+  productId: string;
+  reason: StockMovementReason;
+  quantity: number; // Signed: positive adds stock, negative removes it
+  user: string;
+  timestamp: string; // ISO timestamp
+  note?: string;
+  referenceId?: string; // The sale, refund or goods receipt that caused the movement
+  purchaseOrderId?: string; // Receipts against a purchase order
+  lotId?: string; // Missing only for stock that was never in a lot, e.g. oversold units
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'closed';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  sku: string;
+  name: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+  unit?: UnitOfMeasure; // Weighed products are ordered and received in fractions
+}
+
+// One delivery against a purchase order
+export interface GoodsReceipt {
+  id: string;
+  receivedAt: string; // ISO timestamp
+  user: string;
+  lines: { productId: string; quantity: number; lotId?: string }[];
+  note?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  number: string; // Human-friendly, e.g. PO-0042
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  createdAt: string;
+  sentAt?: string;
+  closedAt?: string;
+  expectedDate?: string; // YYYY-MM-DD
+  notes?: string;
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+}
+
+export interface StoreSettings {
+  name: string;
+  address: string;
+  phone: string;
+  taxId?: string; // Printed under the header when set
+  receiptFooter: string;
+  autoLockMinutes?: number; // Lock the app after this long without input; 0 turns auto-lock off
+}
+
+// A stored record that failed migration or validation, set aside so the rest of the data still loads
+export interface QuarantinedRecord {
+  id: string;
+  store: string;
+  record: unknown;
+  errors: string[];
+  quarantinedAt: string;
+}
+
+export type CashEventType = 'paid_in' | 'paid_out' | 'drop';
+
+// Cash moved in or out of the drawer for anything other than a sale or refund
+export interface CashEvent {
+  id: string;
+  type: CashEventType;
+  amount: number; // Always positive; the type says which way it moved
+  reason: string;
+  user: string;
+  timestamp: string; // ISO timestamp
+}
+
+export type ShiftStatus = 'open' | 'closed';
+
+// One cashier session on the register, from opening float to closing count
+export interface Shift {
+  id: string;
+  number: number;
+  status: ShiftStatus;
+  openedAt: string; // ISO timestamp
+  openedBy: string;
+  openingFloat: number;
+  cashEvents: CashEvent[];
+  closedAt?: string;
+  closedBy?: string;
+  expectedCash?: number; // Fixed at close so later edits cannot move the variance
+  countedCash?: number;
+}
+
+export type StaffRole = 'cashier' | 'supervisor' | 'manager';
+
+export type Permission = 'view_dashboard' | 'edit_prices' | 'delete_products' | 'give_discounts' | 'give_refunds' | 'manage_staff' | 'view_audit_log' | 'manage_promotions' | 'manage_settings';
+
+// Someone who shops here; sales link to them through Transaction.customerId
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  notes?: string;
+  createdAt: string; // ISO timestamp
+}
+
+export type GiftCardKind = 'gift_card' | 'store_credit';
+
+export type GiftCardEventType = 'issue' | 'load' | 'spend' | 'refund';
+
+export interface GiftCardEvent {
+  id: string;
+  timestamp: string; // ISO timestamp
+  type: GiftCardEventType;
+  amount: number; // Positive adds to the balance, negative spends it
+  balanceAfter: number;
+  transactionId?: string;
+  user: string;
+}
+
+// Stored value that can be spent at the register: sold as a gift card or issued as credit for a return
+export interface GiftCard {
+  id: string;
+  code: string;
+  kind: GiftCardKind;
+  balance: number; // Always the sum of the history amounts
+  createdAt: string; // ISO timestamp
+  customerId?: string;
+  history: GiftCardEvent[];
+}
+
+// A staff account. The PIN is only stored as a salted hash.
+export interface StaffUser {
+  id: string;
+  name: string;
+  role: StaffRole;
+  pinSalt: string;
+  pinHash: string;
+  active: boolean; // Deactivated rather than deleted so past records still name them
+  createdAt: string; // ISO timestamp
+}
+
+export type AuditAction =
+  | 'login'
+  | 'login_failed'
+  | 'logout'
+  | 'approval'
+  | 'product_created'
+  | 'product_updated'
+  | 'price_changed'
+  | 'product_deleted'
+  | 'stock_adjusted'
+  | 'stock_received'
+  | 'catalog_imported'
+  | 'catalog_import_undone'
+  | 'line_voided'
+  | 'cart_voided'
+  | 'refund'
+  | 'shift_opened'
+  | 'cash_event'
+  | 'shift_closed'
+  | 'staff_changed'
+  | 'promotions_changed'
+  | 'settings_changed';
+
+// One link in the append-only audit chain. The hash covers every other field plus the
+// previous entry's hash, so editing or removing any entry breaks every hash after it.
+export interface AuditEntry {
+  id: string;
+  sequence: number; // 1, 2, 3... with no gaps
+  timestamp: string; // ISO timestamp
+  user: string;
+  userId?: string;
+  action: AuditAction;
+  summary: string;
+  entityId?: string; // Product, transaction, shift or staff id the action touched
+  before?: Record<string, unknown>; // Changed fields only, for edits
+  after?: Record<string, unknown>;
+  approvedBy?: string; // Set when someone else's PIN allowed the action
+  previousHash: string;
+  hash: string;
+}
+
+// What a catalog import changed, kept so the whole import can be undone in one step
+export interface CatalogImportBatch {
+  id: string;
+  importedAt: string; // ISO timestamp
+  user: string;
+  fileName: string;
+  createdProductIds: string[];
+  previousProducts: Product[]; // Updated products as they were before the import
+  lotIds: string[]; // Opening stock of created products
+  movementIds: string[];
 }
 
 export interface SalesSummary {
@@ -35,4 +441,11 @@ export enum Page {
   REGISTER = 'register',
   INVENTORY = 'inventory',
   HISTORY = 'history',
+  CUSTOMERS = 'customers',
+  GIFT_CARDS = 'gift-cards',
+  PROMOTIONS = 'promotions',
+  PURCHASING = 'purchasing',
+  STAFF = 'staff',
+  AUDIT = 'audit',
+  SETTINGS = 'settings',
 }